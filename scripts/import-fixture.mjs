@@ -0,0 +1,179 @@
+// Local stand-in for a remote server, to exercise URL imports end to end.
+//
+//   node scripts/import-fixture.mjs
+//     serves generated files on http://localhost:8000:
+//       /file/<bytes>      with Content-Length, a strong ETag and Range support
+//       /chunked/<bytes>   without a Content-Length
+//       /redirect/<bytes>  302 to /file/<bytes>
+//
+//   WORKER_URL=http://localhost:8787 TOKEN=<api token> node scripts/import-fixture.mjs
+//     also imports each kind of file through the Worker, waits for the jobs
+//     and checks that what was stored matches what was served, then exits.
+//
+// The Worker refuses private sources, so run it with
+// IMPORT_ALLOWED_HOSTS=localhost (e.g. in .dev.vars).
+
+import { createHash } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const PORT = parseInt(process.env.PORT ?? '8000', 10);
+const MB = 1024 * 1024;
+
+// Every file is a prefix of the same pseudo-random stream, so any byte range
+// can be produced without keeping the file around
+const BLOCK = (() => {
+  const block = Buffer.alloc(MB);
+  let state = 0x2545f491;
+  for (let i = 0; i < block.length; i++) {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    block[i] = state & 0xff;
+  }
+  return block;
+})();
+
+function bytesAt(index) {
+  const chunk = Buffer.from(BLOCK);
+  chunk.writeUInt32BE(index);
+  return chunk;
+}
+
+function* content(start, end) {
+  for (let offset = start; offset < end;) {
+    const index = Math.floor(offset / MB);
+    const from = offset - index * MB;
+    const to = Math.min(MB, end - index * MB);
+    yield bytesAt(index).subarray(from, to);
+    offset = index * MB + to;
+  }
+}
+
+function digest(size) {
+  const hash = createHash('sha256');
+  for (const chunk of content(0, size)) hash.update(chunk);
+  return hash.digest('hex');
+}
+
+function send(response, chunks) {
+  const next = () => {
+    for (let result = chunks.next(); !result.done; result = chunks.next()) {
+      if (!response.write(result.value)) {
+        response.once('drain', next);
+        return;
+      }
+    }
+    response.end();
+  };
+  next();
+}
+
+const server = createServer((request, response) => {
+  const [, kind, sizeText] = request.url.split('?')[0].split('/');
+  const size = parseInt(sizeText, 10);
+  if (!Number.isSafeInteger(size) || size < 0) {
+    response.writeHead(404).end();
+    return;
+  }
+
+  if (kind === 'redirect') {
+    response.writeHead(302, { Location: `/file/${size}` }).end();
+    return;
+  }
+  if (kind === 'chunked') {
+    response.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+    send(response, content(0, size));
+    return;
+  }
+  if (kind !== 'file') {
+    response.writeHead(404).end();
+    return;
+  }
+
+  const etag = `"fixture-${size}"`;
+  const range = request.headers.range?.match(/^bytes=(\d+)-(\d*)$/);
+  const ifRange = request.headers['if-range'];
+  const headers = { 'Content-Type': 'application/octet-stream', 'Accept-Ranges': 'bytes', ETag: etag };
+
+  if (range && (!ifRange || ifRange === etag)) {
+    const start = parseInt(range[1], 10);
+    const end = range[2] ? Math.min(parseInt(range[2], 10) + 1, size) : size;
+    if (start >= size || start >= end) {
+      response.writeHead(416, { 'Content-Range': `bytes */${size}` }).end();
+      return;
+    }
+    response.writeHead(206, { ...headers, 'Content-Length': end - start, 'Content-Range': `bytes ${start}-${end - 1}/${size}` });
+    send(response, content(start, end));
+    return;
+  }
+
+  response.writeHead(200, { ...headers, 'Content-Length': size });
+  if (request.method === 'HEAD') {
+    response.end();
+    return;
+  }
+  send(response, content(0, size));
+});
+
+// Sizes pick each path through the importer: one PUT, multipart with a known
+// length, and multipart with parts buffered to learn their size
+const CASES = [
+  { name: 'small', path: `/file/${5 * MB + 123}` },
+  { name: 'large', path: `/file/${150 * MB + 7}` },
+  { name: 'unknown-length', path: `/chunked/${70 * MB + 11}` },
+  { name: 'redirected', path: `/redirect/${3 * MB}` }
+];
+
+async function api(path, init = {}) {
+  const response = await fetch(`${process.env.WORKER_URL}${path}`, {
+    ...init,
+    headers: { Authorization: `Bearer ${process.env.TOKEN}`, 'Content-Type': 'application/json', ...init.headers }
+  });
+  if (!response.ok) {
+    throw new Error(`${path}: ${response.status} ${await response.text()}`);
+  }
+  return response;
+}
+
+async function runCase({ name, path }) {
+  const size = parseInt(path.split('/').pop(), 10);
+  const key = `import-fixture/${name}-${Date.now()}.bin`;
+  const job = await (await api('/api/imports', {
+    method: 'POST',
+    body: JSON.stringify({ url: `http://localhost:${PORT}${path}`, key })
+  })).json();
+
+  let status = job;
+  while (status.status === 'queued' || status.status === 'running') {
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    status = await (await api(`/api/imports/${job.id}`)).json();
+  }
+  if (status.status !== 'completed') {
+    throw new Error(`job ended ${status.status}: ${status.error}`);
+  }
+
+  const stored = Buffer.from(await (await api(`/api/download/${encodeURIComponent(status.name)}`)).arrayBuffer());
+  const actual = createHash('sha256').update(stored).digest('hex');
+  if (stored.length !== size || actual !== digest(size)) {
+    throw new Error(`stored ${stored.length} bytes with SHA-256 ${actual}, served ${size}`);
+  }
+  await api(`/api/files/${encodeURIComponent(status.name)}`, { method: 'DELETE' });
+}
+
+server.listen(PORT, async () => {
+  console.log(`Serving fixtures on http://localhost:${PORT}`);
+  if (!process.env.WORKER_URL) return;
+
+  let failed = 0;
+  for (const testCase of CASES) {
+    try {
+      await runCase(testCase);
+      console.log(`ok    ${testCase.name}`);
+    } catch (error) {
+      failed++;
+      console.log(`FAIL  ${testCase.name}: ${error.message}`);
+    }
+  }
+  server.close();
+  process.exitCode = failed > 0 ? 1 : 0;
+});
@@ -1,19 +1,87 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { FileUploader } from './components/FileUploader';
 import { FileList } from './components/FileList';
+import { ImportPanel } from './components/ImportPanel';
+import { SharedFile } from './components/SharedFile';
+import { FileRequestUpload } from './components/FileRequestUpload';
+import { FileRequests } from './components/FileRequests';
+import { WebhookSettings } from './components/WebhookSettings';
+import { AdminPanel } from './components/AdminPanel';
+import { CurrentUser, LoginForm } from './components/LoginForm';
+import { apiFetch, AUTH_REQUIRED_EVENT } from './lib/api';
+
+// Set when the worker sends a share link to an encrypted file here to be decrypted
+const shareParam = new URLSearchParams(window.location.search).get('share');
+const sharedLink = shareParam?.startsWith('/api/public/share/') ? shareParam : null;
+
+// Set when someone opens a file request link to send files
+const fileRequestToken = new URLSearchParams(window.location.search).get('request');
 
 export default function App() {
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [user, setUser] = useState<CurrentUser | null>(null);
+  const [checkingSession, setCheckingSession] = useState(true);
+
+  useEffect(() => {
+    // Shared files can be downloaded, and requested files sent, without signing in
+    if (sharedLink || fileRequestToken) return;
+
+    const handleAuthRequired = () => setUser(null);
+    window.addEventListener(AUTH_REQUIRED_EVENT, handleAuthRequired);
+
+    apiFetch('/api/me')
+      .then(async (response) => {
+        if (response.ok) setUser(await response.json());
+      })
+      .catch((error) => console.error('Failed to check session:', error))
+      .finally(() => setCheckingSession(false));
+
+    return () => window.removeEventListener(AUTH_REQUIRED_EVENT, handleAuthRequired);
+  }, []);
 
   const handleUploadComplete = () => {
     setRefreshTrigger(prev => prev + 1);
   };
 
+  const handleLogout = async () => {
+    await apiFetch('/api/logout', { method: 'POST' }).catch(() => undefined);
+    setUser(null);
+  };
+
   return (
     <div className="max-w-4xl mx-auto">
-      <h1 className="text-3xl font-bold mb-8">Large File Upload</h1>
-      <FileUploader onUploadComplete={handleUploadComplete} />
-      <FileList key={refreshTrigger} />
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-3xl font-bold">Large File Upload</h1>
+        {user && (
+          <div className="flex items-center gap-4 text-sm text-gray-600">
+            <span>Signed in as {user.id}</span>
+            {user.method === 'session' && (
+              <button
+                onClick={handleLogout}
+                className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+              >
+                Sign out
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      {sharedLink ? (
+        <SharedFile link={sharedLink} />
+      ) : fileRequestToken ? (
+        <FileRequestUpload token={fileRequestToken} />
+      ) : checkingSession ? null : user ? (
+        <>
+          <FileUploader onUploadComplete={handleUploadComplete} />
+          <ImportPanel onImportComplete={handleUploadComplete} />
+          <FileList key={refreshTrigger} />
+          <FileRequests />
+          <WebhookSettings />
+          {user.admin && <AdminPanel />}
+        </>
+      ) : (
+        <LoginForm onLogin={setUser} />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
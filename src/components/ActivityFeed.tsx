@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react';
+import { apiFetch } from '../lib/api';
+import { navigateToDownload } from '../lib/download';
+import { formatBytes } from '../lib/format';
+
+type AuditAction = 'upload.completed' | 'upload.aborted' | 'file.downloaded' | 'metadata.updated' | 'file.moved' | 'file.copied' | 'file.deleted';
+
+interface AuditEntry {
+  id: string;
+  timestamp: string;
+  action: AuditAction;
+  actor: string;
+  ip: string | null;
+  userAgent: string | null;
+  key: string;
+  bytes: number | null;
+  range?: string;
+  details?: Record<string, string>;
+}
+
+interface ActivityFeedProps {
+  // A file name, or a folder ending in '/' for everything below it; empty for all files
+  filter: string;
+  onClearFilter?: () => void;
+}
+
+const PAGE_SIZE = 20;
+
+const ACTIONS: { value: AuditAction; label: string }[] = [
+  { value: 'upload.completed', label: 'Uploaded' },
+  { value: 'upload.aborted', label: 'Upload aborted' },
+  { value: 'file.downloaded', label: 'Downloaded' },
+  { value: 'metadata.updated', label: 'Details edited' },
+  { value: 'file.moved', label: 'Moved' },
+  { value: 'file.copied', label: 'Copied' },
+  { value: 'file.deleted', label: 'Deleted' }
+];
+
+function describe(entry: AuditEntry): string {
+  const label = ACTIONS.find((action) => action.value === entry.action)?.label ?? entry.action;
+  if (entry.details?.to) return `${label} to ${entry.details.to}`;
+  if (entry.details?.archive) return `${label} in ${entry.details.archive}`;
+  if (entry.details?.disposition === 'inline') return 'Previewed';
+  return label;
+}
+
+// Recent audit log entries for the user's files, with CSV and NDJSON export
+// of everything the current filter matches
+export function ActivityFeed({ filter, onClearFilter }: ActivityFeedProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const queryParams = () => {
+    const params = new URLSearchParams();
+    if (filter) params.set('key', filter);
+    if (action) params.set('action', action);
+    return params;
+  };
+
+  // A null cursor starts over
+  const fetchEntries = async (pageCursor: string | null) => {
+    const params = queryParams();
+    params.set('limit', String(PAGE_SIZE));
+    if (pageCursor) params.set('cursor', pageCursor);
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await apiFetch(`/api/audit?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || response.statusText);
+      }
+      setEntries((prev) => pageCursor ? [...prev, ...data.entries] : data.entries);
+      setCursor(data.cursor);
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEntries(null);
+  }, [filter, action]);
+
+  const handleExport = (format: 'csv' | 'ndjson') => {
+    const params = queryParams();
+    params.set('format', format);
+    navigateToDownload(`/api/audit?${params}`, `audit-log.${format}`);
+  };
+
+  return (
+    <div className="mt-8">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <h3 className="text-lg font-semibold mr-auto">Activity</h3>
+        {filter && (
+          <button
+            onClick={onClearFilter}
+            title="Show activity for all files"
+            className="px-2 py-0.5 text-xs text-blue-800 bg-blue-100 rounded-full"
+          >
+            {filter} ×
+          </button>
+        )}
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value as AuditAction | '')}
+          className="px-2 py-1 text-sm border rounded"
+        >
+          <option value="">All actions</option>
+          {ACTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => fetchEntries(null)}
+          className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+        >
+          Refresh
+        </button>
+        <button
+          onClick={() => handleExport('csv')}
+          className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+        >
+          Export CSV
+        </button>
+        <button
+          onClick={() => handleExport('ndjson')}
+          className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+        >
+          Export NDJSON
+        </button>
+      </div>
+      {error && <div className="text-sm text-red-600 mb-2">Failed to load activity: {error}</div>}
+      {entries.length > 0 ? (
+        <table className="w-full text-xs">
+          <thead className="text-left text-gray-600">
+            <tr>
+              <th className="py-1">Time</th>
+              <th>What</th>
+              <th>File</th>
+              <th>Bytes</th>
+              <th>By</th>
+              <th>IP</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => (
+              <tr key={entry.id} className="border-t" title={entry.userAgent ?? undefined}>
+                <td className="py-1">{new Date(entry.timestamp).toLocaleString()}</td>
+                <td>{describe(entry)}</td>
+                <td className="break-all">{entry.key}</td>
+                <td title={entry.range}>
+                  {entry.bytes !== null && formatBytes(entry.bytes)}
+                  {entry.range && ' (range)'}
+                </td>
+                <td>{entry.actor}</td>
+                <td>{entry.ip}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        !loading && !error && <div className="text-sm text-gray-600">No activity yet.</div>
+      )}
+      {cursor && (
+        <button
+          onClick={() => fetchEntries(cursor)}
+          disabled={loading}
+          className="mt-2 text-xs text-blue-600 hover:underline disabled:opacity-50"
+        >
+          Load more
+        </button>
+      )}
+    </div>
+  );
+}
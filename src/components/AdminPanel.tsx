@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { apiFetch } from '../lib/api';
+import { formatBytes, formatDuration } from '../lib/format';
+import { ConfirmDialog } from './ConfirmDialog';
+
+interface UploadSession {
+  uploadId: string;
+  key: string;
+  owner?: string;
+  fileSize: number;
+  partCount: number;
+  createdAt: string;
+  stale: boolean;
+}
+
+export function AdminPanel() {
+  const [uploads, setUploads] = useState<UploadSession[]>([]);
+  const [staleUploadTtl, setStaleUploadTtl] = useState<number | null>(null);
+  const [message, setMessage] = useState<string>('');
+  const [pendingAbort, setPendingAbort] = useState<UploadSession | null>(null);
+
+  useEffect(() => {
+    fetchUploads();
+  }, []);
+
+  const fetchUploads = async () => {
+    try {
+      const response = await apiFetch('/api/admin/uploads');
+      if (!response.ok) {
+        throw new Error(response.statusText);
+      }
+      const data = await response.json();
+      setUploads(data.uploads);
+      setStaleUploadTtl(data.staleUploadTtl);
+    } catch (error) {
+      setMessage('Failed to load uploads: ' + (error as Error).message);
+    }
+  };
+
+  const handleAbort = async (upload: UploadSession) => {
+    setPendingAbort(null);
+    try {
+      const response = await apiFetch(`/api/admin/uploads/${encodeURIComponent(upload.uploadId)}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(response.statusText);
+      }
+      await fetchUploads();
+    } catch (error) {
+      setMessage('Failed to abort upload: ' + (error as Error).message);
+    }
+  };
+
+  const handleCleanup = async () => {
+    try {
+      const response = await apiFetch('/api/admin/cleanup', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || response.statusText);
+      }
+      setMessage(`Aborted ${data.aborted} stale upload(s)`);
+      await fetchUploads();
+    } catch (error) {
+      setMessage('Cleanup failed: ' + (error as Error).message);
+    }
+  };
+
+  const staleCount = uploads.filter((upload) => upload.stale).length;
+
+  return (
+    <div className="bg-white p-6 mt-8 rounded-lg shadow-md">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">In-progress uploads</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={fetchUploads}
+            className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+          >
+            Refresh
+          </button>
+          <button
+            onClick={handleCleanup}
+            disabled={staleCount === 0}
+            className="px-3 py-1 text-sm text-white bg-red-600 rounded hover:bg-red-700 transition-colors disabled:opacity-50"
+          >
+            Abort {staleCount} stale
+          </button>
+        </div>
+      </div>
+      {staleUploadTtl !== null && (
+        <div className="text-sm text-gray-600 mb-4">
+          Uploads older than {formatDuration(staleUploadTtl)} are aborted automatically every hour.
+        </div>
+      )}
+      {message && (
+        <div className="text-sm font-medium text-gray-700 mb-4">{message}</div>
+      )}
+      <div className="space-y-2">
+        {uploads.map((upload) => (
+          <div key={upload.uploadId} className="flex justify-between items-center p-3 bg-gray-50 rounded text-sm">
+            <div>
+              <div className="font-medium">
+                {upload.key}
+                {upload.stale && (
+                  <span className="ml-2 px-2 py-0.5 text-xs text-red-800 bg-red-100 rounded-full">stale</span>
+                )}
+              </div>
+              <div className="text-gray-600">
+                {upload.owner ?? 'unknown owner'} · {formatBytes(upload.fileSize)} in {upload.partCount} parts
+                {' · '}started {new Date(upload.createdAt).toLocaleString()}
+              </div>
+            </div>
+            <button
+              onClick={() => setPendingAbort(upload)}
+              className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+            >
+              Abort
+            </button>
+          </div>
+        ))}
+        {uploads.length === 0 && (
+          <div className="text-sm text-gray-600">No uploads in progress.</div>
+        )}
+      </div>
+      {pendingAbort && (
+        <ConfirmDialog
+          title="Abort upload"
+          message={`Abort the upload of ${pendingAbort.key}? Parts uploaded so far will be discarded.`}
+          confirmLabel="Abort"
+          danger
+          onConfirm={() => handleAbort(pendingAbort)}
+          onCancel={() => setPendingAbort(null)}
+        />
+      )}
+    </div>
+  );
+}
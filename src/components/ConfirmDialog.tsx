@@ -0,0 +1,74 @@
+import React from 'react';
+
+interface ConfirmDialogProps {
+  title: string;
+  message?: string;
+  confirmLabel: string;
+  // Destructive actions get a red confirm button
+  danger?: boolean;
+  // When set, the dialog asks for a value (e.g. a new name) before confirming
+  value?: string;
+  onValueChange?: (value: string) => void;
+  // Whether an empty value is rejected
+  required?: boolean;
+  busy?: boolean;
+  error?: string | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export function ConfirmDialog({
+  title,
+  message,
+  confirmLabel,
+  danger = false,
+  value,
+  onValueChange,
+  required = false,
+  busy = false,
+  error,
+  onConfirm,
+  onCancel
+}: ConfirmDialogProps) {
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm();
+  };
+
+  return (
+    <div className="fixed inset-0 z-10 flex items-center justify-center bg-black/30">
+      <form onSubmit={handleSubmit} className="w-full max-w-md p-6 bg-white rounded-lg shadow-md">
+        <h3 className="text-lg font-semibold mb-2">{title}</h3>
+        {message && <p className="text-sm text-gray-700 mb-4">{message}</p>}
+        {value !== undefined && (
+          <input
+            autoFocus
+            value={value}
+            onChange={(e) => onValueChange?.(e.target.value)}
+            className="w-full px-3 py-2 mb-4 border rounded"
+          />
+        )}
+        {error && <div className="text-sm text-red-600 mb-4">{error}</div>}
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={busy}
+            className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={busy || (required && !value)}
+            className={`px-3 py-1 text-sm text-white rounded transition-colors disabled:opacity-50 ${
+              danger ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {busy ? 'Working...' : confirmLabel}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,107 +1,698 @@
-import { useEffect, useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { apiFetch } from '../lib/api';
+import { DownloadSink, navigateToDownload, openSaveSink, pickSaveFile, streamDownload, supportsFileSystemAccess } from '../lib/download';
+import { DecryptingSink, EncryptionParams, keySourceFor, unlockKey } from '../lib/encryption';
+import { formatBytes } from '../lib/format';
+import { ActivityFeed } from './ActivityFeed';
+import { ConfirmDialog } from './ConfirmDialog';
+import { FilePreview, previewKind, thumbnailUrl } from './FilePreview';
+import { FileMetadata, MetadataEditor } from './MetadataEditor';
+import { ShareDialog } from './ShareDialog';
 
-interface FileObject {
+interface FileObject extends FileMetadata {
   key: string;
   size: number;
   uploaded: string;
   downloadUrl?: string;
+  // null until the file is first downloaded
+  downloads?: { count: number; lastDownloadedAt: string } | null;
+}
+
+interface FileListPage {
+  objects: FileObject[];
+  folders: string[];
+  cursor: string | null;
+  truncated: boolean;
+}
+
+type SortField = 'name' | 'size' | 'uploaded';
+
+const PAGE_SIZE = 100;
+
+// A file operation waiting for the user to confirm it
+interface PendingAction {
+  type: 'delete' | 'rename' | 'copy' | 'move';
+  files: string[];
+  folders: string[];
+  // New name (rename/copy) or destination folder (move)
+  value?: string;
+}
+
+// An encrypted file waiting for its key or passphrase
+interface PendingUnlock {
+  key: string;
+  params: EncryptionParams;
+  secret: string;
+}
+
+interface DownloadState {
+  loaded: number;
+  total: number | null;
+  controller: AbortController;
+  error: string | null;
 }
 
 export function FileList() {
   const [files, setFiles] = useState<FileObject[]>([]);
+  const [folders, setFolders] = useState<string[]>([]);
+  const [prefix, setPrefix] = useState('');
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  // Filtering by tag searches the current folder and everything below it
+  const [tag, setTag] = useState('');
+  const [sort, setSort] = useState<SortField>('name');
+  const [order, setOrder] = useState<'asc' | 'desc'>('asc');
+  const [loading, setLoading] = useState(false);
+  // Why the folder couldn't be listed, e.g. too large to sort this way
+  const [listError, setListError] = useState<string | null>(null);
+  const [downloads, setDownloads] = useState<Record<string, DownloadState>>({});
+  const [sharingKey, setSharingKey] = useState<string | null>(null);
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [previewKey, setPreviewKey] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [actionBusy, setActionBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [pendingUnlock, setPendingUnlock] = useState<PendingUnlock | null>(null);
+  // File the activity feed is narrowed to; null follows the open folder
+  const [activityKey, setActivityKey] = useState<string | null>(null);
 
   useEffect(() => {
-    fetchFiles();
-  }, []);
+    fetchFiles(null);
+  }, [prefix, search, tag, sort, order]);
+
+  // Fetch a page of the current folder; a null cursor starts over
+  const fetchFiles = async (pageCursor: string | null) => {
+    const params = new URLSearchParams({
+      prefix,
+      limit: String(PAGE_SIZE),
+      sort,
+      order
+    });
+    if (!tag) params.set('delimiter', '/');
+    if (search) params.set('search', search);
+    if (tag) params.set('tag', tag);
+    if (pageCursor) params.set('cursor', pageCursor);
 
-  const fetchFiles = async () => {
+    setLoading(true);
     try {
-      const response = await fetch('/api/list-files');
-      const data = await response.json();
-      setFiles(data);
+      const response = await apiFetch(`/api/list-files?${params}`);
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        setListError(error?.details || error?.error || response.statusText);
+        setFiles([]);
+        setFolders([]);
+        setCursor(null);
+        return;
+      }
+      const data: FileListPage = await response.json();
+      setListError(null);
+      setFiles((prev) => pageCursor ? [...prev, ...data.objects] : data.objects);
+      setFolders((prev) => pageCursor ? [...prev, ...data.folders] : data.folders);
+      setCursor(data.cursor);
+      if (!pageCursor) setSelected(new Set());
     } catch (error) {
       console.error('Failed to fetch files:', error);
+    } finally {
+      setLoading(false);
     }
   };
 
-  const handleDownload = async (key: string) => {
-    try {
-      const response = await fetch(`/api/download/${encodeURIComponent(key)}`);
-      if (!response.ok) {
-        throw new Error('Download failed');
-      }
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearch(searchInput.trim());
+  };
+
+  const openFolder = (folder: string) => {
+    setPrefix(folder);
+    setSearch('');
+    setSearchInput('');
+    setTag('');
+    setActivityKey(null);
+  };
 
-      // Get the filename from the Content-Disposition header if available
-      const contentDisposition = response.headers.get('Content-Disposition');
-      const filenameMatch = contentDisposition?.match(/filename\*=UTF-8''([^;]+)/i);
-      const filename = filenameMatch ? decodeURIComponent(filenameMatch[1]) : key;
+  const handleMetadataSaved = (key: string, metadata: FileMetadata) => {
+    setFiles((prev) => prev.map((file) => file.key === key ? { ...file, ...metadata } : file));
+  };
+
+  const breadcrumbs = prefix.split('/').filter(Boolean).map((segment, i, segments) => ({
+    name: segment,
+    prefix: segments.slice(0, i + 1).join('/') + '/'
+  }));
 
-      // Create a ReadableStream from the response
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('Failed to initialize download stream');
+  const toggleSelected = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
       }
+      return next;
+    });
+  };
 
-      // Create a new ReadableStream and pipe it to a blob
-      const stream = new ReadableStream({
-        async start(controller) {
-          try {
-            while (true) {
-              const {done, value} = await reader.read();
-              if (done) break;
-              controller.enqueue(value);
-            }
-          } finally {
-            reader.releaseLock();
-            controller.close();
-          }
+  const allKeys = [...folders, ...files.map((file) => file.key)];
+  const allSelected = allKeys.length > 0 && allKeys.every((key) => selected.has(key));
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(allKeys));
+  };
+
+  const openAction = (action: PendingAction) => {
+    setActionError(null);
+    setPendingAction(action);
+  };
+
+  const openBulkAction = (type: 'delete' | 'move') => {
+    const keys = [...selected];
+    openAction({
+      type,
+      files: keys.filter((key) => !key.endsWith('/')),
+      folders: keys.filter((key) => key.endsWith('/')),
+      value: type === 'move' ? prefix : undefined
+    });
+  };
+
+  // The archive is built by the worker as it downloads, so hand it to the
+  // browser's download manager, which shows progress from its Content-Length
+  const downloadSelectedAsZip = () => {
+    const keys = [...selected];
+    const folderName = (folder: string) => folder.split('/').filter(Boolean).pop();
+    const name = keys.length === 1 && keys[0].endsWith('/')
+      ? folderName(keys[0])
+      : folderName(prefix) || 'files';
+
+    const params = new URLSearchParams({ name: `${name}.zip` });
+    keys.forEach((key) => params.append('key', key));
+    navigateToDownload(`/api/zip?${params}`, `${name}.zip`);
+  };
+
+  const postJson = async (path: string, body: unknown) => {
+    const response = await apiFetch(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.details || data.error || response.statusText);
+    }
+  };
+
+  const runAction = async (action: PendingAction) => {
+    switch (action.type) {
+      case 'delete':
+        if (action.files.length === 1 && action.folders.length === 0) {
+          const response = await apiFetch(`/api/files/${encodeURIComponent(action.files[0])}`, { method: 'DELETE' });
+          if (!response.ok) throw new Error(await response.text() || response.statusText);
+          break;
         }
-      });
+        if (action.files.length > 0) {
+          await postJson('/api/bulk-delete', { keys: action.files });
+        }
+        for (const folder of action.folders) {
+          await postJson('/api/bulk-delete', { prefix: folder });
+        }
+        break;
+      case 'rename':
+      case 'copy':
+        await postJson(action.type === 'rename' ? '/api/move' : '/api/copy', {
+          from: action.files[0],
+          to: action.value
+        });
+        break;
+      case 'move': {
+        const folder = action.value ? action.value.replace(/\/*$/, '/') : '';
+        for (const key of action.files) {
+          await postJson('/api/move', { from: key, to: folder + (key.split('/').pop() || key) });
+        }
+        break;
+      }
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!pendingAction) return;
+
+    setActionBusy(true);
+    setActionError(null);
+    try {
+      await runAction(pendingAction);
+      setPendingAction(null);
+      await fetchFiles(null);
+    } catch (error) {
+      setActionError((error as Error).message);
+    } finally {
+      setActionBusy(false);
+    }
+  };
+
+  const describeSelection = (action: PendingAction) => {
+    const parts = [];
+    if (action.files.length > 0) parts.push(`${action.files.length} file${action.files.length === 1 ? '' : 's'}`);
+    if (action.folders.length > 0) parts.push(`${action.folders.length} folder${action.folders.length === 1 ? '' : 's'} and everything in them`);
+    return parts.join(' and ');
+  };
+
+  const updateDownload = (key: string, update: Partial<DownloadState> | null) => {
+    setDownloads((prev) => {
+      const next = { ...prev };
+      if (update === null) {
+        delete next[key];
+      } else {
+        next[key] = { ...next[key], ...update };
+      }
+      return next;
+    });
+  };
+
+  // The worker may hand out a presigned R2 URL so the bytes skip the Worker
+  const resolveDownloadUrl = async (key: string) => {
+    const fallback = `/api/download/${encodeURIComponent(key)}`;
+    try {
+      const response = await apiFetch(`/api/download-url/${encodeURIComponent(key)}`);
+      if (!response.ok) return fallback;
+      const data = await response.json();
+      return (data.url as string) || fallback;
+    } catch {
+      return fallback;
+    }
+  };
 
-      // Create response from stream and convert to blob
-      const newResponse = new Response(stream);
-      const blob = await newResponse.blob();
-
-      // Create download link and trigger download
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = filename;
-      a.style.display = 'none';
-      document.body.appendChild(a);
-      a.click();
-      
-      // Clean up
-      setTimeout(() => {
-        document.body.removeChild(a);
-        window.URL.revokeObjectURL(url);
-      }, 100);
+  const encryptionOf = (file: FileObject): EncryptionParams | null => {
+    const encryption = file.customMetadata?.encryption;
+    return encryption ? JSON.parse(encryption) : null;
+  };
+
+  // Stream the download into `sink`, showing progress on the file's row
+  const runDownload = async (key: string, url: string, sink: DownloadSink) => {
+    const controller = new AbortController();
+    updateDownload(key, { loaded: 0, total: null, controller, error: null });
+
+    try {
+      await streamDownload(url, sink, {
+        signal: controller.signal,
+        onProgress: (loaded, total) => updateDownload(key, { loaded, total })
+      });
+      updateDownload(key, null);
     } catch (error) {
+      if (controller.signal.aborted) {
+        updateDownload(key, null);
+        return;
+      }
       console.error('Failed to download file:', error);
+      updateDownload(key, { error: (error as Error).message });
+    }
+  };
+
+  // Encrypted files are decrypted as they stream in. Without the File System
+  // Access API the plaintext has to be collected in memory first, which is
+  // refused for big files.
+  const handleEncryptedDownload = async ({ key, params, secret }: PendingUnlock) => {
+    setPendingUnlock(null);
+    const filename = key.split('/').pop() || key;
+
+    let sink: DownloadSink;
+    try {
+      // Ask where to save while the click still counts as a user gesture
+      sink = await openSaveSink(filename, params.size);
+    } catch (error) {
+      if ((error as DOMException).name !== 'AbortError') {
+        console.error('Failed to open file for writing:', error);
+        updateDownload(key, { loaded: 0, total: null, controller: new AbortController(), error: (error as Error).message });
+      }
+      return;
+    }
+
+    let cryptoKey: CryptoKey;
+    try {
+      cryptoKey = await unlockKey(params, keySourceFor(params, secret.trim()));
+    } catch (error) {
+      await sink.abort();
+      updateDownload(key, { loaded: 0, total: null, controller: new AbortController(), error: (error as Error).message });
+      return;
+    }
+
+    await runDownload(key, await resolveDownloadUrl(key), new DecryptingSink(cryptoKey, params, sink));
+  };
+
+  const handleDownload = async (file: FileObject) => {
+    const key = file.key;
+    const params = encryptionOf(file);
+    if (params) {
+      setPendingUnlock({ key, params, secret: '' });
+      return;
+    }
+
+    const filename = key.split('/').pop() || key;
+
+    // Without the File System Access API, let the browser stream the attachment to disk
+    if (!supportsFileSystemAccess()) {
+      navigateToDownload(await resolveDownloadUrl(key), filename);
+      return;
     }
+
+    let writable: FileSystemWritableFileStream;
+    try {
+      writable = await pickSaveFile(filename);
+    } catch (error) {
+      // The user dismissed the save dialog
+      if ((error as DOMException).name !== 'AbortError') {
+        console.error('Failed to open file for writing:', error);
+      }
+      return;
+    }
+
+    await runDownload(key, await resolveDownloadUrl(key), writable);
   };
 
   return (
     <div className="bg-white p-6 rounded-lg shadow-md">
       <h2 className="text-xl font-semibold mb-4">Uploaded Files</h2>
-      <div className="space-y-2">
-        {files.map((file) => (
-          <div key={file.key} className="flex justify-between items-center p-3 bg-gray-50 rounded">
-            <span className="font-medium">{file.key}</span>
-            <div className="flex items-center gap-4">
-              <span className="text-sm text-gray-600">
-                {Math.round(file.size / 1024 / 1024)}MB
-              </span>
-              <button
-                onClick={() => handleDownload(file.key)}
-                className="px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors"
-              >
-                Download
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <nav className="text-sm">
+          <button onClick={() => openFolder('')} className="text-blue-600 hover:underline">Home</button>
+          {breadcrumbs.map((crumb) => (
+            <span key={crumb.prefix}>
+              <span className="mx-1 text-gray-400">/</span>
+              <button onClick={() => openFolder(crumb.prefix)} className="text-blue-600 hover:underline">
+                {crumb.name}
               </button>
-            </div>
+            </span>
+          ))}
+        </nav>
+        <div className="flex items-center gap-2">
+          <form onSubmit={handleSearch}>
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Filter by name"
+              className="px-2 py-1 text-sm border rounded"
+            />
+          </form>
+          {tag && (
+            <button
+              onClick={() => setTag('')}
+              title="Clear tag filter"
+              className="px-2 py-0.5 text-xs text-blue-800 bg-blue-100 rounded-full"
+            >
+              #{tag} ×
+            </button>
+          )}
+          <select
+            value={`${sort}:${order}`}
+            onChange={(e) => {
+              const [field, direction] = e.target.value.split(':');
+              setSort(field as SortField);
+              setOrder(direction as 'asc' | 'desc');
+            }}
+            className="px-2 py-1 text-sm border rounded"
+          >
+            <option value="name:asc">Name (A-Z)</option>
+            <option value="name:desc">Name (Z-A)</option>
+            <option value="size:desc">Largest first</option>
+            <option value="size:asc">Smallest first</option>
+            <option value="uploaded:desc">Newest first</option>
+            <option value="uploaded:asc">Oldest first</option>
+          </select>
+        </div>
+      </div>
+      {listError && (
+        <div className="p-2 mb-4 text-sm text-red-600 bg-red-50 rounded">{listError}</div>
+      )}
+      {selected.size > 0 && (
+        <div className="flex items-center gap-2 p-2 mb-4 text-sm bg-blue-50 rounded">
+          <span className="mr-auto">{selected.size} selected</span>
+          <button
+            onClick={downloadSelectedAsZip}
+            className="px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors"
+          >
+            Download selected as ZIP
+          </button>
+          <button
+            onClick={() => openBulkAction('move')}
+            disabled={[...selected].every((key) => key.endsWith('/'))}
+            className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors disabled:opacity-50"
+          >
+            Move to folder
+          </button>
+          <button
+            onClick={() => openBulkAction('delete')}
+            className="px-3 py-1 text-sm text-white bg-red-600 rounded hover:bg-red-700 transition-colors"
+          >
+            Delete
+          </button>
+          <button
+            onClick={() => setSelected(new Set())}
+            className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+      <div className="space-y-2">
+        {allKeys.length > 0 && (
+          <label className="flex items-center gap-2 px-3 text-sm text-gray-600">
+            <input type="checkbox" checked={allSelected} onChange={toggleAll} />
+            Select all
+          </label>
+        )}
+        {folders.map((folder) => (
+          <div key={folder} className="flex items-center gap-3 p-3 bg-gray-50 rounded">
+            <input type="checkbox" checked={selected.has(folder)} onChange={() => toggleSelected(folder)} />
+            <button onClick={() => openFolder(folder)} className="font-medium text-blue-600 hover:underline">
+              {folder.slice(prefix.length)}
+            </button>
           </div>
         ))}
+        {files.map((file) => {
+          const download = downloads[file.key];
+          const encrypted = Boolean(file.customMetadata?.encryption);
+          const percentage = download?.total ? Math.round((download.loaded / download.total) * 100) : 0;
+
+          return (
+            <div key={file.key} className="p-3 bg-gray-50 rounded">
+              <div className="flex justify-between items-center">
+                <span className="flex items-center gap-3 font-medium">
+                  <input type="checkbox" checked={selected.has(file.key)} onChange={() => toggleSelected(file.key)} />
+                  {!encrypted && previewKind(file.key, file.httpMetadata?.contentType) === 'image' && (
+                    <img
+                      src={thumbnailUrl(file.key)}
+                      alt=""
+                      loading="lazy"
+                      // No thumbnail when the Images binding isn't configured
+                      onError={(e) => { e.currentTarget.style.display = 'none'; }}
+                      className="w-10 h-10 object-cover rounded"
+                    />
+                  )}
+                  {file.key.slice(prefix.length)}
+                  {file.customMetadata?.sha256 && (file.customMetadata['sha256-verified'] ? (
+                    <span
+                      title={`SHA-256 ${file.customMetadata.sha256}, checked against the whole file`}
+                      className="ml-2 px-2 py-0.5 text-xs text-green-800 bg-green-100 rounded-full"
+                    >
+                      verified
+                    </span>
+                  ) : (
+                    <span
+                      title={`SHA-256 ${file.customMetadata.sha256} as reported by the uploader; each proxied part was checked, the whole file was not`}
+                      className="ml-2 px-2 py-0.5 text-xs text-gray-700 bg-gray-100 rounded-full"
+                    >
+                      sha256
+                    </span>
+                  ))}
+                  {encrypted && (
+                    <span
+                      title="Encrypted in the browser; downloading asks for the key or passphrase"
+                      className="ml-2 px-2 py-0.5 text-xs text-purple-800 bg-purple-100 rounded-full"
+                    >
+                      encrypted
+                    </span>
+                  )}
+                  {file.customMetadata?.['file-request'] && (
+                    <span
+                      title="Sent through a file request link"
+                      className="ml-2 px-2 py-0.5 text-xs text-yellow-800 bg-yellow-100 rounded-full"
+                    >
+                      received
+                    </span>
+                  )}
+                </span>
+                <div className="flex items-center gap-4">
+                  <span className="text-sm text-gray-600">
+                    {file.httpMetadata?.contentType && `${file.httpMetadata.contentType} · `}
+                    {formatBytes(file.size)}
+                    {file.downloads && (
+                      <span title={`Last downloaded ${new Date(file.downloads.lastDownloadedAt).toLocaleString()}`}>
+                        {` · ${file.downloads.count} download${file.downloads.count === 1 ? '' : 's'}`}
+                        {`, last ${new Date(file.downloads.lastDownloadedAt).toLocaleDateString()}`}
+                      </span>
+                    )}
+                  </span>
+                  {download && !download.error ? (
+                    <button
+                      onClick={() => download.controller.abort()}
+                      className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handleDownload(file)}
+                      className="px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors"
+                    >
+                      Download
+                    </button>
+                  )}
+                  {!encrypted && previewKind(file.key, file.httpMetadata?.contentType) && (
+                    <button
+                      onClick={() => setPreviewKey(previewKey === file.key ? null : file.key)}
+                      className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+                    >
+                      Preview
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setSharingKey(sharingKey === file.key ? null : file.key)}
+                    className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+                  >
+                    Share
+                  </button>
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      if (e.target.value === 'details') {
+                        setEditingKey(editingKey === file.key ? null : file.key);
+                        return;
+                      }
+                      if (e.target.value === 'activity') {
+                        setActivityKey(file.key);
+                        return;
+                      }
+                      const type = e.target.value as PendingAction['type'];
+                      openAction({ type, files: [file.key], folders: [], value: type === 'delete' ? undefined : file.key });
+                    }}
+                    className="px-2 py-1 text-sm text-gray-700 bg-gray-200 rounded"
+                  >
+                    <option value="" disabled>More</option>
+                    <option value="details">Edit details</option>
+                    <option value="activity">Activity</option>
+                    <option value="rename">Rename / move</option>
+                    <option value="copy">Copy</option>
+                    <option value="delete">Delete</option>
+                  </select>
+                </div>
+              </div>
+              {(file.customMetadata?.description || file.customMetadata?.tags) && (
+                <div className="flex flex-wrap items-center gap-2 mt-1 text-sm text-gray-600">
+                  {file.customMetadata.description && <span>{file.customMetadata.description}</span>}
+                  {file.customMetadata.tags?.split(',').map((fileTag) => (
+                    <button
+                      key={fileTag}
+                      onClick={() => setTag(fileTag)}
+                      title="Show files with this tag"
+                      className="px-2 py-0.5 text-xs text-blue-800 bg-blue-100 rounded-full hover:bg-blue-200"
+                    >
+                      #{fileTag}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {download && !download.error && (
+                <div className="mt-2">
+                  <div className="w-full bg-gray-200 rounded-full h-2.5">
+                    <div
+                      className="bg-blue-600 h-2.5 rounded-full"
+                      style={{ width: `${percentage}%` }}
+                    ></div>
+                  </div>
+                  <div className="text-sm text-gray-600 mt-1">
+                    {formatBytes(download.loaded)}
+                    {download.total !== null && ` of ${formatBytes(download.total)} (${percentage}%)`}
+                  </div>
+                </div>
+              )}
+              {download?.error && (
+                <div className="text-sm text-red-600 mt-2">Download failed: {download.error}</div>
+              )}
+              {previewKey === file.key && (
+                <FilePreview
+                  fileKey={file.key}
+                  contentType={file.httpMetadata?.contentType}
+                  size={file.size}
+                  onClose={() => setPreviewKey(null)}
+                />
+              )}
+              {sharingKey === file.key && (
+                <ShareDialog fileKey={file.key} encryption={encryptionOf(file)} onClose={() => setSharingKey(null)} />
+              )}
+              {editingKey === file.key && (
+                <MetadataEditor
+                  fileKey={file.key}
+                  metadata={file}
+                  onSaved={(metadata) => handleMetadataSaved(file.key, metadata)}
+                  onClose={() => setEditingKey(null)}
+                />
+              )}
+            </div>
+          );
+        })}
+        {!loading && files.length === 0 && folders.length === 0 && (
+          <div className="text-sm text-gray-600">No files here yet.</div>
+        )}
       </div>
+      {cursor && (
+        <button
+          onClick={() => fetchFiles(cursor)}
+          disabled={loading}
+          className="mt-4 px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors disabled:opacity-50"
+        >
+          {loading ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+      <ActivityFeed filter={activityKey ?? prefix} onClearFilter={() => setActivityKey('')} />
+      {pendingAction && (
+        <ConfirmDialog
+          title={{
+            delete: 'Delete files',
+            rename: 'Rename or move file',
+            copy: 'Copy file',
+            move: 'Move to folder'
+          }[pendingAction.type]}
+          message={{
+            delete: `Permanently delete ${describeSelection(pendingAction)}? This cannot be undone.`,
+            rename: 'Enter the new name. Include a folder path (e.g. reports/2024.pdf) to move it.',
+            copy: 'Enter a name for the copy.',
+            move: `Move ${describeSelection({ ...pendingAction, folders: [] })} to this folder (leave empty for the top level).`
+          }[pendingAction.type]}
+          confirmLabel={{ delete: 'Delete', rename: 'Rename', copy: 'Copy', move: 'Move' }[pendingAction.type]}
+          danger={pendingAction.type === 'delete'}
+          value={pendingAction.type === 'delete' ? undefined : pendingAction.value ?? ''}
+          required={pendingAction.type === 'rename' || pendingAction.type === 'copy'}
+          onValueChange={(value) => setPendingAction({ ...pendingAction, value })}
+          busy={actionBusy}
+          error={actionError}
+          onConfirm={handleConfirm}
+          onCancel={() => setPendingAction(null)}
+        />
+      )}
+      {pendingUnlock && (
+        <ConfirmDialog
+          title="Decrypt download"
+          message={pendingUnlock.params.kdf === 'none'
+            ? `${pendingUnlock.key} is encrypted. Enter the key it was uploaded with.`
+            : `${pendingUnlock.key} is encrypted. Enter the passphrase it was uploaded with.`}
+          confirmLabel="Download"
+          value={pendingUnlock.secret}
+          required
+          onValueChange={(secret) => setPendingUnlock({ ...pendingUnlock, secret })}
+          onConfirm={() => handleEncryptedDownload(pendingUnlock)}
+          onCancel={() => setPendingUnlock(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { apiFetch } from '../lib/api';
+import { formatBytes } from '../lib/format';
+import { highlight, Language, languageFor, TokenType } from '../lib/highlight';
+
+// Only the start of text files is fetched, so huge logs open instantly
+const TEXT_PREVIEW_BYTES = 64 * 1024;
+
+export type PreviewKind = 'image' | 'video' | 'audio' | 'pdf' | 'text';
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: '',
+  comment: 'text-gray-500 italic',
+  string: 'text-green-700',
+  number: 'text-purple-700',
+  keyword: 'text-blue-700 font-semibold',
+  tag: 'text-rose-700',
+  error: 'text-red-700 font-semibold',
+  warning: 'text-amber-700 font-semibold',
+  info: 'text-sky-700'
+};
+
+export function previewKind(key: string, contentType?: string): PreviewKind | null {
+  const type = contentType?.split(';')[0].trim().toLowerCase() ?? '';
+  if (type.startsWith('image/')) return 'image';
+  if (type.startsWith('video/')) return 'video';
+  if (type.startsWith('audio/')) return 'audio';
+  if (type === 'application/pdf') return 'pdf';
+  return languageFor(key, type) ? 'text' : null;
+}
+
+// Same route as downloads, but shown in the page with the stored content type
+export function inlineUrl(key: string): string {
+  return `/api/download/${encodeURIComponent(key)}?inline=1`;
+}
+
+export function thumbnailUrl(key: string): string {
+  return `/api/thumbnail/${encodeURIComponent(key)}`;
+}
+
+interface FilePreviewProps {
+  fileKey: string;
+  contentType?: string;
+  size: number;
+  onClose: () => void;
+}
+
+function TextPreview({ fileKey, contentType, size }: Omit<FilePreviewProps, 'onClose'>) {
+  const [text, setText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const language: Language = languageFor(fileKey, contentType) ?? 'plain';
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const response = await apiFetch(inlineUrl(fileKey), {
+          headers: { Range: `bytes=0-${TEXT_PREVIEW_BYTES - 1}` },
+          signal: controller.signal
+        });
+        if (!response.ok) {
+          throw new Error(response.statusText);
+        }
+        // `stream` holds back a multi-byte character cut off at the end
+        const bytes = new Uint8Array(await response.arrayBuffer()).subarray(0, TEXT_PREVIEW_BYTES);
+        setText(new TextDecoder().decode(bytes, { stream: true }));
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          setError((error as Error).message);
+        }
+      }
+    };
+
+    setText(null);
+    setError(null);
+    load();
+    return () => controller.abort();
+  }, [fileKey]);
+
+  if (error) {
+    return <div className="text-sm text-red-600">Failed to load preview: {error}</div>;
+  }
+  if (text === null) {
+    return <div className="text-sm text-gray-600">Loading...</div>;
+  }
+
+  return (
+    <>
+      <pre className="max-h-[60vh] overflow-auto p-3 text-xs bg-gray-50 border rounded whitespace-pre-wrap break-words">
+        {highlight(text, language).map((token, i) =>
+          token.type === 'plain' ? token.text : <span key={i} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+        )}
+      </pre>
+      {size > TEXT_PREVIEW_BYTES && (
+        <div className="mt-1 text-xs text-gray-600">
+          Showing the first {formatBytes(TEXT_PREVIEW_BYTES)} of {formatBytes(size)}. Download the file to see all of it.
+        </div>
+      )}
+    </>
+  );
+}
+
+export function FilePreview({ fileKey, contentType, size, onClose }: FilePreviewProps) {
+  const kind = previewKind(fileKey, contentType);
+  const url = inlineUrl(fileKey);
+  const title = fileKey.split('/').pop() || fileKey;
+
+  return (
+    <div className="mt-3 p-3 bg-white border rounded space-y-2">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold">Preview of {title}</h3>
+        <button onClick={onClose} className="text-sm text-gray-600 hover:text-gray-900">Close</button>
+      </div>
+      {kind === 'image' && (
+        <img src={url} alt={title} className="max-h-[70vh] max-w-full mx-auto" />
+      )}
+      {/* Media elements seek with Range requests, which the download route serves */}
+      {kind === 'video' && (
+        <video src={url} controls preload="metadata" className="max-h-[70vh] w-full bg-black" />
+      )}
+      {kind === 'audio' && (
+        <audio src={url} controls preload="metadata" className="w-full" />
+      )}
+      {kind === 'pdf' && (
+        <iframe src={url} title={title} className="w-full h-[70vh] border rounded" />
+      )}
+      {kind === 'text' && (
+        <TextPreview fileKey={fileKey} contentType={contentType} size={size} />
+      )}
+      {kind === null && (
+        <div className="text-sm text-gray-600">This file type can't be previewed.</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useRef, useState } from 'react';
+import { formatBytes } from '../lib/format';
+import { uploadFile } from '../lib/uploadFile';
+
+interface FileRequestUploadProps {
+  // Token from the file request link (`?request=...`)
+  token: string;
+}
+
+// What the worker reports about the link; limits are null when not set
+interface FileRequestInfo {
+  note: string | null;
+  expiresAt: number;
+  maxBytes: number | null;
+  maxFiles: number | null;
+  remainingBytes: number | null;
+  remainingFiles: number | null;
+}
+
+interface SentFile {
+  name: string;
+  message: string;
+  failed: boolean;
+}
+
+// Upload page for file request links: people without an account can send
+// files into the owner's folder, but can't see or download anything there
+export function FileRequestUpload({ token }: FileRequestUploadProps) {
+  const [info, setInfo] = useState<FileRequestInfo | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [sent, setSent] = useState<SentFile[]>([]);
+  const [current, setCurrent] = useState<{ name: string; percentage: number } | null>(null);
+  const [message, setMessage] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const fetchInfo = async () => {
+    try {
+      const response = await fetch(`/api/public/requests/${encodeURIComponent(token)}`);
+      if (!response.ok) {
+        throw new Error('This file request link is invalid, expired or closed');
+      }
+      setInfo(await response.json());
+    } catch (error) {
+      setMessage((error as Error).message);
+    }
+  };
+
+  useEffect(() => {
+    fetchInfo();
+  }, [token]);
+
+  const handleUpload = async () => {
+    setMessage('');
+    // One file at a time, so each one is checked against what the link has left
+    for (const file of files) {
+      setCurrent({ name: file.name, percentage: 0 });
+      try {
+        const savedAs = await uploadFile(file, {
+          name: file.name,
+          concurrency: 4,
+          maxPartAttempts: 5,
+          retryBudget: 20,
+          verifyIntegrity: true,
+          conflictPolicy: 'rename',
+          headers: { 'X-File-Request': token },
+          signal: new AbortController().signal,
+          onProgress: (progress) => progress && setCurrent({ name: file.name, percentage: progress.percentage })
+        });
+        setSent((prev) => [...prev, { name: file.name, message: savedAs !== file.name ? `Sent as ${savedAs}` : 'Sent', failed: false }]);
+      } catch (error) {
+        setSent((prev) => [...prev, { name: file.name, message: (error as Error).message, failed: true }]);
+      }
+    }
+
+    setCurrent(null);
+    setFiles([]);
+    if (inputRef.current) inputRef.current.value = '';
+    await fetchInfo();
+  };
+
+  const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+  const full = info !== null && (info.remainingFiles === 0 || info.remainingBytes === 0);
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <h2 className="text-xl font-semibold mb-4">Send files</h2>
+      {info && (
+        <div className="space-y-2 mb-4">
+          {info.note && <p className="text-sm whitespace-pre-wrap">{info.note}</p>}
+          <p className="text-sm text-gray-600">
+            Open until {new Date(info.expiresAt).toLocaleString()}
+            {info.remainingFiles !== null && ` · ${info.remainingFiles} more files`}
+            {info.remainingBytes !== null && ` · ${formatBytes(info.remainingBytes)} left`}
+          </p>
+          {full ? (
+            <p className="text-sm text-gray-700">This link isn't accepting more files.</p>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                ref={inputRef}
+                type="file"
+                multiple
+                disabled={current !== null}
+                onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+                className="text-sm"
+              />
+              <button
+                onClick={handleUpload}
+                disabled={files.length === 0 || current !== null}
+                className="px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                Upload {files.length > 0 && `${files.length} files (${formatBytes(totalSize)})`}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+      {current && (
+        <div className="mb-4">
+          <div className="w-full bg-gray-200 rounded-full h-2.5">
+            <div className="bg-blue-600 h-2.5 rounded-full" style={{ width: `${current.percentage}%` }}></div>
+          </div>
+          <div className="text-sm text-gray-600 mt-1">{current.name} ({current.percentage}%)</div>
+        </div>
+      )}
+      {sent.length > 0 && (
+        <ul className="space-y-1 mb-4 text-sm">
+          {sent.map((file, index) => (
+            <li key={index} className={file.failed ? 'text-red-600' : 'text-gray-700'}>
+              {file.name}: {file.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      {message && (
+        <div className="text-sm font-medium text-gray-700">{message}</div>
+      )}
+    </div>
+  );
+}
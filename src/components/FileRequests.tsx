@@ -0,0 +1,311 @@
+import React, { useEffect, useState } from 'react';
+import { apiFetch } from '../lib/api';
+import { formatBytes } from '../lib/format';
+import { ConfirmDialog } from './ConfirmDialog';
+
+interface FileRequest {
+  id: string;
+  folder: string;
+  note: string | null;
+  createdAt: string;
+  expiresAt: number;
+  maxBytes: number | null;
+  maxFiles: number | null;
+  url: string;
+  received: { bytes: number; files: number };
+  // Files received since the link's files were last opened
+  unread: number;
+}
+
+interface ReceivedFile {
+  key: string;
+  size: number;
+  receivedAt: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: '1 day', seconds: 24 * 60 * 60 },
+  { label: '7 days', seconds: 7 * 24 * 60 * 60 },
+  { label: '30 days', seconds: 30 * 24 * 60 * 60 }
+];
+
+const MB = 1024 * 1024;
+// How often the list checks open links for new files
+const POLL_INTERVAL = 60 * 1000;
+
+interface ReceivedFilesProps {
+  requestId: string;
+  // Called once the worker has marked the files as seen
+  onViewed: () => void;
+}
+
+function ReceivedFiles({ requestId, onViewed }: ReceivedFilesProps) {
+  const [files, setFiles] = useState<ReceivedFile[] | null>(null);
+  // Files received after this are new since the previous look
+  const [viewedBefore, setViewedBefore] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchFiles = async () => {
+    try {
+      const response = await apiFetch(`/api/file-requests/${requestId}`);
+      if (!response.ok) {
+        throw new Error(response.statusText);
+      }
+      const data = await response.json();
+      setFiles(data.files);
+      setViewedBefore((previous) => previous ?? data.lastViewedAt ?? '');
+      onViewed();
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  useEffect(() => {
+    fetchFiles();
+  }, [requestId]);
+
+  if (error) {
+    return <div className="mt-2 text-sm text-red-600">Failed to load received files: {error}</div>;
+  }
+  if (files === null) {
+    return <div className="mt-2 text-sm text-gray-600">Loading...</div>;
+  }
+  if (files.length === 0) {
+    return <div className="mt-2 text-sm text-gray-600">Nothing received yet.</div>;
+  }
+
+  return (
+    <div className="mt-2">
+      <table className="w-full text-xs">
+        <thead className="text-left text-gray-600">
+          <tr>
+            <th className="py-1">Received</th>
+            <th>File</th>
+            <th>Size</th>
+          </tr>
+        </thead>
+        <tbody>
+          {files.map((file) => (
+            <tr key={file.key} className={`border-t ${viewedBefore !== null && file.receivedAt > viewedBefore ? 'font-semibold' : ''}`}>
+              <td className="py-1">{new Date(file.receivedAt).toLocaleString()}</td>
+              <td className="break-all">{file.key}</td>
+              <td>{formatBytes(file.size)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button onClick={fetchFiles} className="mt-1 text-xs text-blue-600 hover:underline">Refresh</button>
+    </div>
+  );
+}
+
+// Upload-only links that let people without an account send files into one
+// of the user's folders
+export function FileRequests() {
+  const [requests, setRequests] = useState<FileRequest[]>([]);
+  const [folder, setFolder] = useState('');
+  const [expiresIn, setExpiresIn] = useState(EXPIRY_OPTIONS[1].seconds);
+  const [maxMegabytes, setMaxMegabytes] = useState('');
+  const [maxFiles, setMaxFiles] = useState('');
+  const [note, setNote] = useState('');
+  const [openFiles, setOpenFiles] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<FileRequest | null>(null);
+  const [message, setMessage] = useState<string>('');
+
+  useEffect(() => {
+    fetchRequests();
+  }, []);
+
+  // Keep checking while any link can still receive files, so new ones show up
+  const open = requests.some((fileRequest) => fileRequest.expiresAt > Date.now());
+  useEffect(() => {
+    if (!open) return;
+    const timer = setInterval(fetchRequests, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [open]);
+
+  const fetchRequests = async () => {
+    try {
+      const response = await apiFetch('/api/file-requests');
+      if (response.ok) {
+        setRequests(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch file requests:', error);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setMessage('');
+    try {
+      const response = await apiFetch('/api/file-requests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          folder: folder.trim(),
+          expiresIn,
+          maxBytes: maxMegabytes ? Math.round(parseFloat(maxMegabytes) * MB) : null,
+          maxFiles: maxFiles ? parseInt(maxFiles, 10) : null,
+          note: note.trim() || undefined
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || response.statusText);
+      }
+      await navigator.clipboard?.writeText(data.url).catch(() => undefined);
+      setMessage('Link created and copied to the clipboard');
+      setNote('');
+      await fetchRequests();
+    } catch (error) {
+      setMessage('Failed to create link: ' + (error as Error).message);
+    }
+  };
+
+  const handleDelete = async (fileRequest: FileRequest) => {
+    setPendingDelete(null);
+    try {
+      const response = await apiFetch(`/api/file-requests/${fileRequest.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(response.statusText);
+      }
+      await fetchRequests();
+    } catch (error) {
+      setMessage('Failed to close link: ' + (error as Error).message);
+    }
+  };
+
+  const unread = requests.reduce((sum, fileRequest) => sum + fileRequest.unread, 0);
+
+  return (
+    <div className="bg-white p-6 mt-8 rounded-lg shadow-md">
+      <h2 className="text-xl font-semibold mb-4">
+        File requests
+        {unread > 0 && (
+          <span className="ml-2 px-2 py-0.5 text-xs font-medium text-white bg-blue-600 rounded-full align-middle">
+            {unread} new
+          </span>
+        )}
+      </h2>
+      <form onSubmit={handleCreate} className="space-y-2 mb-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={folder}
+            onChange={(e) => setFolder(e.target.value)}
+            placeholder="Folder (e.g. submissions/)"
+            className="flex-1 px-2 py-1 text-sm border rounded"
+          />
+          <select
+            value={expiresIn}
+            onChange={(e) => setExpiresIn(parseInt(e.target.value, 10))}
+            className="px-2 py-1 text-sm border rounded"
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.seconds} value={option.seconds}>Expires in {option.label}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0.1"
+            step="any"
+            value={maxMegabytes}
+            onChange={(e) => setMaxMegabytes(e.target.value)}
+            placeholder="Max total MB"
+            className="w-32 px-2 py-1 text-sm border rounded"
+          />
+          <input
+            type="number"
+            min="1"
+            value={maxFiles}
+            onChange={(e) => setMaxFiles(e.target.value)}
+            placeholder="Max files"
+            className="w-28 px-2 py-1 text-sm border rounded"
+          />
+        </div>
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Note for the people uploading (optional)"
+          maxLength={1000}
+          rows={2}
+          className="w-full px-2 py-1 text-sm border rounded"
+        />
+        <button
+          type="submit"
+          className="px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors"
+        >
+          Create link
+        </button>
+      </form>
+      {message && (
+        <div className="text-sm font-medium text-gray-700 mb-4">{message}</div>
+      )}
+      <div className="space-y-2">
+        {requests.map((fileRequest) => {
+          const expired = fileRequest.expiresAt < Date.now();
+          return (
+            <div key={fileRequest.id} className="p-3 bg-gray-50 rounded text-sm">
+              <div className="flex justify-between items-center gap-2">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">
+                    {fileRequest.folder || '/'}
+                    {fileRequest.unread > 0 && (
+                      <span className="ml-2 px-1.5 py-0.5 text-xs text-white bg-blue-600 rounded-full">
+                        {fileRequest.unread} new
+                      </span>
+                    )}
+                  </div>
+                  <input
+                    readOnly
+                    value={fileRequest.url}
+                    onFocus={(e) => e.target.select()}
+                    className="w-72 px-2 py-0.5 my-1 text-xs border rounded bg-white"
+                  />
+                  <div className={expired ? 'text-red-600' : 'text-gray-600'}>
+                    {expired ? 'Expired' : `Expires ${new Date(fileRequest.expiresAt).toLocaleString()}`}
+                    {' · '}
+                    {fileRequest.received.files}{fileRequest.maxFiles !== null && `/${fileRequest.maxFiles}`} files
+                    {' · '}
+                    {formatBytes(fileRequest.received.bytes)}
+                    {fileRequest.maxBytes !== null && ` of ${formatBytes(fileRequest.maxBytes)}`}
+                  </div>
+                  {fileRequest.note && <div className="text-gray-600 truncate">{fileRequest.note}</div>}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setOpenFiles(openFiles === fileRequest.id ? null : fileRequest.id)}
+                    className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+                  >
+                    Received
+                  </button>
+                  <button
+                    onClick={() => setPendingDelete(fileRequest)}
+                    className="px-3 py-1 text-sm text-white bg-red-600 rounded hover:bg-red-700 transition-colors"
+                  >
+                    Close
+                  </button>
+                </div>
+              </div>
+              {openFiles === fileRequest.id && <ReceivedFiles requestId={fileRequest.id} onViewed={fetchRequests} />}
+            </div>
+          );
+        })}
+        {requests.length === 0 && (
+          <div className="text-sm text-gray-600">No file requests yet.</div>
+        )}
+      </div>
+      {pendingDelete && (
+        <ConfirmDialog
+          title="Close file request"
+          message={`Stop accepting uploads into ${pendingDelete.folder || 'your top-level folder'}? Files already received stay where they are.`}
+          confirmLabel="Close link"
+          danger
+          onConfirm={() => handleDelete(pendingDelete)}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,198 +1,473 @@
-import React, { useState } from 'react';
-
-interface UploadProgress {
-  loaded: number;
-  total: number;
-  percentage: number;
-}
+import React, { useEffect, useRef, useState } from 'react';
+import { apiFetch } from '../lib/api';
+import { filesFromDrop, filesFromInput, SelectedFile } from '../lib/dropFiles';
+import { generateKey, KeySource } from '../lib/encryption';
+import { formatBytes, formatDuration } from '../lib/format';
+import { ConflictPolicy, discardUpload, UploadProgress, uploadFile } from '../lib/uploadFile';
 
 interface FileUploaderProps {
   onUploadComplete?: () => void;
+  // Number of files uploaded at the same time
+  fileConcurrency?: number;
+  // Number of parts of each file uploaded in parallel
+  concurrency?: number;
+  // Attempts per part before the upload is interrupted
+  maxPartAttempts?: number;
+  // Retries shared by all parts of one upload
+  retryBudget?: number;
+  // Part size to ask the server for; it may pick a larger one for very big files
+  preferredPartSize?: number;
+  // Compute SHA-256 checksums so the worker can verify what it stores
+  verifyIntegrity?: boolean;
+  // Initial choice for name conflicts; the user can change it
+  defaultConflictPolicy?: ConflictPolicy;
 }
 
-export function FileUploader({ onUploadComplete }: FileUploaderProps) {
-  const [progress, setProgress] = useState<UploadProgress | null>(null);
-  const [message, setMessage] = useState<string>('');
+type QueueStatus = 'queued' | 'uploading' | 'paused' | 'done' | 'failed' | 'cancelled';
 
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+interface QueueItem extends SelectedFile {
+  id: string;
+  status: QueueStatus;
+  progress: UploadProgress | null;
+  message: string;
+  // Name the worker stored the file under, once finished
+  savedAs?: string;
+  // Fixed when the file is queued, so changing the key doesn't affect it
+  encryptWith?: KeySource;
+}
 
-    try {
-      setMessage('Initiating upload...');
-      console.log('Initiating upload for file:', { name: file.name, size: file.size });
-      
-      const response = await fetch('/api/initiate-upload', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ filename: file.name, fileSize: file.size }),
-      });
+// What the worker reports from /api/usage; limits are null when not set
+interface Usage {
+  used: number;
+  quota: number | null;
+  remaining: number | null;
+  maxFileSize: number | null;
+  allowedTypes: string[];
+}
 
-      let uploadData;
-      try {
-        const data = await response.json();
-        if (!response.ok) {
-          throw new Error(`Server error: ${data.error || response.statusText}`);
-        }
-        uploadData = data;
-        console.log('Upload initiated:', uploadData);
-      } catch (parseError) {
-        throw new Error('Failed to parse server response');
-      }
+let nextItemId = 0;
 
-      if (uploadData.type === 'multipart') {
-        await handleMultipartUpload(file, uploadData);
-      } else {
-        await handleSimpleUpload(file, uploadData);
+export function FileUploader({
+  onUploadComplete,
+  fileConcurrency = 2,
+  concurrency = 4,
+  maxPartAttempts = 5,
+  retryBudget = 20,
+  preferredPartSize,
+  verifyIntegrity = true,
+  defaultConflictPolicy = 'rename'
+}: FileUploaderProps) {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>(defaultConflictPolicy);
+  const [description, setDescription] = useState('');
+  const [tags, setTags] = useState('');
+  const [encrypt, setEncrypt] = useState(false);
+  const [keyMode, setKeyMode] = useState<'passphrase' | 'generated'>('passphrase');
+  const [passphrase, setPassphrase] = useState('');
+  const [generatedKey, setGeneratedKey] = useState('');
+  const [encryptError, setEncryptError] = useState('');
+  const [dragging, setDragging] = useState(false);
+  const [usage, setUsage] = useState<Usage | null>(null);
+  // Running uploads, and whether their abort means pause or cancel
+  const controllers = useRef(new Map<string, { controller: AbortController; cancel: boolean }>());
+  const completedSinceRefresh = useRef(0);
+
+  const fetchUsage = async () => {
+    try {
+      const response = await apiFetch('/api/usage');
+      if (response.ok) {
+        setUsage(await response.json());
       }
     } catch (error) {
-      setMessage('Upload failed: ' + (error as Error).message);
+      console.error('Failed to fetch usage:', error);
     }
   };
 
-  const handleMultipartUpload = async (file: File, uploadData: any) => {
-    // Use 10MB chunks to match worker configuration
-    const chunkSize = 10 * 1024 * 1024; // 10MB chunks
-    let uploadedSize = 0;
-    const completedParts: { partNumber: number; etag: string }[] = [];
+  useEffect(() => {
+    fetchUsage();
+  }, []);
 
-    try {
-      for (const part of uploadData.parts) {
-        const start = (part.partNumber - 1) * chunkSize;
-        const end = Math.min(start + chunkSize, file.size);
-        const chunk = file.slice(start, end);
-
-        // Send the upload request through our worker
-        const response = await fetch(part.url, {
-          method: 'PUT',
-          body: chunk,
-          headers: {
-            'Content-Type': 'application/octet-stream'
-          }
-        });
-
-        if (!response.ok) {
-          throw new Error(`Failed to upload part ${part.partNumber} (Status: ${response.status})`);
-        }
+  const updateItem = (id: string, update: Partial<QueueItem>) => {
+    setItems((prev) => prev.map((item) => item.id === id ? { ...item, ...update } : item));
+  };
 
-        const result = await response.json();
-        if (!result.etag) {
-          throw new Error(`No ETag received for part ${part.partNumber}`);
-        }
+  // What newly queued files are encrypted with, or undefined for no encryption
+  const keySource = (): KeySource | undefined => {
+    if (!encrypt) return undefined;
+    return keyMode === 'generated' ? { rawKey: generatedKey } : { passphrase };
+  };
 
-        completedParts.push({
-          partNumber: part.partNumber,
-          etag: result.etag
-        });
-
-        uploadedSize += chunk.size;
-        setProgress({
-          loaded: uploadedSize,
-          total: file.size,
-          percentage: Math.round((uploadedSize / file.size) * 100),
-        });
-      }
+  const chooseKeyMode = (mode: 'passphrase' | 'generated') => {
+    setKeyMode(mode);
+    if (mode === 'generated' && !generatedKey) {
+      setGeneratedKey(generateKey());
+    }
+  };
+
+  const enqueue = (files: SelectedFile[]) => {
+    if (encrypt && keyMode === 'passphrase' && passphrase.length < 8) {
+      setEncryptError('Enter a passphrase of at least 8 characters to encrypt these files.');
+      return;
+    }
+    setEncryptError('');
+    const encryptWith = keySource();
+    setItems((prev) => [
+      ...prev,
+      ...files.map((file) => ({
+        ...file,
+        id: String(nextItemId++),
+        status: 'queued' as const,
+        progress: null,
+        message: 'Waiting...',
+        encryptWith
+      }))
+    ]);
+  };
 
-      // Complete the multipart upload
-      const response = await fetch('/api/complete-multipart', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          filename: file.name,
-          uploadId: uploadData.uploadId,
-          parts: completedParts
-        })
+  const runItem = async (item: QueueItem) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, { controller, cancel: false });
+    updateItem(item.id, { status: 'uploading', message: 'Starting...' });
+
+    try {
+      const savedAs = await uploadFile(item.file, {
+        name: item.path,
+        concurrency,
+        maxPartAttempts,
+        retryBudget,
+        preferredPartSize,
+        verifyIntegrity,
+        conflictPolicy,
+        description: description.trim() || undefined,
+        tags: tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+        encrypt: item.encryptWith,
+        signal: controller.signal,
+        onStatus: (message) => updateItem(item.id, { message }),
+        onProgress: (progress) => updateItem(item.id, { progress })
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to complete multipart upload');
+      completedSinceRefresh.current++;
+      updateItem(item.id, {
+        status: 'done',
+        savedAs,
+        // The worker may have picked a different name to avoid a conflict
+        message: savedAs !== item.path ? `Saved as ${savedAs}` : 'Upload complete!'
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        const cancelled = controllers.current.get(item.id)?.cancel;
+        if (cancelled) {
+          await discardUpload(item.file, item.path);
+        }
+        updateItem(item.id, cancelled
+          ? { status: 'cancelled', progress: null, message: 'Cancelled' }
+          : { status: 'paused', message: 'Paused' });
+      } else {
+        console.error('Upload failed:', error);
+        // Multipart progress stays stored, so a retry resumes the upload
+        updateItem(item.id, { status: 'failed', message: 'Upload failed: ' + (error as Error).message });
       }
+    } finally {
+      controllers.current.delete(item.id);
+    }
+  };
+
+  // Start queued files while there are free slots, and refresh the file list
+  // once the queue drains rather than after every one of hundreds of files
+  useEffect(() => {
+    // Counted from the running set, since a just-started item may still read 'queued'
+    const active = controllers.current.size;
+    const queued = items.filter((item) => item.status === 'queued' && !controllers.current.has(item.id));
+
+    for (const item of queued.slice(0, Math.max(0, fileConcurrency - active))) {
+      runItem(item);
+    }
 
-      setMessage('Upload complete!');
-      setProgress(null);
+    if (active === 0 && queued.length === 0 && completedSinceRefresh.current > 0) {
+      completedSinceRefresh.current = 0;
       onUploadComplete?.();
-    } catch (error) {
-      console.error('Upload failed:', error);
-      // Abort the multipart upload if it fails
-      try {
-        await fetch('/api/abort-multipart', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            filename: file.name,
-            uploadId: uploadData.uploadId
-          })
-        });
-      } catch (abortError) {
-        console.error('Failed to abort multipart upload:', abortError);
-      }
+      fetchUsage();
+    }
+  }, [items]);
 
-      setMessage('Upload failed: ' + (error as Error).message);
-      setProgress(null);
+  const pause = (item: QueueItem) => {
+    controllers.current.get(item.id)?.controller.abort();
+  };
+
+  const cancel = (item: QueueItem) => {
+    const running = controllers.current.get(item.id);
+    if (running) {
+      running.cancel = true;
+      running.controller.abort();
+      return;
     }
+    updateItem(item.id, { status: 'cancelled', progress: null, message: 'Cancelled' });
+    discardUpload(item.file, item.path);
   };
 
-  const handleSimpleUpload = async (file: File, uploadData: any) => {
-    const formData = new FormData();
-    formData.append('file', file);
+  // Resuming and retrying both put the file back in the queue; stored
+  // multipart progress means it continues rather than starting over
+  const requeue = (item: QueueItem) => {
+    updateItem(item.id, { status: 'queued', message: 'Waiting...' });
+  };
 
-    try {
-      const xhr = new XMLHttpRequest();
-      
-      xhr.upload.onprogress = (event) => {
-        if (event.lengthComputable) {
-          setProgress({
-            loaded: event.loaded,
-            total: event.total,
-            percentage: Math.round((event.loaded / event.total) * 100)
-          });
-        }
-      };
-
-      await new Promise((resolve, reject) => {
-        xhr.open('POST', uploadData.uploadUrl);
-        
-        xhr.onload = () => {
-          if (xhr.status >= 200 && xhr.status < 300) {
-            resolve(xhr.response);
-          } else {
-            reject(new Error(`HTTP ${xhr.status}: ${xhr.statusText}`));
-          }
-        };
-        
-        xhr.onerror = () => reject(new Error('Network error'));
-        xhr.send(formData);
-      });
+  const retryFailed = () => {
+    setItems((prev) => prev.map((item) => item.status === 'failed' ? { ...item, status: 'queued', message: 'Waiting...' } : item));
+  };
 
-      setMessage('Upload complete!');
-      setProgress(null);
-      onUploadComplete?.();
-    } catch (error) {
-      setMessage('Upload failed: ' + (error as Error).message);
+  const clearFinished = () => {
+    setItems((prev) => prev.filter((item) => item.status !== 'done' && item.status !== 'cancelled'));
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      enqueue(filesFromInput(e.target.files));
     }
+    // Allow picking the same files again
+    e.target.value = '';
   };
 
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    enqueue(await filesFromDrop(e.dataTransfer));
+  };
+
+  const counts = items.reduce<Record<QueueStatus, number>>((acc, item) => {
+    acc[item.status]++;
+    return acc;
+  }, { queued: 0, uploading: 0, paused: 0, done: 0, failed: 0, cancelled: 0 });
+  const active = items.filter((item) => item.status !== 'cancelled');
+  const totalBytes = active.reduce((acc, item) => acc + item.file.size, 0);
+  const uploadedBytes = active.reduce(
+    // Encrypted uploads send a few bytes more than the file holds
+    (acc, item) => acc + (item.status === 'done' ? item.file.size : Math.min(item.progress?.loaded ?? 0, item.file.size)),
+    0
+  );
+  const overallPercentage = totalBytes > 0 ? Math.round((uploadedBytes / totalBytes) * 100) : 0;
+
   return (
     <div className="bg-white p-6 rounded-lg shadow-md mb-8">
-      <input
-        type="file"
-        onChange={handleFileSelect}
-        className="mb-4"
-      />
-      {progress && (
-        <div className="w-full bg-gray-200 rounded-full h-2.5 mb-4">
-          <div
-            className="bg-blue-600 h-2.5 rounded-full"
-            style={{ width: `${progress.percentage}%` }}
-          ></div>
-          <div className="text-sm text-gray-600 mt-1">
-            {Math.round(progress.loaded / 1024 / 1024)}MB of {Math.round(progress.total / 1024 / 1024)}MB ({progress.percentage}%)
-          </div>
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center gap-2 p-6 mb-4 border-2 border-dashed rounded ${
+          dragging ? 'border-blue-600 bg-blue-50' : 'border-gray-300'
+        }`}
+      >
+        <span className="text-sm text-gray-600">Drop files or folders here, or</span>
+        <div className="flex gap-2">
+          <label className="px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors cursor-pointer">
+            Choose files
+            <input type="file" multiple onChange={handleFileSelect} className="hidden" />
+          </label>
+          <label className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors cursor-pointer">
+            Choose folder
+            <input
+              type="file"
+              multiple
+              ref={(input) => input?.setAttribute('webkitdirectory', '')}
+              onChange={handleFileSelect}
+              className="hidden"
+            />
+          </label>
+        </div>
+      </div>
+      {usage && (usage.remaining !== null || usage.maxFileSize !== null || usage.allowedTypes.length > 0) && (
+        <div className="mb-4 text-sm text-gray-600">
+          {usage.quota !== null ? `${formatBytes(usage.used)} of ${formatBytes(usage.quota)} used` : `${formatBytes(usage.used)} used`}
+          {usage.remaining !== null && ` · ${formatBytes(usage.remaining)} left`}
+          {usage.maxFileSize !== null && ` · files up to ${formatBytes(usage.maxFileSize)}`}
+          {usage.allowedTypes.length > 0 && ` · allowed types: ${usage.allowedTypes.join(', ')}`}
+          {usage.quota !== null && (
+            <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+              <div
+                className={`h-1.5 rounded-full ${usage.used >= usage.quota * 0.9 ? 'bg-red-600' : 'bg-blue-600'}`}
+                style={{ width: `${Math.min(100, Math.round((usage.used / usage.quota) * 100))}%` }}
+              ></div>
+            </div>
+          )}
         </div>
       )}
-      {message && (
-        <div className="text-sm font-medium text-gray-700">{message}</div>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <input
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description (optional)"
+          maxLength={1024}
+          className="flex-1 px-2 py-1 text-sm border rounded"
+        />
+        <input
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="Tags, comma separated"
+          className="w-56 px-2 py-1 text-sm border rounded"
+        />
+        <label className="text-sm text-gray-600">
+          If the name exists{' '}
+          <select
+            value={conflictPolicy}
+            onChange={(e) => setConflictPolicy(e.target.value as ConflictPolicy)}
+            className="px-2 py-1 text-sm border rounded"
+          >
+            <option value="rename">keep both</option>
+            <option value="overwrite">replace it</option>
+            <option value="fail">skip the file</option>
+          </select>
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+        <label className="flex items-center gap-1 text-gray-700">
+          <input type="checkbox" checked={encrypt} onChange={(e) => setEncrypt(e.target.checked)} />
+          Encrypt in the browser
+        </label>
+        {encrypt && (
+          <>
+            <select
+              value={keyMode}
+              onChange={(e) => chooseKeyMode(e.target.value as 'passphrase' | 'generated')}
+              className="px-2 py-1 text-sm border rounded"
+            >
+              <option value="passphrase">with a passphrase</option>
+              <option value="generated">with a generated key</option>
+            </select>
+            {keyMode === 'passphrase' ? (
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Passphrase (at least 8 characters)"
+                autoComplete="new-password"
+                className="flex-1 px-2 py-1 text-sm border rounded"
+              />
+            ) : (
+              <>
+                <code className="flex-1 px-2 py-1 text-xs break-all bg-yellow-50 border border-yellow-200 rounded">{generatedKey}</code>
+                <button
+                  onClick={() => navigator.clipboard.writeText(generatedKey)}
+                  className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+                >
+                  Copy
+                </button>
+                <button
+                  onClick={() => setGeneratedKey(generateKey())}
+                  className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+                >
+                  New key
+                </button>
+              </>
+            )}
+          </>
+        )}
+        {encrypt && (
+          <div className="w-full text-gray-600">
+            {encryptError
+              ? <span className="text-red-600">{encryptError}</span>
+              : 'Keep the key or passphrase safe: the server cannot recover encrypted files without it. File names are not encrypted.'}
+          </div>
+        )}
+      </div>
+      {items.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-2 text-sm text-gray-700">
+            <span className="mr-auto">
+              {counts.done} of {items.length - counts.cancelled} files · {formatBytes(uploadedBytes)} of {formatBytes(totalBytes)}
+              {counts.uploading > 0 && ` · ${counts.uploading} uploading`}
+              {counts.queued > 0 && ` · ${counts.queued} queued`}
+              {counts.paused > 0 && ` · ${counts.paused} paused`}
+              {counts.failed > 0 && ` · ${counts.failed} failed`}
+            </span>
+            {counts.failed > 0 && (
+              <button
+                onClick={retryFailed}
+                className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+              >
+                Retry failed
+              </button>
+            )}
+            <button
+              onClick={clearFinished}
+              className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+            >
+              Clear finished
+            </button>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2.5 mb-4">
+            <div
+              className="bg-blue-600 h-2.5 rounded-full"
+              style={{ width: `${overallPercentage}%` }}
+            ></div>
+          </div>
+        </>
       )}
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {items.map((item) => (
+          <div key={item.id} className="p-2 bg-gray-50 rounded text-sm">
+            <div className="flex justify-between items-center gap-2">
+              <span className="font-medium truncate">{item.path}</span>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className="text-gray-600">{formatBytes(item.file.size)}</span>
+                {item.status === 'uploading' && (
+                  <button
+                    onClick={() => pause(item)}
+                    className="px-2 py-0.5 text-xs text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+                  >
+                    Pause
+                  </button>
+                )}
+                {item.status === 'paused' && (
+                  <button
+                    onClick={() => requeue(item)}
+                    className="px-2 py-0.5 text-xs text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors"
+                  >
+                    Resume
+                  </button>
+                )}
+                {item.status === 'failed' && (
+                  <button
+                    onClick={() => requeue(item)}
+                    className="px-2 py-0.5 text-xs text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors"
+                  >
+                    Retry
+                  </button>
+                )}
+                {item.status !== 'done' && item.status !== 'cancelled' && (
+                  <button
+                    onClick={() => cancel(item)}
+                    className="px-2 py-0.5 text-xs text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </div>
+            {item.progress && item.status !== 'done' && (
+              <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+                <div
+                  className="bg-blue-600 h-1.5 rounded-full"
+                  style={{ width: `${item.progress.percentage}%` }}
+                ></div>
+              </div>
+            )}
+            <div className={`mt-1 ${item.status === 'failed' ? 'text-red-600' : 'text-gray-600'}`}>
+              {item.message}
+              {item.status === 'uploading' && item.progress && (
+                <>
+                  {` · ${formatBytes(item.progress.loaded)} of ${formatBytes(item.progress.total)} (${item.progress.percentage}%)`}
+                  {item.progress.bytesPerSecond ? ` · ${formatBytes(item.progress.bytesPerSecond)}/s` : ''}
+                  {item.progress.etaSeconds !== undefined ? ` · ${formatDuration(item.progress.etaSeconds)} left` : ''}
+                  {item.progress.partsInFlight ? ` · ${item.progress.partsInFlight} parts in flight` : ''}
+                  {item.progress.retries ? ` · ${item.progress.retries} retries` : ''}
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
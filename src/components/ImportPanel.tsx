@@ -0,0 +1,219 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { apiFetch } from '../lib/api';
+import { formatBytes } from '../lib/format';
+import type { ConflictPolicy } from '../lib/uploadFile';
+
+interface ImportJob {
+  id: string;
+  name: string;
+  url: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  bytesTransferred: number;
+  totalBytes: number | null;
+  error: string | null;
+  createdAt: string;
+}
+
+interface ImportPanelProps {
+  // Called whenever an import finishes, so the file list can refresh
+  onImportComplete?: () => void;
+}
+
+const POLL_INTERVAL = 2000;
+
+function isActive(job: ImportJob): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+// "Name: value" lines, as they'd appear in a request
+function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  }
+  return headers;
+}
+
+export function ImportPanel({ onImportComplete }: ImportPanelProps) {
+  const [jobs, setJobs] = useState<ImportJob[]>([]);
+  const [sourceUrl, setSourceUrl] = useState('');
+  const [name, setName] = useState('');
+  const [headers, setHeaders] = useState('');
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>('rename');
+  const [submitting, setSubmitting] = useState(false);
+  const [message, setMessage] = useState<string>('');
+  // Imports seen in progress, to notice when they finish
+  const inProgress = useRef<Set<string>>(new Set());
+
+  const fetchJobs = async () => {
+    try {
+      const response = await apiFetch('/api/imports');
+      if (!response.ok) {
+        throw new Error(response.statusText);
+      }
+      const data: ImportJob[] = await response.json();
+      setJobs(data);
+
+      let finished = false;
+      for (const job of data) {
+        if (isActive(job)) {
+          inProgress.current.add(job.id);
+        } else if (inProgress.current.delete(job.id) && job.status === 'completed') {
+          finished = true;
+        }
+      }
+      if (finished) {
+        onImportComplete?.();
+      }
+    } catch (error) {
+      console.error('Failed to fetch imports:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchJobs();
+  }, []);
+
+  // Poll while anything is still in progress
+  const active = jobs.some(isActive);
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(fetchJobs, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [active]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSubmitting(true);
+    setMessage('');
+    try {
+      const response = await apiFetch('/api/imports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          url: sourceUrl.trim(),
+          key: name.trim() || undefined,
+          headers: parseHeaders(headers),
+          onConflict: conflictPolicy
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || response.statusText);
+      }
+      setSourceUrl('');
+      setName('');
+      setHeaders('');
+      inProgress.current.add(data.id);
+      setJobs((prev) => [data, ...prev]);
+    } catch (error) {
+      setMessage('Failed to start import: ' + (error as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRemove = async (job: ImportJob) => {
+    try {
+      const response = await apiFetch(`/api/imports/${job.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(response.statusText);
+      }
+      await fetchJobs();
+    } catch (error) {
+      setMessage(`Failed to ${isActive(job) ? 'cancel' : 'remove'} import: ` + (error as Error).message);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+      <h2 className="text-xl font-semibold mb-4">Import from URL</h2>
+      <form onSubmit={handleSubmit} className="space-y-2">
+        <input
+          type="url"
+          value={sourceUrl}
+          onChange={(e) => setSourceUrl(e.target.value)}
+          placeholder="https://example.com/path/to/file.iso"
+          required
+          className="w-full px-2 py-1 text-sm border rounded"
+        />
+        <div className="flex gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Save as (defaults to the name in the URL)"
+            className="flex-1 px-2 py-1 text-sm border rounded"
+          />
+          <select
+            value={conflictPolicy}
+            onChange={(e) => setConflictPolicy(e.target.value as ConflictPolicy)}
+            className="px-2 py-1 text-sm border rounded"
+          >
+            <option value="rename">Keep both if it exists</option>
+            <option value="overwrite">Replace if it exists</option>
+            <option value="fail">Fail if it exists</option>
+          </select>
+        </div>
+        <textarea
+          value={headers}
+          onChange={(e) => setHeaders(e.target.value)}
+          placeholder="Optional request headers, one per line, e.g. Authorization: Bearer ..."
+          rows={2}
+          className="w-full px-2 py-1 text-sm border rounded font-mono"
+        />
+        <button
+          type="submit"
+          disabled={submitting}
+          className="px-4 py-2 text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {submitting ? 'Starting...' : 'Import'}
+        </button>
+      </form>
+      {message && (
+        <div className="mt-2 text-sm font-medium text-gray-700">{message}</div>
+      )}
+      {jobs.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {jobs.map((job) => {
+            const percentage = job.totalBytes ? Math.round((job.bytesTransferred / job.totalBytes) * 100) : null;
+
+            return (
+              <div key={job.id} className="p-3 bg-gray-50 rounded text-sm">
+                <div className="flex justify-between items-center gap-2">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{job.name}</div>
+                    <div className="text-gray-600 truncate" title={job.url}>{job.url}</div>
+                  </div>
+                  <button
+                    onClick={() => handleRemove(job)}
+                    className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+                  >
+                    {isActive(job) ? 'Cancel' : 'Remove'}
+                  </button>
+                </div>
+                {job.status === 'running' && (
+                  <div className="mt-2 w-full bg-gray-200 rounded-full h-2.5">
+                    <div
+                      className="bg-blue-600 h-2.5 rounded-full"
+                      style={{ width: `${percentage ?? 0}%` }}
+                    ></div>
+                  </div>
+                )}
+                <div className={`mt-1 ${job.status === 'failed' ? 'text-red-600' : 'text-gray-600'}`}>
+                  {job.status === 'queued' && 'Waiting to start'}
+                  {job.status === 'running' && `${formatBytes(job.bytesTransferred)}${job.totalBytes !== null ? ` of ${formatBytes(job.totalBytes)} (${percentage}%)` : ' so far'}`}
+                  {job.status === 'completed' && `Imported ${formatBytes(job.bytesTransferred)}`}
+                  {job.status === 'failed' && `Failed: ${job.error}`}
+                  {job.status === 'cancelled' && 'Cancelled'}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
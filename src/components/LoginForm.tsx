@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { apiFetch } from '../lib/api';
+
+export interface CurrentUser {
+  id: string;
+  method: string;
+  admin?: boolean;
+}
+
+interface LoginFormProps {
+  onLogin: (user: CurrentUser) => void;
+}
+
+export function LoginForm({ onLogin }: LoginFormProps) {
+  const [token, setToken] = useState('');
+  const [message, setMessage] = useState<string>('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const response = await apiFetch('/api/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || response.statusText);
+      }
+      setToken('');
+      onLogin({ id: data.id, method: 'session', admin: data.admin });
+    } catch (error) {
+      setMessage('Login failed: ' + (error as Error).message);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-md mb-8">
+      <h2 className="text-xl font-semibold mb-4">Sign in</h2>
+      <input
+        type="password"
+        value={token}
+        onChange={(e) => setToken(e.target.value)}
+        placeholder="API token"
+        className="w-full px-3 py-2 mb-4 border rounded"
+      />
+      <button
+        type="submit"
+        disabled={!token}
+        className="px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+      >
+        Sign in
+      </button>
+      {message && (
+        <div className="text-sm font-medium text-gray-700 mt-4">{message}</div>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { apiFetch } from '../lib/api';
+
+export interface FileMetadata {
+  httpMetadata?: { contentType?: string };
+  customMetadata?: Record<string, string>;
+}
+
+interface MetadataEditorProps {
+  fileKey: string;
+  metadata: FileMetadata;
+  onSaved: (metadata: FileMetadata) => void;
+  onClose: () => void;
+}
+
+export function MetadataEditor({ fileKey, metadata, onSaved, onClose }: MetadataEditorProps) {
+  const [contentType, setContentType] = useState(metadata.httpMetadata?.contentType ?? '');
+  const [description, setDescription] = useState(metadata.customMetadata?.description ?? '');
+  const [tags, setTags] = useState(metadata.customMetadata?.tags?.split(',').join(', ') ?? '');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string>('');
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    try {
+      // Large files are rewritten in R2 to change metadata, which takes a while
+      const response = await apiFetch(`/api/metadata/${encodeURIComponent(fileKey)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contentType: contentType.trim() || undefined,
+          description: description.trim(),
+          tags: tags.split(',').map((tag) => tag.trim()).filter(Boolean)
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || response.statusText);
+      }
+      onSaved(data);
+      onClose();
+    } catch (error) {
+      setMessage('Failed to save: ' + (error as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="mt-3 p-3 bg-white border rounded space-y-2">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold">Details of {fileKey}</h3>
+        <button type="button" onClick={onClose} className="text-sm text-gray-600 hover:text-gray-900">Close</button>
+      </div>
+      <input
+        value={contentType}
+        onChange={(e) => setContentType(e.target.value)}
+        placeholder="Content type, e.g. application/pdf"
+        className="w-full px-2 py-1 text-sm border rounded"
+      />
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="Description"
+        maxLength={1024}
+        rows={2}
+        className="w-full px-2 py-1 text-sm border rounded"
+      />
+      <input
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+        placeholder="Tags, comma separated"
+        className="w-full px-2 py-1 text-sm border rounded"
+      />
+      {message && (
+        <div className="text-sm font-medium text-gray-700">{message}</div>
+      )}
+      <button
+        type="submit"
+        disabled={saving}
+        className="px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : 'Save'}
+      </button>
+    </form>
+  );
+}
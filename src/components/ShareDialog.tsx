@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { apiFetch } from '../lib/api';
+import { EncryptionParams, keySourceFor, shareableKey } from '../lib/encryption';
+
+interface ShareLink {
+  id: string;
+  url: string;
+  createdAt: string;
+  expiresAt: number;
+  maxDownloads: number | null;
+  downloads: number;
+  hasPassword: boolean;
+}
+
+interface ShareDialogProps {
+  fileKey: string;
+  // Set for files encrypted in the browser
+  encryption?: EncryptionParams | null;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '1 day', seconds: 24 * 60 * 60 },
+  { label: '7 days', seconds: 7 * 24 * 60 * 60 },
+  { label: '30 days', seconds: 30 * 24 * 60 * 60 }
+];
+
+export function ShareDialog({ fileKey, encryption, onClose }: ShareDialogProps) {
+  const [shares, setShares] = useState<ShareLink[]>([]);
+  const [expiresIn, setExpiresIn] = useState(EXPIRY_OPTIONS[1].seconds);
+  const [maxDownloads, setMaxDownloads] = useState('');
+  const [password, setPassword] = useState('');
+  const [secret, setSecret] = useState('');
+  // The file's key, put into the fragment of links so the recipient's browser
+  // can decrypt without the server ever seeing it
+  const [linkKey, setLinkKey] = useState<string | null>(null);
+  const [message, setMessage] = useState<string>('');
+
+  useEffect(() => {
+    fetchShares();
+  }, [fileKey]);
+
+  const fetchShares = async () => {
+    try {
+      const response = await apiFetch(`/api/shares?key=${encodeURIComponent(fileKey)}`);
+      if (response.ok) {
+        setShares(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch share links:', error);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      // A passphrase is turned into the key it derives, so the link doesn't reveal it
+      let key = linkKey;
+      if (encryption && secret.trim()) {
+        key = await shareableKey(encryption, keySourceFor(encryption, secret.trim()));
+        setLinkKey(key);
+      }
+
+      const response = await apiFetch('/api/shares', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          key: fileKey,
+          expiresIn,
+          maxDownloads: maxDownloads ? parseInt(maxDownloads, 10) : null,
+          password: password || undefined
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || response.statusText);
+      }
+
+      await navigator.clipboard?.writeText(withKey(data.url, key)).catch(() => undefined);
+      setMessage(encryption && !key
+        ? 'Link created and copied; the recipient will also need the key or passphrase'
+        : 'Link created and copied to the clipboard');
+      setPassword('');
+      await fetchShares();
+    } catch (error) {
+      setMessage('Failed to create link: ' + (error as Error).message);
+    }
+  };
+
+  const withKey = (url: string, key: string | null) => key ? `${url}#key=${key}` : url;
+
+  const handleRevoke = async (id: string) => {
+    try {
+      const response = await apiFetch(`/api/shares/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(response.statusText);
+      }
+      await fetchShares();
+    } catch (error) {
+      setMessage('Failed to revoke link: ' + (error as Error).message);
+    }
+  };
+
+  return (
+    <div className="mt-3 p-3 bg-white border rounded">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-semibold">Share {fileKey}</h3>
+        <button onClick={onClose} className="text-sm text-gray-600 hover:text-gray-900">Close</button>
+      </div>
+      <form onSubmit={handleCreate} className="flex flex-wrap items-center gap-2 mb-3">
+        <select
+          value={expiresIn}
+          onChange={(e) => setExpiresIn(parseInt(e.target.value, 10))}
+          className="px-2 py-1 text-sm border rounded"
+        >
+          {EXPIRY_OPTIONS.map((option) => (
+            <option key={option.seconds} value={option.seconds}>Expires in {option.label}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min="1"
+          value={maxDownloads}
+          onChange={(e) => setMaxDownloads(e.target.value)}
+          placeholder="Max downloads"
+          className="w-36 px-2 py-1 text-sm border rounded"
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password (optional)"
+          className="w-44 px-2 py-1 text-sm border rounded"
+        />
+        {encryption && (
+          <input
+            type="password"
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            placeholder={encryption.kdf === 'none' ? 'Key to include in the link' : 'Passphrase, to include the key in the link'}
+            className="w-64 px-2 py-1 text-sm border rounded"
+          />
+        )}
+        <button
+          type="submit"
+          className="px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors"
+        >
+          Create link
+        </button>
+      </form>
+      {message && (
+        <div className="text-sm font-medium text-gray-700 mb-3">{message}</div>
+      )}
+      <div className="space-y-1">
+        {shares.map((share) => {
+          const expired = share.expiresAt < Date.now();
+          return (
+            <div key={share.id} className="flex justify-between items-center text-sm">
+              <div className="truncate mr-4">
+                <input
+                  readOnly
+                  value={withKey(share.url, linkKey)}
+                  onFocus={(e) => e.target.select()}
+                  className="w-72 px-2 py-0.5 mr-2 text-xs border rounded bg-gray-50"
+                />
+                <span className={expired ? 'text-red-600' : 'text-gray-600'}>
+                  {expired ? 'Expired' : `Expires ${new Date(share.expiresAt).toLocaleString()}`}
+                  {' · '}
+                  {share.downloads}{share.maxDownloads !== null && `/${share.maxDownloads}`} downloads
+                  {share.hasPassword && ' · password'}
+                </span>
+              </div>
+              <button
+                onClick={() => handleRevoke(share.id)}
+                className="px-2 py-0.5 text-xs text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+              >
+                Revoke
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { DownloadSink, openSaveSink, streamDownload } from '../lib/download';
+import { DecryptingSink, EncryptionParams, KeySource, keySourceFor, unlockKey } from '../lib/encryption';
+import { formatBytes } from '../lib/format';
+
+interface SharedFileProps {
+  // Path and query of the share link, as the worker redirected it here
+  link: string;
+}
+
+interface SharedFileInfo {
+  filename: string;
+  params: EncryptionParams;
+}
+
+// The key a share link carries in its fragment (`#key=...`); never sent to the server
+function keyFromFragment(): string | null {
+  return new URLSearchParams(window.location.hash.slice(1)).get('key');
+}
+
+function filenameFromResponse(response: Response): string {
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  const match = disposition.match(/filename\*=UTF-8''([^;]+)/);
+  return match ? decodeURIComponent(match[1]) : 'download';
+}
+
+// Download page for share links to encrypted files: fetches the ciphertext
+// and decrypts it in the browser with the key from the link or the user
+export function SharedFile({ link }: SharedFileProps) {
+  const [fragmentKey] = useState(keyFromFragment);
+  const [info, setInfo] = useState<SharedFileInfo | null>(null);
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [password, setPassword] = useState('');
+  const [secret, setSecret] = useState('');
+  const [progress, setProgress] = useState<{ loaded: number; total: number | null } | null>(null);
+  const [message, setMessage] = useState('');
+
+  const rawUrl = () => {
+    const url = new URL(link, window.location.origin);
+    url.searchParams.set('raw', '1');
+    return url.toString();
+  };
+
+  const passwordHeaders = (): Record<string, string> => password ? { 'X-Share-Password': password } : {};
+
+  const fetchInfo = async () => {
+    setMessage('');
+    try {
+      const response = await fetch(rawUrl(), { method: 'HEAD', headers: passwordHeaders() });
+      if (response.status === 401) {
+        setNeedsPassword(true);
+        if (password) setMessage('Incorrect password');
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(response.status === 410 ? 'Download limit reached for this share link' : 'Share link not found, expired or revoked');
+      }
+      const encryption = response.headers.get('X-Encryption');
+      if (!encryption) {
+        throw new Error('This file is not encrypted; open the link directly to download it');
+      }
+      setNeedsPassword(false);
+      setInfo({ filename: filenameFromResponse(response), params: JSON.parse(encryption) });
+    } catch (error) {
+      setMessage((error as Error).message);
+    }
+  };
+
+  useEffect(() => {
+    fetchInfo();
+  }, [link]);
+
+  const handlePassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchInfo();
+  };
+
+  const handleDownload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!info) return;
+
+    const source: KeySource = fragmentKey ? { rawKey: fragmentKey } : keySourceFor(info.params, secret.trim());
+
+    let sink: DownloadSink;
+    try {
+      // Ask where to save while the click still counts as a user gesture
+      sink = await openSaveSink(info.filename, info.params.size);
+    } catch (error) {
+      if ((error as DOMException).name !== 'AbortError') {
+        setMessage('Failed to open file for writing: ' + (error as Error).message);
+      }
+      return;
+    }
+
+    setMessage('');
+    setProgress({ loaded: 0, total: null });
+    try {
+      const key = await unlockKey(info.params, source);
+      await streamDownload(rawUrl(), new DecryptingSink(key, info.params, sink), {
+        headers: passwordHeaders(),
+        onProgress: (loaded, total) => setProgress({ loaded, total })
+      });
+      setMessage('Download complete');
+    } catch (error) {
+      await sink.abort().catch(() => undefined);
+      setMessage('Download failed: ' + (error as Error).message);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const percentage = progress?.total ? Math.round((progress.loaded / progress.total) * 100) : 0;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <h2 className="text-xl font-semibold mb-4">{info?.filename ?? 'Shared file'}</h2>
+      {needsPassword && (
+        <form onSubmit={handlePassword} className="flex gap-2 mb-4">
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoFocus
+            required
+            className="flex-1 px-2 py-1 text-sm border rounded"
+          />
+          <button
+            type="submit"
+            className="px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors"
+          >
+            Continue
+          </button>
+        </form>
+      )}
+      {info && (
+        <form onSubmit={handleDownload} className="space-y-2 mb-4">
+          <p className="text-sm text-gray-600">
+            {formatBytes(info.params.size)} · encrypted, and decrypted in your browser as it downloads
+          </p>
+          {!fragmentKey && (
+            <input
+              type="password"
+              value={secret}
+              onChange={(e) => setSecret(e.target.value)}
+              placeholder={info.params.kdf === 'none' ? 'Key' : 'Passphrase'}
+              required
+              className="w-full px-2 py-1 text-sm border rounded"
+            />
+          )}
+          <button
+            type="submit"
+            disabled={progress !== null}
+            className="px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Download
+          </button>
+        </form>
+      )}
+      {progress && (
+        <div className="mb-4">
+          <div className="w-full bg-gray-200 rounded-full h-2.5">
+            <div className="bg-blue-600 h-2.5 rounded-full" style={{ width: `${percentage}%` }}></div>
+          </div>
+          <div className="text-sm text-gray-600 mt-1">
+            {formatBytes(progress.loaded)}
+            {progress.total !== null && ` of ${formatBytes(progress.total)} (${percentage}%)`}
+          </div>
+        </div>
+      )}
+      {message && (
+        <div className="text-sm font-medium text-gray-700">{message}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from 'react';
+import { apiFetch } from '../lib/api';
+import { ConfirmDialog } from './ConfirmDialog';
+
+type WebhookEvent = 'upload.completed' | 'file.downloaded' | 'file.deleted';
+
+interface Webhook {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  createdAt: string;
+}
+
+interface DeliveryAttempt {
+  deliveryId: string;
+  event: WebhookEvent;
+  attempt: number;
+  timestamp: string;
+  status: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+const EVENTS: { value: WebhookEvent; label: string }[] = [
+  { value: 'upload.completed', label: 'Upload completed' },
+  { value: 'file.downloaded', label: 'Downloaded' },
+  { value: 'file.deleted', label: 'Deleted' }
+];
+
+function DeliveryLog({ webhookId }: { webhookId: string }) {
+  const [attempts, setAttempts] = useState<DeliveryAttempt[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAttempts = async () => {
+    try {
+      const response = await apiFetch(`/api/webhooks/${webhookId}/deliveries`);
+      if (!response.ok) {
+        throw new Error(response.statusText);
+      }
+      setAttempts(await response.json());
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  useEffect(() => {
+    fetchAttempts();
+  }, [webhookId]);
+
+  if (error) {
+    return <div className="mt-2 text-sm text-red-600">Failed to load deliveries: {error}</div>;
+  }
+  if (attempts === null) {
+    return <div className="mt-2 text-sm text-gray-600">Loading...</div>;
+  }
+  if (attempts.length === 0) {
+    return <div className="mt-2 text-sm text-gray-600">No deliveries yet.</div>;
+  }
+
+  return (
+    <div className="mt-2">
+      <table className="w-full text-xs">
+        <thead className="text-left text-gray-600">
+          <tr>
+            <th className="py-1">Time</th>
+            <th>Event</th>
+            <th>Attempt</th>
+            <th>Result</th>
+            <th>Duration</th>
+          </tr>
+        </thead>
+        <tbody>
+          {attempts.map((attempt) => (
+            <tr key={`${attempt.deliveryId}-${attempt.attempt}`} className="border-t" title={attempt.deliveryId}>
+              <td className="py-1">{new Date(attempt.timestamp).toLocaleString()}</td>
+              <td>{attempt.event}</td>
+              <td>{attempt.attempt}</td>
+              <td className={attempt.error ? 'text-red-600' : 'text-green-700'}>
+                {attempt.error ?? `${attempt.status} OK`}
+              </td>
+              <td>{attempt.durationMs} ms</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button onClick={fetchAttempts} className="mt-1 text-xs text-blue-600 hover:underline">Refresh</button>
+    </div>
+  );
+}
+
+export function WebhookSettings() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(EVENTS.map((event) => event.value));
+  const [secret, setSecret] = useState('');
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [openLog, setOpenLog] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<Webhook | null>(null);
+  const [message, setMessage] = useState<string>('');
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, []);
+
+  const fetchWebhooks = async () => {
+    try {
+      const response = await apiFetch('/api/webhooks');
+      if (response.ok) {
+        setWebhooks(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch webhooks:', error);
+    }
+  };
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents((prev) => prev.includes(event) ? prev.filter((value) => value !== event) : [...prev, event]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setMessage('');
+    try {
+      const response = await apiFetch('/api/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: url.trim(), events, secret: secret || undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || response.statusText);
+      }
+      setCreatedSecret(data.secret);
+      setUrl('');
+      setSecret('');
+      await fetchWebhooks();
+    } catch (error) {
+      setMessage('Failed to add webhook: ' + (error as Error).message);
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    setPendingDelete(null);
+    try {
+      const response = await apiFetch(`/api/webhooks/${webhook.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(response.statusText);
+      }
+      await fetchWebhooks();
+    } catch (error) {
+      setMessage('Failed to delete webhook: ' + (error as Error).message);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 mt-8 rounded-lg shadow-md">
+      <h2 className="text-xl font-semibold mb-4">Webhooks</h2>
+      <form onSubmit={handleCreate} className="space-y-2 mb-4">
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://example.com/hooks/files"
+          required
+          className="w-full px-2 py-1 text-sm border rounded"
+        />
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          {EVENTS.map((event) => (
+            <label key={event.value} className="flex items-center gap-1">
+              <input type="checkbox" checked={events.includes(event.value)} onChange={() => toggleEvent(event.value)} />
+              {event.label}
+            </label>
+          ))}
+        </div>
+        <input
+          value={secret}
+          onChange={(e) => setSecret(e.target.value)}
+          placeholder="Signing secret (generated if left empty)"
+          minLength={16}
+          className="w-full px-2 py-1 text-sm border rounded"
+        />
+        <button
+          type="submit"
+          disabled={events.length === 0}
+          className="px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Add webhook
+        </button>
+      </form>
+      {createdSecret && (
+        <div className="p-2 mb-4 text-sm bg-yellow-50 border border-yellow-200 rounded">
+          Signing secret (shown only once): <code className="break-all">{createdSecret}</code>
+          <button onClick={() => setCreatedSecret(null)} className="ml-2 text-gray-600 hover:text-gray-900">Dismiss</button>
+        </div>
+      )}
+      {message && (
+        <div className="text-sm font-medium text-gray-700 mb-4">{message}</div>
+      )}
+      <div className="space-y-2">
+        {webhooks.map((webhook) => (
+          <div key={webhook.id} className="p-3 bg-gray-50 rounded text-sm">
+            <div className="flex justify-between items-center gap-2">
+              <div className="min-w-0">
+                <div className="font-medium truncate">{webhook.url}</div>
+                <div className="text-gray-600">{webhook.events.join(', ')}</div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setOpenLog(openLog === webhook.id ? null : webhook.id)}
+                  className="px-3 py-1 text-sm text-gray-700 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+                >
+                  Deliveries
+                </button>
+                <button
+                  onClick={() => setPendingDelete(webhook)}
+                  className="px-3 py-1 text-sm text-white bg-red-600 rounded hover:bg-red-700 transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+            {openLog === webhook.id && <DeliveryLog webhookId={webhook.id} />}
+          </div>
+        ))}
+        {webhooks.length === 0 && (
+          <div className="text-sm text-gray-600">No webhooks yet.</div>
+        )}
+      </div>
+      {pendingDelete && (
+        <ConfirmDialog
+          title="Delete webhook"
+          message={`Stop sending events to ${pendingDelete.url}? Its delivery log is deleted too.`}
+          confirmLabel="Delete"
+          danger
+          onConfirm={() => handleDelete(pendingDelete)}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,287 +1,2591 @@
-import type { R2Bucket } from '@cloudflare/workers-types';
+import type {
+  ExecutionContext,
+  MessageBatch,
+  ReadableStream as WorkersReadableStream,
+  R2UploadedPart,
+  ScheduledController
+} from '@cloudflare/workers-types/latest';
+import {
+  actorOf,
+  authenticate,
+  clearSessionCookie,
+  createSessionCookie,
+  fromUserKey,
+  isAdmin,
+  ownerName,
+  toUserKey,
+  User,
+  userForApiToken,
+  userPrefix
+} from './worker/auth';
+import {
+  AuditAction,
+  cleanupAuditLog,
+  describeRange,
+  exportAudit,
+  isAuditAction,
+  MAX_AUDIT_LIMIT,
+  queryAudit,
+  recordAudit,
+  recordDownload
+} from './worker/audit';
+import { abortUpload, cleanupStaleUploads, isStale, staleUploadTtl } from './worker/cleanup';
+import { serveObject } from './worker/download';
+import { copyObject, deleteObjects, deletePrefix, moveObject } from './worker/files';
+import {
+  ConflictError,
+  keyFromPath,
+  KEY_RULES,
+  noOverwrite,
+  normalizeKey,
+  normalizePrefix,
+  parseConflictPolicy,
+  resolveConflict
+} from './worker/keys';
+import type { Env } from './worker/env';
+import { getSidecar, withSidecar, writeSidecar } from './worker/sidecars';
+import {
+  checkFileRequestCapacity,
+  createFileRequest,
+  deleteFileRequest,
+  fileRequestInfo,
+  getFileRequest,
+  listFileRequests,
+  listReceivedFiles,
+  MAX_FILE_REQUEST_TTL,
+  MAX_NOTE_LENGTH,
+  markFileRequestViewed,
+  recordReceivedFile,
+  reserveFileRequest,
+  summarizeFileRequest,
+  tryReleaseFileRequest,
+  verifyFileRequestToken
+} from './worker/fileRequests';
+import {
+  cancelImport,
+  createImport,
+  deleteImport,
+  getImport,
+  ImportMessage,
+  isActive,
+  isAllowedSource,
+  listImports,
+  nameFromUrl,
+  parseSourceHeaders,
+  parseSourceUrl,
+  recoverStalledImports,
+  runImport,
+  startImport,
+  summarizeImport
+} from './worker/imports';
+import {
+  listUploadedParts,
+  presignedUrlTtl,
+  presignGetObject,
+  presignPutObject,
+  presignUploadPart,
+  usePresignedUploads
+} from './worker/presign';
+import {
+  checkFile,
+  checkRateLimit,
+  checkUpload,
+  LimitViolation,
+  limitsFor,
+  recountUsage,
+  reserveStorage,
+  tryReleaseStorage,
+  usageSummary
+} from './worker/limits';
+import { listFiles, MAX_LIST_LIMIT, SortField, SortOrder, TooLargeToSortError } from './worker/listing';
+import {
+  applyUserMetadata,
+  ENCRYPTION_RULES,
+  isContentType,
+  METADATA_RULES,
+  parseEncryptionParams,
+  parseUserMetadata,
+  resolveContentType,
+  UserMetadata
+} from './worker/metadata';
+import {
+  choosePartSize,
+  isValidPartSize,
+  MAX_OBJECT_SIZE,
+  MAX_PART_SIZE,
+  MAX_PARTS,
+  MAX_PROXY_PART_SIZE,
+  MIN_PART_SIZE,
+  partByteRange
+} from './worker/partSizing';
+import { fixedLengthBody, fixedLengthStream, isSha256Hex } from './worker/streams';
+import {
+  checkSharePassword,
+  claimShareDownload,
+  createShare,
+  getShare,
+  listShares,
+  MAX_SHARE_TTL,
+  revokeShare,
+  summarizeShare,
+  verifyShareLink
+} from './worker/shares';
+import { deleteSession, getSession, listCompletedParts, listSessions, recordPart, saveSession, UploadSession } from './worker/sessions';
+import { getThumbnail } from './worker/thumbnails';
+import {
+  appendToTusUpload,
+  cleanupExpiredTusUploads,
+  createTusUpload,
+  deleteTusUpload,
+  getTusUpload,
+  isExpired,
+  OffsetConflictError,
+  parseUploadMetadata,
+  TUS_EXTENSIONS,
+  TUS_VERSION
+} from './worker/tus';
+import {
+  createWebhook,
+  deleteWebhook,
+  deliver,
+  emitEvent,
+  getWebhook,
+  isWebhookMessage,
+  listDeliveries,
+  listWebhooks,
+  MAX_DELIVERY_ATTEMPTS,
+  isAllowedWebhookUrl,
+  parseWebhookEvents,
+  parseWebhookUrl,
+  retryDelay,
+  summarizeWebhook,
+  WebhookMessage
+} from './worker/webhooks';
+import { collectEntries, MAX_ZIP_ENTRIES, planArchive, zipStream } from './worker/zip';
 
-interface Env {
-  BUCKET: R2Bucket;
-  R2_ACCESS_KEY_ID: string;
-  R2_SECRET_ACCESS_KEY: string;
-  R2_ACCOUNT_ID: string;
+// Durable Object classes are exported from the Worker's main module
+export { Counters } from './worker/counters';
+
+// Endpoints a file request link may use; everything else is refused
+const FILE_REQUEST_ROUTES = ['/api/initiate-upload', '/api/resume-upload', '/api/abort-multipart', '/api/complete-multipart'];
+const FILE_REQUEST_ROUTE_PREFIXES = ['/api/upload/', '/api/upload-part/'];
+
+// Uploads through file request links always pass the Worker, which is
+// where they are counted against the link and recorded
+function usesPresignedUrls(env: Env, user: User): boolean {
+  return usePresignedUploads(env) && !user.fileRequest;
 }
 
-async function getUploadUrl(request: Request, _env: Env, key: string, uploadId: string, partNumber: number): Promise<string> {
+async function getUploadUrl(request: Request, env: Env, user: User, key: string, uploadId: string, partNumber: number, length: number): Promise<string> {
+  if (usesPresignedUrls(env, user)) {
+    return presignUploadPart(env, toUserKey(user, key), uploadId, partNumber, length);
+  }
+
   // Return a URL to our worker instead of directly to R2
   const url = new URL(request.url);
-  return `${url.origin}/api/upload-part/${key}?partNumber=${partNumber}&uploadId=${uploadId}`;
+  return `${url.origin}/api/upload-part/${encodeURIComponent(key)}?partNumber=${partNumber}&uploadId=${uploadId}`;
+}
+
+function invalidNameResponse(corsHeaders: Record<string, string>): Response {
+  return new Response(JSON.stringify({
+    error: 'Invalid file name',
+    details: KEY_RULES
+  }), {
+    status: 400,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+function invalidMetadataResponse(corsHeaders: Record<string, string>): Response {
+  return new Response(JSON.stringify({
+    error: 'Invalid metadata',
+    details: METADATA_RULES
+  }), {
+    status: 400,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+function invalidEncryptionResponse(corsHeaders: Record<string, string>): Response {
+  return new Response(JSON.stringify({
+    error: 'Invalid encryption parameters',
+    details: ENCRYPTION_RULES
+  }), {
+    status: 400,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+// 413 for sizes and quotas, 415 for file types, 429 with Retry-After for the request rate
+function limitResponse(corsHeaders: Record<string, string>, violation: LimitViolation): Response {
+  const { status, retryAfter, ...body } = violation;
+  return new Response(JSON.stringify({ ...body, ...(retryAfter !== undefined && { retryAfter }) }), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      ...(retryAfter !== undefined && { 'Retry-After': String(retryAfter) })
+    }
+  });
+}
+
+function conflictResponse(corsHeaders: Record<string, string>, name: string): Response {
+  return new Response(JSON.stringify({
+    error: 'File exists',
+    details: `${name} already exists`
+  }), {
+    status: 409,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+// Downloads are counted (and announced to webhooks) once, not for every
+// resumed range or HEAD probe
+function startsDownload(request: Request): boolean {
+  const range = request.headers.get('Range');
+  return request.method !== 'HEAD' && (!range || /^bytes=0-/.test(range));
+}
+
+// When presigned URLs are handed out, clients need to know when to refresh them
+function presignedUrlExpiry(env: Env, user: User): number | null {
+  return usesPresignedUrls(env, user) ? Date.now() + presignedUrlTtl(env) * 1000 : null;
+}
+
+// Whether `user` started the upload `session` for `key`. Upload ids aren't
+// secret enough to act on alone, and a file request link only reaches the
+// uploads made through it.
+function ownsSession(user: User, session: UploadSession | null, key: string): session is UploadSession {
+  return session !== null
+    && session.owner === user.id
+    && session.key === key
+    && (!user.fileRequest || session.fileRequest === user.fileRequest.id);
+}
+
+function uploadNotFoundResponse(corsHeaders: Record<string, string>): Response {
+  return new Response(JSON.stringify({
+    error: 'Upload session not found',
+    details: 'The upload may have been completed, aborted or expired'
+  }), {
+    status: 404,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+function fileRequestFullResponse(corsHeaders: Record<string, string>, details: string): Response {
+  return new Response(JSON.stringify({
+    error: 'File request full',
+    details
+  }), {
+    status: 413,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
 }
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const corsHeaders = {
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET,HEAD,POST,PUT,OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Range',
-      'Access-Control-Expose-Headers': 'Content-Length, Content-Range, Content-Disposition'
+      'Access-Control-Allow-Methods': 'GET,HEAD,POST,PUT,PATCH,DELETE,OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, Range, If-Range, If-Match, If-None-Match, If-Modified-Since, If-Unmodified-Since, X-Content-SHA256, X-File-Request, X-Share-Password, '
+        + 'Tus-Resumable, Upload-Length, Upload-Offset, Upload-Metadata, X-HTTP-Method-Override',
+      'Access-Control-Expose-Headers': 'Content-Length, Content-Range, Content-Disposition, Accept-Ranges, ETag, Last-Modified, Digest, Repr-Digest, X-Encryption, Retry-After, '
+        + 'Location, Tus-Resumable, Tus-Version, Tus-Extension, Tus-Max-Size, Upload-Length, Upload-Offset, Upload-Metadata, Upload-Expires'
     };
 
+    const url = new URL(request.url);
+
     if (request.method === 'OPTIONS') {
       return new Response(null, {
         headers: {
           ...corsHeaders,
-          'Access-Control-Allow-Methods': 'GET,HEAD,POST,PUT,OPTIONS',
+          'Access-Control-Allow-Methods': 'GET,HEAD,POST,PUT,PATCH,DELETE,OPTIONS',
+          // tus discovery; needs no Tus-Resumable header and no credentials
+          ...((url.pathname === '/api/tus' || url.pathname.startsWith('/api/tus/')) && {
+            'Tus-Resumable': TUS_VERSION,
+            'Tus-Version': TUS_VERSION,
+            'Tus-Extension': TUS_EXTENSIONS,
+            'Tus-Max-Size': String(MAX_OBJECT_SIZE)
+          })
         }
       });
     }
 
-    const url = new URL(request.url);
+    if (!url.pathname.startsWith('/api/')) {
+      return new Response('Not found', { status: 404 });
+    }
 
-    if (url.pathname === '/api/initiate-upload') {
-      const MIN_PART_SIZE = 5 * 1024 * 1024; // 5MB
-      const MAX_PARTS = 10000;
-      const CHUNK_SIZE = 10 * 1024 * 1024; // 10MB - must match frontend
+    if (url.pathname === '/api/login') {
+      if (request.method !== 'POST') {
+        return new Response('Method not allowed', {
+          status: 405,
+          headers: corsHeaders
+        });
+      }
+
+      try {
+        // Exchange an API token for a browser session cookie
+        const { token } = await request.json() as { token?: string };
+        const userId = token ? userForApiToken(env, token) : null;
+        if (!userId) {
+          return new Response(JSON.stringify({
+            error: 'Invalid credentials',
+            details: 'The token is not recognised'
+          }), {
+            status: 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        return new Response(JSON.stringify({ id: userId, admin: isAdmin(env, { id: userId, method: 'session' }) }), {
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+            'Set-Cookie': await createSessionCookie(env, userId)
+          }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          error: 'Failed to log in',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    if (url.pathname === '/api/logout') {
+      return new Response(JSON.stringify({ success: true }), {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+          'Set-Cookie': clearSessionCookie()
+        }
+      });
+    }
+
+    // Public share links: anyone holding a valid signed URL may download
+    if (url.pathname.startsWith('/api/public/share/')) {
+      const id = url.pathname.replace('/api/public/share/', '');
+
+      if (!['GET', 'HEAD', 'POST'].includes(request.method)) {
+        return new Response('Method not allowed', {
+          status: 405,
+          headers: corsHeaders
+        });
+      }
+
+      try {
+        const share = await getShare(env.BUCKET, id);
+        if (!share || !(await verifyShareLink(env, share, url.searchParams.get('expires'), url.searchParams.get('signature')))) {
+          return new Response('Share link not found, expired or revoked', {
+            status: 404,
+            headers: corsHeaders
+          });
+        }
+
+        // An encrypted file is decrypted by the app, which reads the key from
+        // the link's fragment; browsers keep the fragment across the redirect.
+        // The app fetches the bytes itself with `raw`.
+        const accept = request.headers.get('Accept') ?? '';
+        if (request.method === 'GET' && accept.includes('text/html') && !url.searchParams.has('raw')) {
+          const object = await env.BUCKET.head(share.key);
+          if (object?.customMetadata?.encryption) {
+            return Response.redirect(`${url.origin}/?share=${encodeURIComponent(url.pathname + url.search)}`, 302);
+          }
+        }
+
+        // Password-protected links show a prompt and take the password as a form POST
+        const password = request.method === 'POST'
+          ? (await request.formData()).get('password') as string | null
+          : request.headers.get('X-Share-Password');
+        if (!(await checkSharePassword(share, password))) {
+          const escapedName = share.filename.replace(/[&<>"]/g, (char) => `&#${char.charCodeAt(0)};`);
+          return new Response(`<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="UTF-8"><title>${escapedName}</title></head>
+<body style="font-family: sans-serif; max-width: 24rem; margin: 4rem auto;">
+  <h1 style="font-size: 1.25rem;">${escapedName}</h1>
+  ${password ? '<p style="color: #b91c1c;">Incorrect password</p>' : ''}
+  <form method="POST">
+    <input type="password" name="password" placeholder="Password" autofocus required>
+    <button type="submit">Download</button>
+  </form>
+</body>
+</html>`, {
+            status: 401,
+            headers: { ...corsHeaders, 'Content-Type': 'text/html; charset=utf-8' }
+          });
+        }
+
+        const counted = startsDownload(request);
+
+        return await serveObject(request, env.BUCKET, share.key, corsHeaders, {
+          filename: share.filename,
+          // Only a response that sends the file uses up a download, not a
+          // 304, 412 or 416
+          beforeServe: async () => counted && !(await claimShareDownload(env.BUCKET, share.id))
+            ? new Response('Download limit reached for this share link', {
+              status: 410,
+              headers: corsHeaders
+            })
+            : null,
+          onServe: (object, range) => {
+            const name = fromUserKey({ id: share.owner, method: 'session' }, share.key);
+            ctx.waitUntil(recordAudit(env, request, share.owner, {
+              action: 'file.downloaded',
+              actor: `share:${share.id}`,
+              key: name,
+              bytes: range ? range.length : object.size,
+              range: describeRange(range, object.size)
+            }));
+            if (!counted) return;
+            ctx.waitUntil(recordDownload(env, object));
+            ctx.waitUntil(emitEvent(env, share.owner, {
+              event: 'file.downloaded',
+              key: name,
+              size: object.size,
+              sha256: object.customMetadata?.sha256 ?? null,
+              actor: `share:${share.id}`
+            }));
+          }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          error: 'Failed to download shared file',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    // The upload page of a file request link: what the uploader may send,
+    // but nothing about the files already there
+    if (url.pathname.startsWith('/api/public/requests/')) {
+      if (request.method !== 'GET') {
+        return new Response('Method not allowed', {
+          status: 405,
+          headers: corsHeaders
+        });
+      }
+
+      try {
+        const fileRequest = await verifyFileRequestToken(env, decodeURIComponent(url.pathname.replace('/api/public/requests/', '')));
+        if (!fileRequest) {
+          return new Response('File request not found, expired or closed', {
+            status: 404,
+            headers: corsHeaders
+          });
+        }
+
+        return new Response(JSON.stringify(await fileRequestInfo(env, fileRequest)), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          error: 'Failed to read file request',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    // Every other API route acts on behalf of an authenticated user, or of
+    // the owner of the file request link in X-File-Request
+    const fileRequestToken = request.headers.get('X-File-Request');
+    const fileRequest = fileRequestToken !== null ? await verifyFileRequestToken(env, fileRequestToken).catch(() => null) : null;
+    const user: User | null = fileRequestToken !== null
+      ? fileRequest && { id: fileRequest.owner, method: 'file-request', fileRequest }
+      : await authenticate(request, env);
+    if (!user) {
+      return new Response(JSON.stringify({
+        error: 'Unauthorized',
+        details: fileRequestToken !== null ? 'The file request link is invalid, expired or closed' : 'Sign in or provide an API token'
+      }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (user.fileRequest && !FILE_REQUEST_ROUTES.includes(url.pathname)
+      && !FILE_REQUEST_ROUTE_PREFIXES.some((prefix) => url.pathname.startsWith(prefix))) {
+      return new Response(JSON.stringify({
+        error: 'Forbidden',
+        details: 'File request links can only upload files'
+      }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (url.pathname === '/api/me') {
+      return new Response(JSON.stringify({ ...user, admin: isAdmin(env, user) }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
 
+    let rateLimited: LimitViolation | null;
+    try {
+      rateLimited = await checkRateLimit(env, user.id);
+    } catch (error: any) {
+      console.error(`Rate limit check failed for ${user.id}:`, error);
+      return new Response(JSON.stringify({
+        error: 'Service unavailable',
+        details: 'Request limits could not be checked, please try again'
+      }), {
+        status: 503,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': '5' }
+      });
+    }
+    if (rateLimited) {
+      return limitResponse(corsHeaders, rateLimited);
+    }
+
+    // Storage used and the limits that apply, for showing what's left
+    if (url.pathname === '/api/usage') {
+      try {
+        return new Response(JSON.stringify(await usageSummary(env, user.id)), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          error: 'Failed to read usage',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    if (url.pathname.startsWith('/api/admin/')) {
+      if (!isAdmin(env, user)) {
+        return new Response(JSON.stringify({
+          error: 'Forbidden',
+          details: 'Admin access required'
+        }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      try {
+        // In-progress multipart uploads across all users
+        if (url.pathname === '/api/admin/uploads' && request.method === 'GET') {
+          const now = Date.now();
+          const uploads = (await listSessions(env.BUCKET)).map((session) => ({
+            ...session,
+            stale: isStale(env, session, now)
+          }));
+
+          return new Response(JSON.stringify({ uploads, staleUploadTtl: staleUploadTtl(env) }), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        if (url.pathname.startsWith('/api/admin/uploads/') && request.method === 'DELETE') {
+          const session = await getSession(env.BUCKET, url.pathname.replace('/api/admin/uploads/', ''));
+          if (!session) {
+            return new Response('Upload not found', {
+              status: 404,
+              headers: corsHeaders
+            });
+          }
+
+          await abortUpload(env, session, user.id, request);
+
+          return new Response(JSON.stringify({ success: true }), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        // Run the same sweep as the cron trigger right away
+        if (url.pathname === '/api/admin/cleanup' && request.method === 'POST') {
+          const aborted = await cleanupStaleUploads(env, user.id, request);
+
+          return new Response(JSON.stringify({ success: true, aborted: aborted.length }), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        return new Response('Not found', {
+          status: 404,
+          headers: corsHeaders
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          error: 'Admin request failed',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    if (url.pathname === '/api/initiate-upload') {
       let filename: string;
       let fileSize: number;
+      let preferredPartSize: number | undefined;
+      let sha256: string | undefined;
+      let onConflict: unknown;
+      let contentType: unknown;
+      // Base64 of the file's first bytes, for sniffing its type
+      let head: unknown;
+      let userMetadata: UserMetadata | null;
+      // Parameters of a file encrypted in the browser
+      let encryption: unknown;
 
       try {
         console.log('Received initiate-upload request');
         const body = await request.json();
-        const parsed = body as { filename: string; fileSize: number };
+        const parsed = body as {
+          filename: string;
+          fileSize: number;
+          preferredPartSize?: number;
+          sha256?: string;
+          onConflict?: string;
+          contentType?: string;
+          head?: string;
+          description?: string;
+          tags?: string[];
+          encryption?: unknown;
+        };
         filename = parsed.filename;
         fileSize = parsed.fileSize;
-        console.log('File details:', { filename, fileSize });
+        preferredPartSize = parsed.preferredPartSize;
+        sha256 = parsed.sha256;
+        onConflict = parsed.onConflict;
+        contentType = parsed.contentType;
+        head = parsed.head;
+        encryption = parsed.encryption;
+        userMetadata = parseUserMetadata(parsed);
+        console.log('File details:', { filename, fileSize, preferredPartSize, sha256, onConflict, contentType });
       } catch (error) {
         console.error('Error parsing request:', error);
         return new Response(JSON.stringify({
           error: 'Invalid request',
           details: 'Could not parse request body'
         }), {
-          status: 400,
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      const requestedName = normalizeKey(filename, userPrefix(user));
+      if (requestedName === null) {
+        return invalidNameResponse(corsHeaders);
+      }
+
+      // Uploads through a file request link never replace what's already there
+      const conflictPolicy = user.fileRequest ? 'rename' : parseConflictPolicy(onConflict);
+      if (conflictPolicy === null) {
+        return new Response(JSON.stringify({
+          error: 'Invalid request',
+          details: 'onConflict must be fail, overwrite or rename'
+        }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      if (userMetadata === null || (contentType !== undefined && contentType !== '' && !isContentType(contentType))) {
+        return invalidMetadataResponse(corsHeaders);
+      }
+
+      // Validate against R2 limits
+      if (!Number.isSafeInteger(fileSize) || fileSize < 0 || fileSize > MAX_OBJECT_SIZE) {
+        return new Response(JSON.stringify({
+          error: 'File too large',
+          details: `R2 supports objects up to ${MAX_OBJECT_SIZE} bytes`
+        }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      const encryptionParams = parseEncryptionParams(encryption, fileSize);
+      if (encryptionParams === null) {
+        return invalidEncryptionResponse(corsHeaders);
+      }
+      // Ciphertext is stored as opaque bytes, whatever the name suggests
+      const resolvedType = encryptionParams ? 'application/octet-stream' : resolveContentType(requestedName, contentType, head);
+
+      // The whole-file checksum is stored with the object for later verification
+      if (sha256 !== undefined && !isSha256Hex(sha256)) {
+        return new Response(JSON.stringify({
+          error: 'Invalid checksum',
+          details: 'sha256 must be a lowercase hex SHA-256 digest'
+        }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      // Validate the requested part size
+      if (preferredPartSize !== undefined && !isValidPartSize(preferredPartSize)) {
+        return new Response(JSON.stringify({
+          error: 'Invalid chunk size',
+          details: `Chunk size must be at least ${MIN_PART_SIZE} bytes (5MB) and at most 5GB`
+        }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      // Proxied parts (and single proxied PUTs, for files up to one part)
+      // have to fit in a Worker request body
+      const maxPartSize = usesPresignedUrls(env, user) ? MAX_PART_SIZE : MAX_PROXY_PART_SIZE;
+      const partSize = choosePartSize(fileSize, preferredPartSize, maxPartSize);
+      if (partSize > maxPartSize) {
+        return new Response(JSON.stringify({
+          error: 'File too large',
+          details: `Uploads through the Worker support files up to ${MAX_PARTS * maxPartSize} bytes`
+        }), {
+          status: 413,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      const partCount = Math.ceil(fileSize / partSize);
+      if (partCount > MAX_PARTS) {
+        return new Response(JSON.stringify({
+          error: 'File too large',
+          details: `File would require ${partCount} parts, but R2 only supports ${MAX_PARTS} parts maximum`
+        }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      if (user.fileRequest) {
+        const full = await checkFileRequestCapacity(env, user.fileRequest, fileSize);
+        if (full) {
+          return fileRequestFullResponse(corsHeaders, full);
+        }
+      }
+      const limits = limitsFor(env, user.id);
+      const fileViolation = checkFile(limits, requestedName, fileSize, resolvedType);
+      if (fileViolation) {
+        return limitResponse(corsHeaders, fileViolation);
+      }
+
+      // Settle the final name up front; the write itself re-checks atomically
+      const resolvedName = await resolveConflict(env.BUCKET, userPrefix(user), requestedName, conflictPolicy);
+      if (resolvedName === null) {
+        return conflictResponse(corsHeaders, requestedName);
+      }
+      filename = resolvedName;
+
+      // Storage is reserved once nothing else can turn the upload down, and
+      // given back if it fails to start. Single proxied PUTs are counted when
+      // the bytes arrive instead, since /api/upload/ checks them anyway.
+      const proxiedPut = fileSize <= partSize && !usesPresignedUrls(env, user);
+      const reserved = proxiedPut ? 0 : fileSize;
+      if (reserved > 0) {
+        const violation = await reserveStorage(env, user.id, limits, reserved);
+        if (violation) {
+          return limitResponse(corsHeaders, violation);
+        }
+      }
+      const requestReserved = user.fileRequest && reserved > 0 ? user.fileRequest : null;
+      if (requestReserved) {
+        const full = await reserveFileRequest(env, requestReserved, reserved);
+        if (full) {
+          await tryReleaseStorage(env, user.id, reserved);
+          return fileRequestFullResponse(corsHeaders, full);
+        }
+      }
+
+      try {
+        // Use multipart upload for files larger than one part
+        if (fileSize > partSize) {
+          // Create multipart upload with CORS headers
+          console.log('Creating multipart upload for:', filename);
+          const multipartUpload = await env.BUCKET.createMultipartUpload(toUserKey(user, filename), {
+            customMetadata: applyUserMetadata({
+              'upload-type': 'multipart',
+              ...(sha256 && { sha256 }),
+              ...(encryptionParams && { encryption: encryptionParams }),
+              ...(user.fileRequest && { 'file-request': user.fileRequest.id })
+            }, userMetadata),
+            httpMetadata: {
+              contentType: resolvedType,
+              cacheControl: 'no-cache'
+            }
+          });
+          console.log('Multipart upload created with ID:', multipartUpload.uploadId);
+          const uploadId = multipartUpload.uploadId;
+
+          // Track the session so an interrupted upload can be resumed later
+          await saveSession(env.BUCKET, {
+            uploadId,
+            key: toUserKey(user, filename),
+            owner: user.id,
+            fileSize,
+            partSize,
+            partCount,
+            conflictPolicy,
+            ...(user.fileRequest && { fileRequest: user.fileRequest.id }),
+            createdAt: new Date().toISOString()
+          });
+          const parts = [];
+          
+          for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+            const range = partByteRange(partNumber, partSize, fileSize);
+            const uploadUrl = await getUploadUrl(request, env, user, filename, uploadId, partNumber, range.end - range.start);
+            parts.push({ url: uploadUrl, partNumber, ...range });
+          }
+
+          const response = {
+            type: 'multipart',
+            uploadId,
+            parts,
+            partSize,
+            partCount,
+            uploadMode: usesPresignedUrls(env, user) ? 'presigned' : 'proxy',
+            urlExpiresAt: presignedUrlExpiry(env, user),
+            filename
+          };
+          console.log('Sending response:', response);
+          return new Response(JSON.stringify(response), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        // For smaller files, return a direct upload URL
+        if (usesPresignedUrls(env, user)) {
+          const hasUserMetadata = Object.keys(applyUserMetadata({}, userMetadata)).length > 0;
+
+          return new Response(JSON.stringify({
+            type: 'simple',
+            uploadUrl: await presignPutObject(env, toUserKey(user, filename), {
+              contentType: resolvedType,
+              contentLength: fileSize,
+              metadata: sha256 || encryptionParams ? {
+                ...(sha256 && { sha256 }),
+                ...(encryptionParams && { encryption: encryptionParams })
+              } : undefined,
+              ifNoneMatch: conflictPolicy !== 'overwrite'
+            }),
+            method: 'PUT',
+            headers: {
+              'Content-Type': resolvedType,
+              ...(sha256 && { 'x-amz-meta-sha256': sha256 }),
+              ...(encryptionParams && { 'x-amz-meta-encryption': encryptionParams }),
+              ...(conflictPolicy !== 'overwrite' && { 'If-None-Match': '*' })
+            },
+            // S3 metadata headers are ASCII-only, so description and tags are
+            // set through /api/metadata once the PUT has finished
+            ...(hasUserMetadata && { pendingMetadata: userMetadata }),
+            urlExpiresAt: presignedUrlExpiry(env, user),
+            filename
+          }), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        return new Response(JSON.stringify({ 
+          type: 'simple',
+          uploadUrl: `/api/upload/${encodeURIComponent(filename)}?${new URLSearchParams({
+            onConflict: conflictPolicy,
+            ...(userMetadata.description && { description: userMetadata.description }),
+            ...(userMetadata.tags?.length && { tags: userMetadata.tags.join(',') }),
+            ...(encryptionParams && { encryption: encryptionParams })
+          })}`,
+          method: 'PUT',
+          headers: {
+            'Content-Type': resolvedType,
+            ...(sha256 && { 'X-Content-SHA256': sha256 })
+          },
+          filename
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      } catch (error) {
+        await tryReleaseStorage(env, user.id, reserved);
+        if (requestReserved) {
+          await tryReleaseFileRequest(env, requestReserved.id, reserved);
+        }
+        throw error;
+      }
+    }
+
+    // tus 1.0 resumable uploads, for tus-js-client, Uppy and other tus clients
+    if (url.pathname === '/api/tus' || url.pathname.startsWith('/api/tus/')) {
+      // Lets clients that can't send PATCH or DELETE tunnel them through POST
+      const method = request.headers.get('X-HTTP-Method-Override')?.toUpperCase() || request.method;
+      const tusHeaders = { ...corsHeaders, 'Tus-Resumable': TUS_VERSION };
+
+      if (request.headers.get('Tus-Resumable') !== TUS_VERSION) {
+        return new Response(`Only tus ${TUS_VERSION} is supported`, {
+          status: 412,
+          headers: { ...tusHeaders, 'Tus-Version': TUS_VERSION }
+        });
+      }
+
+      try {
+        if (url.pathname === '/api/tus') {
+          if (method !== 'POST') {
+            return new Response('Method not allowed', {
+              status: 405,
+              headers: tusHeaders
+            });
+          }
+
+          // Creation without a length (creation-defer-length) isn't supported
+          const uploadLength = request.headers.get('Upload-Length') ?? '';
+          const length = parseInt(uploadLength, 10);
+          if (!/^\d+$/.test(uploadLength) || !Number.isSafeInteger(length)) {
+            return new Response('Upload-Length is required', {
+              status: 400,
+              headers: tusHeaders
+            });
+          }
+          if (length > MAX_OBJECT_SIZE) {
+            return new Response(`R2 supports objects up to ${MAX_OBJECT_SIZE} bytes`, {
+              status: 413,
+              headers: { ...tusHeaders, 'Tus-Max-Size': String(MAX_OBJECT_SIZE) }
+            });
+          }
+
+          const metadata = parseUploadMetadata(request.headers.get('Upload-Metadata'));
+          if (metadata === null) {
+            return new Response('Invalid Upload-Metadata header', {
+              status: 400,
+              headers: tusHeaders
+            });
+          }
+
+          // tus-js-client and Uppy send the name as "filename" or "name" and
+          // the type as "filetype" or "type"
+          const requestedName = normalizeKey(metadata.filename ?? metadata.name, userPrefix(user));
+          if (requestedName === null) {
+            return invalidNameResponse(tusHeaders);
+          }
+
+          const conflictPolicy = parseConflictPolicy(metadata.onConflict);
+          if (conflictPolicy === null) {
+            return new Response(JSON.stringify({
+              error: 'Invalid request',
+              details: 'onConflict must be fail, overwrite or rename'
+            }), {
+              status: 400,
+              headers: { ...tusHeaders, 'Content-Type': 'application/json' }
+            });
+          }
+
+          const contentType = metadata.filetype ?? metadata.type;
+          if (contentType !== undefined && contentType !== '' && !isContentType(contentType)) {
+            return invalidMetadataResponse(tusHeaders);
+          }
+
+          const name = await resolveConflict(env.BUCKET, userPrefix(user), requestedName, conflictPolicy);
+          if (name === null) {
+            return conflictResponse(tusHeaders, requestedName);
+          }
+
+          const violation = await checkUpload(env, user.id, name, length, resolveContentType(name, contentType));
+          if (violation) {
+            return limitResponse(tusHeaders, violation);
+          }
+
+          let upload;
+          try {
+            upload = await createTusUpload(env, {
+              owner: user.id,
+              key: toUserKey(user, name),
+              name,
+              length,
+              metadata: request.headers.get('Upload-Metadata') ?? '',
+              contentType: resolveContentType(name, contentType),
+              conflictPolicy
+            });
+          } catch (error) {
+            await tryReleaseStorage(env, user.id, length);
+            throw error;
+          }
+          if (upload.completed) {
+            ctx.waitUntil(emitEvent(env, user.id, { event: 'upload.completed', key: name, size: 0, sha256: null, actor: user.id }));
+            ctx.waitUntil(recordAudit(env, request, user.id, { action: 'upload.completed', actor: user.id, key: name, bytes: 0 }));
+          }
+
+          return new Response(null, {
+            status: 201,
+            headers: {
+              ...tusHeaders,
+              Location: `${url.origin}/api/tus/${upload.id}`,
+              'Upload-Expires': new Date(upload.expiresAt).toUTCString()
+            }
+          });
+        }
+
+        const found = await getTusUpload(env.BUCKET, user.id, url.pathname.replace('/api/tus/', ''));
+        if (!found) {
+          return new Response('Upload not found', {
+            status: 404,
+            headers: tusHeaders
+          });
+        }
+        const { upload, etag } = found;
+        if (isExpired(upload)) {
+          return new Response('Upload expired', {
+            status: 410,
+            headers: tusHeaders
+          });
+        }
+
+        if (method === 'HEAD') {
+          return new Response(null, {
+            headers: {
+              ...tusHeaders,
+              'Upload-Offset': String(upload.offset),
+              'Upload-Length': String(upload.length),
+              ...(upload.metadata && { 'Upload-Metadata': upload.metadata }),
+              'Upload-Expires': new Date(upload.expiresAt).toUTCString(),
+              'Cache-Control': 'no-store'
+            }
+          });
+        }
+
+        if (method === 'DELETE') {
+          await deleteTusUpload(env, upload);
+          if (!upload.completed) {
+            ctx.waitUntil(tryReleaseStorage(env, user.id, upload.length));
+            ctx.waitUntil(recordAudit(env, request, user.id, { action: 'upload.aborted', actor: user.id, key: upload.name, bytes: upload.length }));
+          }
+          return new Response(null, {
+            status: 204,
+            headers: tusHeaders
+          });
+        }
+
+        if (method !== 'PATCH') {
+          return new Response('Method not allowed', {
+            status: 405,
+            headers: tusHeaders
+          });
+        }
+
+        if (request.headers.get('Content-Type') !== 'application/offset+octet-stream') {
+          return new Response('Content-Type must be application/offset+octet-stream', {
+            status: 415,
+            headers: tusHeaders
+          });
+        }
+
+        if (request.headers.get('Upload-Offset') !== String(upload.offset)) {
+          return new Response(`Upload-Offset must be ${upload.offset}`, {
+            status: 409,
+            headers: tusHeaders
+          });
+        }
+
+        const length = parseInt(request.headers.get('Content-Length') ?? '', 10);
+        if (!Number.isSafeInteger(length) || length < 0) {
+          return new Response('Content-Length is required', {
+            status: 411,
+            headers: tusHeaders
+          });
+        }
+        if (length > upload.length - upload.offset) {
+          return new Response('The body goes past Upload-Length', {
+            status: 400,
+            headers: tusHeaders
+          });
+        }
+
+        if (length > 0 && request.body) {
+          const wasCompleted = upload.completed;
+          try {
+            await appendToTusUpload(env, upload, etag, request.body as unknown as WorkersReadableStream, length);
+          } catch (error) {
+            // The name was taken while uploading; what was received can't be used
+            if (error instanceof ConflictError) {
+              await deleteTusUpload(env, upload);
+              return conflictResponse(tusHeaders, upload.name);
+            }
+            throw error;
+          }
+
+          if (upload.completed && !wasCompleted) {
+            ctx.waitUntil(emitEvent(env, user.id, {
+              event: 'upload.completed',
+              key: upload.name,
+              size: upload.length,
+              sha256: null,
+              actor: user.id
+            }));
+            ctx.waitUntil(recordAudit(env, request, user.id, { action: 'upload.completed', actor: user.id, key: upload.name, bytes: upload.length }));
+          }
+        }
+
+        return new Response(null, {
+          status: 204,
+          headers: {
+            ...tusHeaders,
+            'Upload-Offset': String(upload.offset),
+            'Upload-Expires': new Date(upload.expiresAt).toUTCString()
+          }
+        });
+      } catch (error: any) {
+        if (error instanceof OffsetConflictError) {
+          return new Response(error.message, {
+            status: 409,
+            headers: tusHeaders
+          });
+        }
+        return new Response(JSON.stringify({
+          error: 'tus upload failed',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...tusHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    if (url.pathname === '/api/list-files') {
+      const sort = url.searchParams.get('sort') || 'name';
+      const order = url.searchParams.get('order') || 'asc';
+      const limit = parseInt(url.searchParams.get('limit') || '100', 10);
+      const prefix = normalizePrefix(url.searchParams.get('prefix'), userPrefix(user));
+      if (prefix === null) {
+        return invalidNameResponse(corsHeaders);
+      }
+
+      if (!['name', 'size', 'uploaded'].includes(sort) || !['asc', 'desc'].includes(order)
+        || !(limit > 0 && limit <= MAX_LIST_LIMIT)) {
+        return new Response(JSON.stringify({
+          error: 'Invalid request',
+          details: `sort must be name, size or uploaded, order asc or desc, and limit between 1 and ${MAX_LIST_LIMIT}`
+        }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      try {
+        const result = await listFiles(env.BUCKET, userPrefix(user), {
+          prefix,
+          delimiter: url.searchParams.get('delimiter') || undefined,
+          cursor: url.searchParams.get('cursor') || undefined,
+          limit,
+          search: url.searchParams.get('search') || undefined,
+          tag: url.searchParams.get('tag') || undefined,
+          sort: sort as SortField,
+          order: order as SortOrder
+        });
+
+        return new Response(JSON.stringify(result), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      } catch (error: any) {
+        if (error instanceof TooLargeToSortError) {
+          return new Response(JSON.stringify({
+            error: 'Folder too large to sort',
+            details: error.message
+          }), {
+            status: 422,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+        return new Response(JSON.stringify({
+          error: 'Failed to list files',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    if (url.pathname.startsWith('/api/upload/')) {
+      if (request.method !== 'PUT') {
+        return new Response('Method not allowed', { 
+          status: 405,
+          headers: corsHeaders
+        });
+      }
+
+      const name = keyFromPath(url.pathname, '/api/upload/', userPrefix(user));
+      if (name === null) {
+        return invalidNameResponse(corsHeaders);
+      }
+
+      // 'rename' was already resolved to a free name by initiate-upload
+      const conflictPolicy = user.fileRequest ? 'rename' : parseConflictPolicy(url.searchParams.get('onConflict'));
+      const body = fixedLengthBody(request);
+      if (!body) {
+        return new Response('Content-Length is required', {
+          status: 411,
+          headers: corsHeaders
+        });
+      }
+
+      const sha256 = request.headers.get('X-Content-SHA256')?.toLowerCase();
+      if (sha256 !== undefined && !isSha256Hex(sha256)) {
+        return new Response('Invalid X-Content-SHA256 header', {
+          status: 400,
+          headers: corsHeaders
+        });
+      }
+
+      const tags = url.searchParams.get('tags');
+      const userMetadata = parseUserMetadata({
+        description: url.searchParams.get('description') ?? undefined,
+        tags: tags ? tags.split(',') : undefined
+      });
+      if (userMetadata === null) {
+        return invalidMetadataResponse(corsHeaders);
+      }
+
+      let encryptionParams: string | null | undefined;
+      try {
+        const encryption = url.searchParams.get('encryption');
+        encryptionParams = encryption ? parseEncryptionParams(JSON.parse(encryption), body.length) : undefined;
+      } catch {
+        encryptionParams = null;
+      }
+      if (encryptionParams === null) {
+        return invalidEncryptionResponse(corsHeaders);
+      }
+      // R2 checks the whole body against it below, unlike the checksums of
+      // multipart and presigned uploads, which are the client's word
+      const customMetadata = applyUserMetadata({
+        ...(sha256 && { sha256, 'sha256-verified': 'true' }),
+        ...(encryptionParams && { encryption: encryptionParams }),
+        ...(user.fileRequest && { 'file-request': user.fileRequest.id })
+      }, userMetadata);
+      const contentType = encryptionParams ? 'application/octet-stream' : resolveContentType(name, request.headers.get('Content-Type'));
+
+      // Bytes counted against the quota and the file request link, given
+      // back if the write fails
+      let reserved = 0;
+      let requestReserved = false;
+      try {
+        // Whatever initiate-upload was told, the body's length is what counts
+        if (user.fileRequest) {
+          const full = await reserveFileRequest(env, user.fileRequest, body.length);
+          if (full) {
+            return fileRequestFullResponse(corsHeaders, full);
+          }
+          requestReserved = true;
+        }
+        const violation = await checkUpload(env, user.id, name, body.length, contentType);
+        if (violation) {
+          if (user.fileRequest) {
+            await tryReleaseFileRequest(env, user.fileRequest.id, body.length);
+          }
+          return limitResponse(corsHeaders, violation);
+        }
+        reserved = body.length;
+
+        // Stream the file into R2 without buffering it in the Worker; R2
+        // rejects the write if the content doesn't match the checksum, and
+        // unless overwriting, if the name was taken in the meantime
+        const object = await env.BUCKET.put(toUserKey(user, name), body.stream, {
+          httpMetadata: { contentType },
+          customMetadata,
+          ...(sha256 && { sha256 }),
+          ...(conflictPolicy !== 'overwrite' && { onlyIf: noOverwrite() })
+        });
+        if (!object) {
+          await tryReleaseStorage(env, user.id, reserved);
+          if (user.fileRequest) {
+            await tryReleaseFileRequest(env, user.fileRequest.id, body.length);
+          }
+          return conflictResponse(corsHeaders, name);
+        }
+        reserved = 0;
+        requestReserved = false;
+
+        if (user.fileRequest) {
+          await recordReceivedFile(env.BUCKET, user.fileRequest, ownerName(user, name), object.size);
+        }
+        ctx.waitUntil(emitEvent(env, user.id, {
+          event: 'upload.completed',
+          key: ownerName(user, name),
+          size: object.size,
+          sha256: await body.sha256.catch(() => null),
+          actor: actorOf(user)
+        }));
+        ctx.waitUntil(recordAudit(env, request, user.id, { action: 'upload.completed', actor: actorOf(user), key: ownerName(user, name), bytes: object.size }));
+
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      } catch (error: any) {
+        await tryReleaseStorage(env, user.id, reserved);
+        if (user.fileRequest && requestReserved) {
+          await tryReleaseFileRequest(env, user.fileRequest.id, body.length);
+        }
+        return new Response(JSON.stringify({
+          error: 'Failed to upload file',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    if (url.pathname === '/api/abort-multipart') {
+      const { filename, uploadId } = await request.json() as { filename: string; uploadId: string };
+      const name = normalizeKey(filename, userPrefix(user));
+      if (name === null) {
+        return invalidNameResponse(corsHeaders);
+      }
+
+      try {
+        const session = uploadId ? await getSession(env.BUCKET, uploadId) : null;
+        if (!ownsSession(user, session, toUserKey(user, name))) {
+          return uploadNotFoundResponse(corsHeaders);
+        }
+
+        // Abort the multipart upload
+        const upload = await env.BUCKET.resumeMultipartUpload(session.key, uploadId);
+        await upload.abort();
+        await deleteSession(env.BUCKET, uploadId);
+        ctx.waitUntil(tryReleaseStorage(env, session.owner, session.fileSize));
+        if (session.fileRequest) {
+          ctx.waitUntil(tryReleaseFileRequest(env, session.fileRequest, session.fileSize));
+        }
+        ctx.waitUntil(recordAudit(env, request, user.id, {
+          action: 'upload.aborted',
+          actor: actorOf(user),
+          key: ownerName(user, name),
+          bytes: session.fileSize
+        }));
+
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({ 
+          error: 'Failed to abort multipart upload',
+          details: error.message || 'Unknown error'
+        }), { 
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    if (url.pathname === '/api/complete-multipart') {
+      try {
+        const { filename, uploadId, parts } = await request.json();
+        
+        if (!filename || !uploadId || !Array.isArray(parts)) {
+          return new Response(JSON.stringify({
+            error: 'Invalid request',
+            details: 'Missing required fields'
+          }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        const name = normalizeKey(filename, userPrefix(user));
+        if (name === null) {
+          return invalidNameResponse(corsHeaders);
+        }
+
+        // The session holds the size the quota was checked against, so an
+        // upload without one can't be completed
+        const key = toUserKey(user, name);
+        const session = await getSession(env.BUCKET, uploadId);
+        if (!ownsSession(user, session, key)) {
+          return uploadNotFoundResponse(corsHeaders);
+        }
+
+        // R2 can't complete a multipart upload conditionally, so this check
+        // leaves a short window in which a concurrent write can be replaced
+        if (session.conflictPolicy !== 'overwrite' && await env.BUCKET.head(key)) {
+          return conflictResponse(corsHeaders, name);
+        }
+
+        // Sort parts by part number to ensure correct order
+        const sortedParts = parts.sort((a: { partNumber: number }, b: { partNumber: number }) => a.partNumber - b.partNumber);
+
+        // Parts sent straight to R2 are only measured by R2. Check them
+        // against the declared size before they become a file: once complete,
+        // an oversized upload may already have replaced the file it overwrote.
+        const sizes = usesPresignedUrls(env, user)
+          ? new Map((await listUploadedParts(env, key, uploadId)).map((part) => [part.partNumber, part.size]))
+          : null;
+        for (const { partNumber } of sortedParts as { partNumber: number }[]) {
+          const range = partNumber >= 1 && partNumber <= session.partCount
+            ? partByteRange(partNumber, session.partSize, session.fileSize)
+            : null;
+          const size = sizes?.get(partNumber);
+          if (range === null || (sizes !== null && size !== range.end - range.start)) {
+            const tooLarge = range !== null && size !== undefined && size > range.end - range.start;
+            return new Response(JSON.stringify({
+              error: tooLarge ? 'Part too large' : 'Invalid part',
+              details: range === null
+                ? `This upload has parts 1 to ${session.partCount}`
+                : `Part ${partNumber} must be ${range.end - range.start} bytes, but R2 has ${size ?? 'no'} bytes for it`
+            }), {
+              status: tooLarge ? 413 : 400,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            });
+          }
+        }
+
+        // Complete the multipart upload
+        const upload = await env.BUCKET.resumeMultipartUpload(key, uploadId);
+        const object = await upload.complete(sortedParts);
+        await deleteSession(env.BUCKET, uploadId);
+
+        if (user.fileRequest) {
+          await recordReceivedFile(env.BUCKET, user.fileRequest, ownerName(user, name), object.size);
+        }
+        ctx.waitUntil(emitEvent(env, user.id, {
+          event: 'upload.completed',
+          key: ownerName(user, name),
+          size: object.size,
+          sha256: object.customMetadata?.sha256 ?? null,
+          actor: actorOf(user)
+        }));
+        ctx.waitUntil(recordAudit(env, request, user.id, { action: 'upload.completed', actor: actorOf(user), key: ownerName(user, name), bytes: object.size }));
+
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({ 
+          error: 'Failed to complete multipart upload',
+          details: error.message || 'Unknown error'
+        }), { 
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    if (url.pathname === '/api/resume-upload') {
+      try {
+        const { filename, uploadId } = await request.json() as { filename: string; uploadId: string };
+
+        const name = normalizeKey(filename, userPrefix(user));
+        const session = uploadId && name !== null ? await getSession(env.BUCKET, uploadId) : null;
+        if (name === null || !ownsSession(user, session, toUserKey(user, name))) {
+          return uploadNotFoundResponse(corsHeaders);
+        }
+
+        const completedParts = await listCompletedParts(env.BUCKET, uploadId);
+        const done = new Set(completedParts.map((part) => part.partNumber));
+
+        // Parts sent straight to R2 are only known to R2 itself
+        if (usesPresignedUrls(env, user)) {
+          for (const part of await listUploadedParts(env, session.key, uploadId)) {
+            if (done.has(part.partNumber)) continue;
+            completedParts.push({ partNumber: part.partNumber, etag: part.etag });
+            done.add(part.partNumber);
+          }
+          completedParts.sort((a, b) => a.partNumber - b.partNumber);
+        }
+        const parts = [];
+
+        for (let partNumber = 1; partNumber <= session.partCount; partNumber++) {
+          if (done.has(partNumber)) continue;
+          const range = partByteRange(partNumber, session.partSize, session.fileSize);
+          const uploadUrl = await getUploadUrl(request, env, user, name, uploadId, partNumber, range.end - range.start);
+          parts.push({ url: uploadUrl, partNumber, ...range });
+        }
+
+        return new Response(JSON.stringify({
+          type: 'multipart',
+          uploadId,
+          parts,
+          completedParts,
+          partSize: session.partSize,
+          partCount: session.partCount,
+          uploadMode: usesPresignedUrls(env, user) ? 'presigned' : 'proxy',
+          urlExpiresAt: presignedUrlExpiry(env, user),
+          filename
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          error: 'Failed to resume multipart upload',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    if (url.pathname.startsWith('/api/upload-part/')) {
+      if (request.method === 'OPTIONS') {
+        return new Response(null, { headers: corsHeaders });
+      }
+
+      if (request.method !== 'PUT') {
+        return new Response('Method not allowed', { 
+          status: 405,
+          headers: corsHeaders
+        });
+      }
+
+      const name = keyFromPath(url.pathname, '/api/upload-part/', userPrefix(user));
+      if (name === null) {
+        return invalidNameResponse(corsHeaders);
+      }
+
+      const key = toUserKey(user, name);
+      const uploadId = url.searchParams.get('uploadId');
+      const partNumber = parseInt(url.searchParams.get('partNumber') || '0', 10);
+
+      if (!uploadId || !partNumber) {
+        return new Response('Missing uploadId or partNumber', {
+          status: 400,
+          headers: corsHeaders
+        });
+      }
+
+      try {
+        const session = await getSession(env.BUCKET, uploadId);
+        if (!ownsSession(user, session, key) || partNumber < 1 || partNumber > session.partCount) {
+          return new Response('Upload session or part not found', {
+            status: 404,
+            headers: corsHeaders
+          });
+        }
+
+        const expectedSha256 = request.headers.get('X-Content-SHA256')?.toLowerCase();
+        if (expectedSha256 !== undefined && !isSha256Hex(expectedSha256)) {
+          return new Response('Invalid X-Content-SHA256 header', {
+            status: 400,
+            headers: corsHeaders
+          });
+        }
+
+        // Resume the multipart upload
+        const multipartUpload = await env.BUCKET.resumeMultipartUpload(key, uploadId);
+        
+        // Stream the part straight into R2 instead of buffering it; a part
+        // that doesn't match its checksum fails before R2 stores it
+        const body = fixedLengthBody(request, expectedSha256);
+        if (!body) {
+          return new Response('Content-Length is required', {
+            status: 411,
+            headers: corsHeaders
+          });
+        }
+
+        // Parts must add up to the size the upload declared, which is what
+        // the quota was checked against
+        const range = partByteRange(partNumber, session.partSize, session.fileSize);
+        if (body.length !== range.end - range.start) {
+          return new Response(JSON.stringify({
+            error: body.length > range.end - range.start ? 'Part too large' : 'Part too small',
+            details: `Part ${partNumber} of this upload must be ${range.end - range.start} bytes`
+          }), {
+            status: body.length > range.end - range.start ? 413 : 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        // Upload the part
+        let part: R2UploadedPart;
+        try {
+          part = await multipartUpload.uploadPart(
+            partNumber,
+            body.stream
+          );
+        } catch (error) {
+          // The client retries a corrupted part
+          const sha256 = await body.sha256.catch(() => null);
+          if (expectedSha256 !== undefined && sha256 !== null && sha256 !== expectedSha256) {
+            return new Response(JSON.stringify({
+              error: 'Checksum mismatch',
+              details: `Part ${partNumber} has SHA-256 ${sha256}, expected ${expectedSha256}`
+            }), {
+              status: 422,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            });
+          }
+          throw error;
+        }
+        const sha256 = await body.sha256;
+
+        await recordPart(env.BUCKET, uploadId, { partNumber, etag: part.etag });
+
+        return new Response(JSON.stringify({
+          success: true,
+          etag: part.etag,
+          sha256
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          error: 'Failed to upload part',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    if (url.pathname.startsWith('/api/files/')) {
+      if (request.method !== 'DELETE') {
+        return new Response('Method not allowed', {
+          status: 405,
+          headers: corsHeaders
+        });
+      }
+
+      const name = keyFromPath(url.pathname, '/api/files/', userPrefix(user));
+      if (name === null) {
+        return invalidNameResponse(corsHeaders);
+      }
+
+      try {
+        const key = toUserKey(user, name);
+        const object = await env.BUCKET.head(key);
+        if (!object) {
+          return new Response('File not found', {
+            status: 404,
+            headers: corsHeaders
+          });
+        }
+
+        await deleteObjects(env.BUCKET, [key]);
+        ctx.waitUntil(tryReleaseStorage(env, user.id, object.size));
+        ctx.waitUntil(emitEvent(env, user.id, {
+          event: 'file.deleted',
+          key: name,
+          size: object.size,
+          sha256: object.customMetadata?.sha256 ?? null,
+          actor: user.id
+        }));
+        ctx.waitUntil(recordAudit(env, request, user.id, { action: 'file.deleted', actor: user.id, key: name, bytes: object.size }));
+
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          error: 'Failed to delete file',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    if (url.pathname.startsWith('/api/metadata/')) {
+      if (request.method !== 'PUT') {
+        return new Response('Method not allowed', {
+          status: 405,
+          headers: corsHeaders
+        });
+      }
+
+      const name = keyFromPath(url.pathname, '/api/metadata/', userPrefix(user));
+      if (name === null) {
+        return invalidNameResponse(corsHeaders);
+      }
+
+      try {
+        // Fields left out of the body keep their current values
+        const body = await request.json() as { contentType?: string; description?: string; tags?: string[] };
+        const userMetadata = parseUserMetadata(body);
+        if (userMetadata === null || (body.contentType !== undefined && !isContentType(body.contentType))) {
+          return invalidMetadataResponse(corsHeaders);
+        }
+
+        const key = toUserKey(user, name);
+        const current = await env.BUCKET.head(key);
+        if (!current) {
+          return new Response('File not found', {
+            status: 404,
+            headers: corsHeaders
+          });
+        }
+
+        // Kept beside the object rather than rewriting it, so its ETag and
+        // any downloads in progress are unaffected
+        const effective = withSidecar(current, await getSidecar(env.BUCKET, current));
+        const updated = {
+          httpMetadata: { ...effective.httpMetadata, ...(body.contentType && { contentType: body.contentType }) },
+          customMetadata: applyUserMetadata(effective.customMetadata, userMetadata)
+        };
+        await writeSidecar(env.BUCKET, current, updated);
+
+        ctx.waitUntil(recordAudit(env, request, user.id, {
+          action: 'metadata.updated',
+          actor: user.id,
+          key: name,
+          bytes: current.size,
+          details: { fields: (['contentType', 'description', 'tags'] as const).filter((field) => body[field] !== undefined).join(',') }
+        }));
+
+        return new Response(JSON.stringify({
+          key: name,
+          ...updated
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          error: 'Failed to update metadata',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    if (url.pathname === '/api/move' || url.pathname === '/api/copy') {
+      const move = url.pathname === '/api/move';
+
+      if (request.method !== 'POST') {
+        return new Response('Method not allowed', {
+          status: 405,
+          headers: corsHeaders
+        });
+      }
+
+      try {
+        const body = await request.json() as { from: string; to: string; onConflict?: string };
+        const from = normalizeKey(body.from, userPrefix(user));
+        const requested = normalizeKey(body.to, userPrefix(user));
+        if (from === null || requested === null) {
+          return invalidNameResponse(corsHeaders);
+        }
+
+        const conflictPolicy = parseConflictPolicy(body.onConflict);
+        if (conflictPolicy === null || from === requested) {
+          return new Response(JSON.stringify({
+            error: 'Invalid request',
+            details: 'from and to must be different file names and onConflict fail, overwrite or rename'
+          }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        const to = await resolveConflict(env.BUCKET, userPrefix(user), requested, conflictPolicy);
+        if (to === null) {
+          return conflictResponse(corsHeaders, requested);
+        }
+
+        // A copy takes up space of its own
+        let reserved = 0;
+        if (!move) {
+          const source = await env.BUCKET.head(toUserKey(user, from));
+          const violation = source && await reserveStorage(env, user.id, limitsFor(env, user.id), source.size);
+          if (violation) {
+            return limitResponse(corsHeaders, violation);
+          }
+          reserved = source?.size ?? 0;
+        }
+
+        const overwrite = conflictPolicy === 'overwrite';
+        let object;
+        try {
+          object = move
+            ? await moveObject(env, toUserKey(user, from), toUserKey(user, to), overwrite)
+            : await copyObject(env, toUserKey(user, from), toUserKey(user, to), { overwrite });
+        } catch (error) {
+          await tryReleaseStorage(env, user.id, reserved);
+          throw error;
+        }
+        if (!object) {
+          await tryReleaseStorage(env, user.id, reserved);
+          return new Response('File not found', {
+            status: 404,
+            headers: corsHeaders
+          });
+        }
+
+        ctx.waitUntil(recordAudit(env, request, user.id, {
+          action: move ? 'file.moved' : 'file.copied',
+          actor: user.id,
+          key: from,
+          bytes: object.size,
+          details: { to }
+        }));
+
+        return new Response(JSON.stringify({ success: true, key: to, size: object.size }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      } catch (error: any) {
+        if (error instanceof ConflictError) {
+          return conflictResponse(corsHeaders, error.key);
+        }
+        return new Response(JSON.stringify({
+          error: move ? 'Failed to move file' : 'Failed to copy file',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    if (url.pathname === '/api/bulk-delete') {
+      if (request.method !== 'POST') {
+        return new Response('Method not allowed', {
+          status: 405,
+          headers: corsHeaders
+        });
+      }
+
+      try {
+        const body = await request.json() as { keys?: string[]; prefix?: string };
+        const keys = Array.isArray(body.keys) ? body.keys.map((key) => normalizeKey(key, userPrefix(user))) : null;
+        const prefix = typeof body.prefix === 'string' ? normalizePrefix(body.prefix, userPrefix(user)) : null;
+
+        // An empty prefix would wipe the user's whole folder, so it must be explicit
+        const validKeys = keys !== null && keys.every((key) => key !== null);
+        if (validKeys === (prefix !== null && prefix.length > 0)) {
+          return new Response(JSON.stringify({
+            error: 'Invalid request',
+            details: `Provide either a list of keys or a non-empty prefix. ${KEY_RULES}`
+          }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        const { deleted, bytes } = validKeys
+          ? await deleteObjects(env.BUCKET, keys!.map((key) => toUserKey(user, key!)))
+          : await deletePrefix(env.BUCKET, toUserKey(user, prefix!));
+        ctx.waitUntil(tryReleaseStorage(env, user.id, bytes));
+
+        // A folder is announced (and logged) as one event rather than one per file
+        const removed = validKeys ? keys! as string[] : [prefix!];
+        for (const key of removed) {
+          ctx.waitUntil(emitEvent(env, user.id, { event: 'file.deleted', key, size: null, sha256: null, actor: user.id }));
+          ctx.waitUntil(recordAudit(env, request, user.id, { action: 'file.deleted', actor: user.id, key, bytes: null }));
+        }
+
+        return new Response(JSON.stringify({ success: true, deleted }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          error: 'Failed to delete files',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    // Several files and folders as one ZIP, built on the fly. GET (repeated
+    // `key`, or `prefix`) lets the browser download it directly; POST takes
+    // the same as JSON for selections too long for a URL.
+    if (url.pathname === '/api/zip') {
+      if (request.method !== 'GET' && request.method !== 'POST') {
+        return new Response('Method not allowed', {
+          status: 405,
+          headers: corsHeaders
+        });
+      }
+
+      try {
+        const body = request.method === 'POST'
+          ? await request.json() as { keys?: string[]; prefix?: string; name?: string }
+          : {
+            keys: url.searchParams.has('key') ? url.searchParams.getAll('key') : undefined,
+            prefix: url.searchParams.get('prefix') ?? undefined,
+            name: url.searchParams.get('name') ?? undefined
+          };
+
+        // Selected folders end in '/' and are included with everything below them
+        const root = userPrefix(user);
+        const paths = Array.isArray(body.keys)
+          ? body.keys.map((key) => typeof key === 'string' && key.endsWith('/') ? normalizePrefix(key, root) : normalizeKey(key, root))
+          : typeof body.prefix === 'string' ? [normalizePrefix(body.prefix, root)] : null;
+
+        if (paths === null || paths.length === 0 || (body.keys !== undefined && body.prefix !== undefined)) {
+          return new Response(JSON.stringify({
+            error: 'Invalid request',
+            details: 'Provide either a non-empty list of keys or a prefix'
+          }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+        if (paths.some((path) => path === null)) {
+          return invalidNameResponse(corsHeaders);
+        }
+
+        const entries = await collectEntries(env.BUCKET, root, paths as string[]);
+        if (entries === null) {
+          return new Response('File not found', {
+            status: 404,
+            headers: corsHeaders
+          });
+        }
+        if (entries.length > MAX_ZIP_ENTRIES) {
+          return new Response(JSON.stringify({
+            error: 'Too many files',
+            details: `An archive holds at most ${MAX_ZIP_ENTRIES} files`
+          }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        const plan = planArchive(entries);
+        const filename = typeof body.name === 'string' && body.name.trim() ? body.name.trim().replace(/[\\/]/g, '_') : 'files.zip';
+
+        // Logged per selected file or folder, not per file in the archive
+        for (const path of paths as string[]) {
+          ctx.waitUntil(recordAudit(env, request, user.id, {
+            action: 'file.downloaded',
+            actor: user.id,
+            key: path,
+            bytes: null,
+            details: { archive: filename }
+          }));
+        }
+
+        return new Response(fixedLengthStream(zipStream(env.BUCKET, plan) as unknown as WorkersReadableStream, plan.length) as unknown as BodyInit, {
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/zip',
+            'Content-Length': plan.length.toString(),
+            'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`
+          }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          error: 'Failed to build archive',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    if (url.pathname === '/api/imports') {
+      try {
+        if (request.method === 'GET') {
+          const jobs = await listImports(env.BUCKET, user.id);
+          return new Response(JSON.stringify(jobs.map(summarizeImport)), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        if (request.method !== 'POST') {
+          return new Response('Method not allowed', {
+            status: 405,
+            headers: corsHeaders
+          });
+        }
+
+        // Without a queue the job would run in the background of this
+        // request, which is cut off long before a big file is fetched
+        if (!env.IMPORT_QUEUE) {
+          return new Response(JSON.stringify({
+            error: 'Imports unavailable',
+            details: 'Importing from a URL needs the IMPORT_QUEUE binding'
+          }), {
+            status: 503,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        const body = await request.json() as {
+          url?: string;
+          headers?: Record<string, string>;
+          key?: string;
+          onConflict?: string;
+          description?: string;
+          tags?: string[];
+        };
+
+        const source = parseSourceUrl(body.url);
+        const headers = parseSourceHeaders(body.headers);
+        if (source === null || headers === null) {
+          return new Response(JSON.stringify({
+            error: 'Invalid request',
+            details: 'url must be an http(s) URL and headers an object of header names to string values'
+          }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        if (!isAllowedSource(env, source)) {
+          return new Response(JSON.stringify({
+            error: 'Invalid request',
+            details: `${source.host} is a private address`
+          }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        // Defaults to the last segment of the source URL
+        const requestedName = normalizeKey(body.key || nameFromUrl(source), userPrefix(user));
+        if (requestedName === null) {
+          return invalidNameResponse(corsHeaders);
+        }
+
+        const conflictPolicy = parseConflictPolicy(body.onConflict);
+        if (conflictPolicy === null) {
+          return new Response(JSON.stringify({
+            error: 'Invalid request',
+            details: 'onConflict must be fail, overwrite or rename'
+          }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        const userMetadata = parseUserMetadata(body);
+        if (userMetadata === null) {
+          return invalidMetadataResponse(corsHeaders);
+        }
+
+        const name = await resolveConflict(env.BUCKET, userPrefix(user), requestedName, conflictPolicy);
+        if (name === null) {
+          return conflictResponse(corsHeaders, requestedName);
+        }
+
+        const job = await createImport(env.BUCKET, {
+          owner: user.id,
+          key: toUserKey(user, name),
+          name,
+          url: source.toString(),
+          headers,
+          conflictPolicy,
+          userMetadata
+        });
+        await startImport(env, job);
+
+        return new Response(JSON.stringify(summarizeImport(job)), {
+          status: 202,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          error: 'Failed to import file',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    if (url.pathname.startsWith('/api/imports/')) {
+      try {
+        const job = await getImport(env.BUCKET, user.id, url.pathname.replace('/api/imports/', ''));
+        if (!job) {
+          return new Response('Import not found', {
+            status: 404,
+            headers: corsHeaders
+          });
+        }
+
+        if (request.method === 'GET') {
+          return new Response(JSON.stringify(summarizeImport(job)), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        if (request.method !== 'DELETE') {
+          return new Response('Method not allowed', {
+            status: 405,
+            headers: corsHeaders
+          });
+        }
+
+        // Cancels a running import; a finished one is removed from the list
+        if (isActive(job)) {
+          await cancelImport(env, job);
+          ctx.waitUntil(recordAudit(env, request, user.id, { action: 'upload.aborted', actor: user.id, key: job.name, bytes: job.totalBytes }));
+        } else {
+          await deleteImport(env.BUCKET, job);
+        }
+
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          error: 'Failed to update import',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    // The user's audit log, newest first. Filters: key (a folder ending in '/'
+    // matches everything below it), actor, action and a from/to time range.
+    // format=csv or ndjson downloads every match instead of one page;
+    // admins can pass owner to read another user's log.
+    if (url.pathname === '/api/audit') {
+      if (request.method !== 'GET') {
+        return new Response('Method not allowed', {
+          status: 405,
+          headers: corsHeaders
+        });
+      }
+
+      // ISO dates or milliseconds since the epoch
+      const parseTime = (value: string | null) => {
+        if (value === null || value === '') return undefined;
+        const time = /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+        return Number.isNaN(time) ? null : time;
+      };
+      const from = parseTime(url.searchParams.get('from'));
+      const to = parseTime(url.searchParams.get('to'));
+      const limit = parseInt(url.searchParams.get('limit') || '100', 10);
+      const action = url.searchParams.get('action') || undefined;
+      const format = url.searchParams.get('format') || 'json';
+      const key = url.searchParams.get('key') || undefined;
+
+      if (from === null || to === null || !(limit > 0 && limit <= MAX_AUDIT_LIMIT)
+        || (action !== undefined && !isAuditAction(action)) || !['json', 'csv', 'ndjson'].includes(format)) {
+        return new Response(JSON.stringify({
+          error: 'Invalid request',
+          details: `from and to must be dates or timestamps, limit between 1 and ${MAX_AUDIT_LIMIT}, action a known action and format json, csv or ndjson`
+        }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      const owner = url.searchParams.get('owner') || user.id;
+      if (owner !== user.id && !isAdmin(env, user)) {
+        return new Response(JSON.stringify({
+          error: 'Forbidden',
+          details: 'Only admins can read other users\' audit logs'
+        }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      try {
+        const query = { key, actor: url.searchParams.get('actor') || undefined, action: action as AuditAction | undefined, from, to };
+
+        if (format !== 'json') {
+          return new Response(exportAudit(env.BUCKET, owner, query, format as 'csv' | 'ndjson') as unknown as BodyInit, {
+            headers: {
+              ...corsHeaders,
+              'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson',
+              'Content-Disposition': `attachment; filename="audit-log.${format}"`
+            }
+          });
+        }
+
+        const page = await queryAudit(env.BUCKET, owner, { ...query, limit, cursor: url.searchParams.get('cursor') || undefined });
+        return new Response(JSON.stringify(page), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          error: 'Failed to read audit log',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         });
       }
+    }
 
-      // Use multipart upload for files larger than chunk size
-      if (fileSize > CHUNK_SIZE) {
-        // Calculate number of parts
-        const partCount = Math.ceil(fileSize / CHUNK_SIZE);
-        
-        // Validate chunk size
-        if (CHUNK_SIZE < MIN_PART_SIZE) {
+    if (url.pathname === '/api/webhooks') {
+      try {
+        if (request.method === 'GET') {
+          const webhooks = await listWebhooks(env.BUCKET, user.id);
+          return new Response(JSON.stringify(webhooks.map(summarizeWebhook)), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        if (request.method !== 'POST') {
+          return new Response('Method not allowed', {
+            status: 405,
+            headers: corsHeaders
+          });
+        }
+
+        const body = await request.json() as { url?: string; events?: string[]; secret?: string };
+        const webhookUrl = parseWebhookUrl(body.url);
+        const events = parseWebhookEvents(body.events);
+        const validSecret = body.secret === undefined || body.secret === '' || (typeof body.secret === 'string' && body.secret.length >= 16 && body.secret.length <= 256);
+        if (webhookUrl === null || events === null || !validSecret) {
           return new Response(JSON.stringify({
-            error: 'Invalid chunk size',
-            details: `Chunk size must be at least ${MIN_PART_SIZE} bytes (5MB)`
+            error: 'Invalid request',
+            details: 'url must be an http(s) URL, events a list of upload.completed, file.downloaded and file.deleted, '
+              + 'and secret (optional) 16 to 256 characters'
           }), {
             status: 400,
             headers: { ...corsHeaders, 'Content-Type': 'application/json' }
           });
         }
 
-        // Validate against R2 limits
-        if (partCount > MAX_PARTS) {
+        if (!isAllowedWebhookUrl(env, webhookUrl)) {
           return new Response(JSON.stringify({
-            error: 'File too large',
-            details: `File would require ${partCount} parts, but R2 only supports ${MAX_PARTS} parts maximum`
+            error: 'Invalid request',
+            details: `${new URL(webhookUrl).host} is a private address`
           }), {
             status: 400,
             headers: { ...corsHeaders, 'Content-Type': 'application/json' }
           });
         }
-        // Create multipart upload with CORS headers
-        console.log('Creating multipart upload for:', filename);
-        const multipartUpload = await env.BUCKET.createMultipartUpload(filename, {
-          customMetadata: {
-            'upload-type': 'multipart'
-          },
-          httpMetadata: {
-            contentType: 'application/octet-stream',
-            cacheControl: 'no-cache'
-          }
-        });
-        console.log('Multipart upload created with ID:', multipartUpload.uploadId);
-        const uploadId = multipartUpload.uploadId;
-        const parts = [];
-        
-        for (let partNumber = 1; partNumber <= partCount; partNumber++) {
-          const uploadUrl = await getUploadUrl(request, env, filename, uploadId, partNumber);
-          parts.push({ url: uploadUrl, partNumber });
+
+        const webhook = await createWebhook(env.BUCKET, { owner: user.id, url: webhookUrl, events, secret: body.secret });
+        if (!webhook) {
+          return new Response(JSON.stringify({
+            error: 'Too many webhooks',
+            details: 'Delete a webhook before adding another'
+          }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
         }
 
-        const response = {
-          type: 'multipart',
-          uploadId,
-          parts,
-          filename
-        };
-        console.log('Sending response:', response);
-        return new Response(JSON.stringify(response), {
+        // The only time the secret is returned
+        return new Response(JSON.stringify({ ...summarizeWebhook(webhook), secret: webhook.secret }), {
+          status: 201,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          error: 'Failed to manage webhooks',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         });
       }
-
-      // For smaller files, return a direct upload URL
-      return new Response(JSON.stringify({ 
-        type: 'simple',
-        uploadUrl: '/api/upload',
-        filename
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
     }
 
-    if (url.pathname === '/api/list-files') {
-      const files = await env.BUCKET.list();
-      return new Response(JSON.stringify(files.objects), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
-    }
+    if (url.pathname.startsWith('/api/webhooks/')) {
+      const [id, subresource] = url.pathname.replace('/api/webhooks/', '').split('/');
 
-    if (url.pathname === '/api/upload') {
-      if (request.method !== 'POST') {
-        return new Response('Method not allowed', { 
+      try {
+        const webhook = await getWebhook(env.BUCKET, user.id, id);
+        if (!webhook) {
+          return new Response('Webhook not found', {
+            status: 404,
+            headers: corsHeaders
+          });
+        }
+
+        if (subresource === 'deliveries' && request.method === 'GET') {
+          return new Response(JSON.stringify(await listDeliveries(env.BUCKET, webhook)), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        if (subresource === undefined && request.method === 'DELETE') {
+          await deleteWebhook(env.BUCKET, webhook);
+          return new Response(JSON.stringify({ success: true }), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        return new Response('Method not allowed', {
           status: 405,
           headers: corsHeaders
         });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          error: 'Failed to manage webhook',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
       }
+    }
 
-      const formData = await request.formData();
-      const file = formData.get('file') as File;
-      if (!file) {
-        return new Response('No file provided', { 
-          status: 400,
-          headers: corsHeaders
+    // File request links: upload-only links into one of the user's folders
+    if (url.pathname === '/api/file-requests') {
+      try {
+        if (request.method === 'GET') {
+          const fileRequests = await listFileRequests(env.BUCKET, user.id);
+          return new Response(JSON.stringify(await Promise.all(
+            fileRequests.map((fileRequest) => summarizeFileRequest(env, url.origin, fileRequest))
+          )), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        if (request.method !== 'POST') {
+          return new Response('Method not allowed', {
+            status: 405,
+            headers: corsHeaders
+          });
+        }
+
+        const { folder, expiresIn, maxBytes, maxFiles, note } = await request.json() as {
+          folder?: string;
+          expiresIn: number;
+          maxBytes?: number | null;
+          maxFiles?: number | null;
+          note?: string;
+        };
+
+        const prefix = normalizePrefix(folder, userPrefix(user));
+        const isLimit = (value: unknown) => value == null || (Number.isSafeInteger(value) && (value as number) > 0);
+        if (prefix === null || !Number.isInteger(expiresIn) || expiresIn <= 0 || expiresIn > MAX_FILE_REQUEST_TTL
+          || !isLimit(maxBytes) || !isLimit(maxFiles)
+          || (note !== undefined && (typeof note !== 'string' || note.length > MAX_NOTE_LENGTH))) {
+          return new Response(JSON.stringify({
+            error: 'Invalid request',
+            details: `folder must be a valid folder name, expiresIn between 1 and ${MAX_FILE_REQUEST_TTL} seconds, `
+              + `maxBytes and maxFiles positive integers and note at most ${MAX_NOTE_LENGTH} characters`
+          }), {
+            status: 400,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        const fileRequest = await createFileRequest(env, {
+          owner: user.id,
+          folder: prefix,
+          note: note?.trim() || null,
+          expiresAt: Date.now() + expiresIn * 1000,
+          maxBytes: maxBytes ?? null,
+          maxFiles: maxFiles ?? null
         });
-      }
 
-      // Store the file in R2
-      await env.BUCKET.put(file.name, await file.arrayBuffer());
-      
-      return new Response(JSON.stringify({ success: true }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
+        return new Response(JSON.stringify(await summarizeFileRequest(env, url.origin, fileRequest)), {
+          status: 201,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          error: 'Failed to manage file requests',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
     }
 
-    if (url.pathname === '/api/abort-multipart') {
-      const { filename, uploadId } = await request.json();
-
+    // GET lists the files that came in through the link; DELETE closes it
+    if (url.pathname.startsWith('/api/file-requests/')) {
       try {
-        // Abort the multipart upload
-        const upload = await env.BUCKET.resumeMultipartUpload(filename, uploadId);
-        await upload.abort();
+        const fileRequest = await getFileRequest(env.BUCKET, url.pathname.replace('/api/file-requests/', ''));
+        if (!fileRequest || fileRequest.owner !== user.id) {
+          return new Response('File request not found', {
+            status: 404,
+            headers: corsHeaders
+          });
+        }
+
+        if (request.method === 'GET') {
+          // Summarized before marking it viewed, so the owner still sees
+          // which files are new this time
+          const summary = await summarizeFileRequest(env, url.origin, fileRequest);
+          const files = await listReceivedFiles(env.BUCKET, fileRequest);
+          await markFileRequestViewed(env.BUCKET, fileRequest);
+          return new Response(JSON.stringify({ ...summary, files }), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        if (request.method !== 'DELETE') {
+          return new Response('Method not allowed', {
+            status: 405,
+            headers: corsHeaders
+          });
+        }
+
+        await deleteFileRequest(env.BUCKET, fileRequest);
 
         return new Response(JSON.stringify({ success: true }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         });
       } catch (error: any) {
-        return new Response(JSON.stringify({ 
-          error: 'Failed to abort multipart upload',
+        return new Response(JSON.stringify({
+          error: 'Failed to manage file request',
           details: error.message || 'Unknown error'
-        }), { 
+        }), {
           status: 500,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         });
       }
     }
 
-    if (url.pathname === '/api/complete-multipart') {
+    if (url.pathname === '/api/shares') {
       try {
-        const { filename, uploadId, parts } = await request.json();
-        
-        if (!filename || !uploadId || !Array.isArray(parts)) {
+        if (request.method === 'GET') {
+          // Optionally narrowed to the links for one file
+          const name = url.searchParams.get('key');
+          const shares = (await listShares(env.BUCKET, user.id))
+            .filter((share) => name === null || share.key === toUserKey(user, name));
+
+          return new Response(JSON.stringify(await Promise.all(
+            shares.map((share) => summarizeShare(env, url.origin, share))
+          )), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          });
+        }
+
+        if (request.method !== 'POST') {
+          return new Response('Method not allowed', {
+            status: 405,
+            headers: corsHeaders
+          });
+        }
+
+        const { key, expiresIn, maxDownloads, password } = await request.json() as {
+          key: string;
+          expiresIn: number;
+          maxDownloads?: number | null;
+          password?: string;
+        };
+
+        const name = normalizeKey(key, userPrefix(user));
+        if (!name || !Number.isInteger(expiresIn) || expiresIn <= 0 || expiresIn > MAX_SHARE_TTL
+          || (maxDownloads != null && (!Number.isInteger(maxDownloads) || maxDownloads <= 0))) {
           return new Response(JSON.stringify({
             error: 'Invalid request',
-            details: 'Missing required fields'
+            details: `key is required, expiresIn must be between 1 and ${MAX_SHARE_TTL} seconds and maxDownloads a positive integer`
           }), {
             status: 400,
             headers: { ...corsHeaders, 'Content-Type': 'application/json' }
           });
         }
 
-        // Sort parts by part number to ensure correct order
-        const sortedParts = parts.sort((a, b) => a.partNumber - b.partNumber);
-        
-        // Complete the multipart upload
-        const upload = await env.BUCKET.resumeMultipartUpload(filename, uploadId);
-        await upload.complete(sortedParts);
+        if (!(await env.BUCKET.head(toUserKey(user, name)))) {
+          return new Response('File not found', {
+            status: 404,
+            headers: corsHeaders
+          });
+        }
 
-        return new Response(JSON.stringify({ success: true }), {
+        const share = await createShare(env, {
+          owner: user.id,
+          key: toUserKey(user, name),
+          filename: name.split('/').pop() || name,
+          expiresAt: Date.now() + expiresIn * 1000,
+          maxDownloads: maxDownloads ?? null,
+          password: password || undefined
+        });
+
+        return new Response(JSON.stringify(await summarizeShare(env, url.origin, share)), {
+          status: 201,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         });
       } catch (error: any) {
-        return new Response(JSON.stringify({ 
-          error: 'Failed to complete multipart upload',
+        return new Response(JSON.stringify({
+          error: 'Failed to manage share links',
           details: error.message || 'Unknown error'
-        }), { 
+        }), {
           status: 500,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         });
       }
     }
 
-    if (url.pathname.startsWith('/api/upload-part/')) {
-      if (request.method === 'OPTIONS') {
-        return new Response(null, { headers: corsHeaders });
-      }
-
-      if (request.method !== 'PUT') {
-        return new Response('Method not allowed', { 
+    if (url.pathname.startsWith('/api/shares/')) {
+      if (request.method !== 'DELETE') {
+        return new Response('Method not allowed', {
           status: 405,
           headers: corsHeaders
         });
       }
 
-      const key = url.pathname.replace('/api/upload-part/', '');
-      const uploadId = url.searchParams.get('uploadId');
-      const partNumber = parseInt(url.searchParams.get('partNumber') || '0', 10);
+      try {
+        const share = await getShare(env.BUCKET, url.pathname.replace('/api/shares/', ''));
+        if (!share || share.owner !== user.id) {
+          return new Response('Share link not found', {
+            status: 404,
+            headers: corsHeaders
+          });
+        }
 
-      if (!uploadId || !partNumber) {
-        return new Response('Missing uploadId or partNumber', {
-          status: 400,
-          headers: corsHeaders
+        await revokeShare(env.BUCKET, share);
+
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          error: 'Failed to revoke share link',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    if (url.pathname.startsWith('/api/download-url/')) {
+      const name = keyFromPath(url.pathname, '/api/download-url/', userPrefix(user));
+      if (name === null) {
+        return invalidNameResponse(corsHeaders);
+      }
+      const key = toUserKey(user, name);
+
+      // Proxy mode keeps downloads on the Worker route
+      if (!usePresignedUploads(env)) {
+        return new Response(JSON.stringify({
+          url: `/api/download/${encodeURIComponent(name)}`,
+          expiresAt: null
+        }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         });
       }
 
       try {
-        // Resume the multipart upload
-        const multipartUpload = await env.BUCKET.resumeMultipartUpload(key, uploadId);
-        
-        // Upload the part directly using the worker
-        if (!request.body) {
-          throw new Error('Request body is required');
-        }
-        
-        // Read the request body into a buffer
-        const reader = request.body.getReader();
-        const chunks: Uint8Array[] = [];
-        
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          chunks.push(value);
-        }
-        
-        // Concatenate chunks into a single buffer
-        const totalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
-        const buffer = new Uint8Array(totalLength);
-        let offset = 0;
-        for (const chunk of chunks) {
-          buffer.set(chunk, offset);
-          offset += chunk.length;
+        const object = await env.BUCKET.head(key);
+        if (!object) {
+          return new Response('File not found', {
+            status: 404,
+            headers: corsHeaders
+          });
         }
-        
-        // Upload the part
-        const part = await multipartUpload.uploadPart(
-          partNumber,
-          buffer
-        );
+
+        // The bytes go straight from R2, so handing out the URL is what gets
+        // logged, counted and announced
+        ctx.waitUntil(recordAudit(env, request, user.id, {
+          action: 'file.downloaded',
+          actor: user.id,
+          key: name,
+          bytes: object.size,
+          details: { via: 'presigned-url' }
+        }));
+        ctx.waitUntil(recordDownload(env, object));
+        ctx.waitUntil(emitEvent(env, user.id, {
+          event: 'file.downloaded',
+          key: name,
+          size: object.size,
+          sha256: object.customMetadata?.sha256 ?? null,
+          actor: user.id
+        }));
 
         return new Response(JSON.stringify({
-          success: true,
-          etag: part.etag
+          url: await presignGetObject(env, key, name),
+          expiresAt: presignedUrlExpiry(env, user)
         }), {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         });
       } catch (error: any) {
         return new Response(JSON.stringify({
-          error: 'Failed to upload part',
+          error: 'Failed to create download URL',
           details: error.message || 'Unknown error'
         }), {
           status: 500,
@@ -291,31 +2595,88 @@ export default {
     }
 
     if (url.pathname.startsWith('/api/download/')) {
-      const key = decodeURIComponent(url.pathname.replace('/api/download/', ''));
-      
+      const name = keyFromPath(url.pathname, '/api/download/', userPrefix(user));
+      if (name === null) {
+        return invalidNameResponse(corsHeaders);
+      }
+
+      if (request.method !== 'GET' && request.method !== 'HEAD') {
+        return new Response('Method not allowed', {
+          status: 405,
+          headers: corsHeaders
+        });
+      }
+
       try {
-        const object = await env.BUCKET.get(key);
-        
-        if (!object) {
-          return new Response('File not found', {
+        // `?inline=1` is for previews: shown in the page rather than saved
+        const inline = url.searchParams.get('inline') === '1';
+        return await serveObject(request, env.BUCKET, toUserKey(user, name), corsHeaders, {
+          filename: name,
+          inline,
+          onServe: (object, range) => {
+            // Previews are logged too, but don't count as downloads
+            ctx.waitUntil(recordAudit(env, request, user.id, {
+              action: 'file.downloaded',
+              actor: user.id,
+              key: name,
+              bytes: range ? range.length : object.size,
+              range: describeRange(range, object.size),
+              ...(inline && { details: { disposition: 'inline' } })
+            }));
+            if (inline || !startsDownload(request)) return;
+            ctx.waitUntil(recordDownload(env, object));
+            ctx.waitUntil(emitEvent(env, user.id, {
+              event: 'file.downloaded',
+              key: name,
+              size: object.size,
+              sha256: object.customMetadata?.sha256 ?? null,
+              actor: user.id
+            }));
+          }
+        });
+      } catch (error: any) {
+        return new Response(JSON.stringify({
+          error: 'Failed to download file',
+          details: error.message || 'Unknown error'
+        }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    if (url.pathname.startsWith('/api/thumbnail/')) {
+      const name = keyFromPath(url.pathname, '/api/thumbnail/', userPrefix(user));
+      if (name === null) {
+        return invalidNameResponse(corsHeaders);
+      }
+
+      try {
+        const thumbnail = await getThumbnail(env, toUserKey(user, name));
+        if (!thumbnail) {
+          return new Response('No thumbnail available', {
             status: 404,
             headers: corsHeaders
           });
         }
 
-        const headers = new Headers(corsHeaders);
-        headers.set('Content-Type', object.httpMetadata?.contentType || 'application/octet-stream');
-        headers.set('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(key)}`);
-        headers.set('Content-Length', object.size.toString());
-        
-        // Stream the response
-        return new Response(object.body as BodyInit, { 
-          headers,
-          status: 200
+        // Tied to the source's ETag, so a replaced image is refetched
+        const etag = `"${thumbnail.etag}"`;
+        if (request.headers.get('If-None-Match') === etag) {
+          return new Response(null, { status: 304, headers: { ...corsHeaders, ETag: etag } });
+        }
+
+        return new Response(thumbnail.bytes, {
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'image/webp',
+            'Cache-Control': 'private, no-cache',
+            ETag: etag
+          }
         });
       } catch (error: any) {
         return new Response(JSON.stringify({
-          error: 'Failed to download file',
+          error: 'Failed to load thumbnail',
           details: error.message || 'Unknown error'
         }), {
           status: 500,
@@ -326,4 +2687,36 @@ export default {
 
     return new Response('Not found', { status: 404 });
   },
+
+  // Cron trigger: abort multipart uploads that were abandoned mid-way, drop
+  // expired tus uploads and old audit log entries, pick up URL imports that
+  // were cut off and recount storage usage
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(cleanupStaleUploads(env));
+    ctx.waitUntil(cleanupExpiredTusUploads(env));
+    ctx.waitUntil(cleanupAuditLog(env));
+    ctx.waitUntil(recoverStalledImports(env));
+    ctx.waitUntil(recountUsage(env));
+  },
+
+  // Consumer for both queues: URL imports (IMPORT_QUEUE) and webhook
+  // deliveries (WEBHOOK_QUEUE), told apart by the message body
+  async queue(batch: MessageBatch<ImportMessage | WebhookMessage>, env: Env): Promise<void> {
+    for (const message of batch.messages) {
+      const body = message.body;
+      if (!isWebhookMessage(body)) {
+        await runImport(env, body.owner, body.id);
+        message.ack();
+        continue;
+      }
+
+      // The subscription may have been deleted since the event
+      const webhook = await getWebhook(env.BUCKET, body.owner, body.webhookId);
+      if (!webhook || await deliver(env, webhook, body.payload, message.attempts) || message.attempts >= MAX_DELIVERY_ATTEMPTS) {
+        message.ack();
+      } else {
+        message.retry({ delaySeconds: retryDelay(message.attempts) });
+      }
+    }
+  },
 };
\ No newline at end of file
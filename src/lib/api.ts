@@ -0,0 +1,12 @@
+// All calls to the worker go through here so the session cookie is always
+// sent and an expired session sends the app back to the login screen.
+
+export const AUTH_REQUIRED_EVENT = 'auth-required';
+
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(input, { credentials: 'same-origin', ...init });
+  if (response.status === 401) {
+    window.dispatchEvent(new Event(AUTH_REQUIRED_EVENT));
+  }
+  return response;
+}
@@ -0,0 +1,182 @@
+// Streaming downloads that write straight to disk and pick up where they left
+// off (via Range requests) when the connection drops.
+
+import { backoffDelay } from './retry';
+
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+}
+
+type SaveFilePicker = (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+
+export interface DownloadOptions {
+  signal?: AbortSignal;
+  // Sent with every request, e.g. a share link's password
+  headers?: Record<string, string>;
+  maxResumes?: number;
+  onProgress?: (loaded: number, total: number | null) => void;
+}
+
+// Where a download's bytes go: a file picked with the File System Access API,
+// memory, or a decrypting sink in front of either
+export interface DownloadSink {
+  write(data: Uint8Array<ArrayBuffer>): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+export function supportsFileSystemAccess(): boolean {
+  return typeof (window as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker === 'function';
+}
+
+export async function pickSaveFile(suggestedName: string): Promise<FileSystemWritableFileStream> {
+  const picker = (window as unknown as { showSaveFilePicker: SaveFilePicker }).showSaveFilePicker;
+  const handle = await picker({ suggestedName });
+  return await handle.createWritable();
+}
+
+// Let the browser's own download manager handle the attachment response
+export function navigateToDownload(url: string, filename: string): void {
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.style.display = 'none';
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+}
+
+// Largest file collected in memory; beyond this a tab is likely to run out
+const MAX_MEMORY_DOWNLOAD = 512 * 1024 * 1024;
+
+function tooLargeForMemory(filename: string): Error {
+  return new Error(`${filename} is too large to save from this browser; use one that can write files directly to disk, such as Chrome or Edge`);
+}
+
+// Without the File System Access API, content the page produces itself (such
+// as a decrypted file) is collected in memory and saved once complete, which
+// only works up to MAX_MEMORY_DOWNLOAD
+export class MemorySink implements DownloadSink {
+  private chunks: Uint8Array<ArrayBuffer>[] = [];
+  private size = 0;
+
+  constructor(private filename: string) {}
+
+  async write(data: Uint8Array<ArrayBuffer>): Promise<void> {
+    this.size += data.length;
+    if (this.size > MAX_MEMORY_DOWNLOAD) {
+      this.chunks = [];
+      throw tooLargeForMemory(this.filename);
+    }
+    this.chunks.push(data);
+  }
+
+  async close(): Promise<void> {
+    const url = URL.createObjectURL(new Blob(this.chunks));
+    this.chunks = [];
+    navigateToDownload(url, this.filename);
+    // Give the browser a moment to start saving before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+  }
+
+  async abort(): Promise<void> {
+    this.chunks = [];
+  }
+}
+
+// Where to save `size` bytes the page produces: a file the user picks, or
+// memory when the browser can't write files and the content is small enough.
+// Call while the click still counts as a user gesture.
+export async function openSaveSink(filename: string, size: number): Promise<DownloadSink> {
+  if (supportsFileSystemAccess()) {
+    return pickSaveFile(filename);
+  }
+  if (size > MAX_MEMORY_DOWNLOAD) {
+    throw tooLargeForMemory(filename);
+  }
+  return new MemorySink(filename);
+}
+
+function totalFromResponse(response: Response): number | null {
+  const contentRange = response.headers.get('Content-Range');
+  const match = contentRange?.match(/\/(\d+)$/);
+  if (match) return parseInt(match[1], 10);
+
+  const contentLength = response.headers.get('Content-Length');
+  return contentLength ? parseInt(contentLength, 10) : null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Stream `url` into `sink`. If the body breaks part-way, the download is
+// resumed from the last written byte, pinned to the original ETag via If-Range
+// so a file replaced in the meantime is never stitched together.
+export async function streamDownload(url: string, sink: DownloadSink, options: DownloadOptions = {}): Promise<void> {
+  const { signal, maxResumes = 5, onProgress } = options;
+  let loaded = 0;
+  let total: number | null = null;
+  let etag: string | null = null;
+  let resumes = 0;
+  let lastReport = 0;
+
+  try {
+    while (total === null || loaded < total) {
+      try {
+        const headers: Record<string, string> = { ...options.headers };
+        if (loaded > 0) {
+          headers['Range'] = `bytes=${loaded}-`;
+          if (etag) headers['If-Range'] = etag;
+        }
+
+        const response = await fetch(url, { headers, signal });
+        if (!response.ok) {
+          throw new Error(`Download failed (Status: ${response.status})`);
+        }
+        if (loaded > 0 && response.status !== 206) {
+          throw new Error('File changed on the server; download cannot be resumed');
+        }
+
+        total = totalFromResponse(response);
+        etag = etag ?? response.headers.get('ETag');
+
+        const reader = response.body?.getReader();
+        if (!reader) {
+          throw new Error('Failed to initialize download stream');
+        }
+
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          await sink.write(value);
+          loaded += value.length;
+
+          // Throttle progress callbacks; large files deliver hundreds of thousands of chunks
+          if (Date.now() - lastReport >= 250 || loaded === total) {
+            lastReport = Date.now();
+            onProgress?.(loaded, total);
+          }
+        }
+
+        // Without a known length a clean end of stream is the end of the file
+        if (total === null) break;
+        if (loaded < total) {
+          throw new TypeError('Connection closed before the download finished');
+        }
+      } catch (error) {
+        if (signal?.aborted || !(error instanceof TypeError) || resumes >= maxResumes) {
+          throw error;
+        }
+        resumes++;
+        console.warn(`Download interrupted at ${loaded} bytes, resuming (attempt ${resumes}):`, error.message);
+        await sleep(backoffDelay(resumes));
+      }
+    }
+
+    await sink.close();
+  } catch (error) {
+    await sink.abort().catch(() => undefined);
+    throw error;
+  }
+}
@@ -0,0 +1,55 @@
+// Turn a drop or a folder pick into files with their paths relative to what
+// was selected, so folder structure survives as key prefixes.
+
+export interface SelectedFile {
+  file: File;
+  // e.g. "build/assets/app.js"; just the file name for loose files
+  path: string;
+}
+
+function readEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+function entryFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+async function walk(entry: FileSystemEntry, files: SelectedFile[]): Promise<void> {
+  if (entry.isFile) {
+    files.push({ file: await entryFile(entry as FileSystemFileEntry), path: entry.fullPath.replace(/^\//, '') });
+    return;
+  }
+
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns directories in batches until it returns none
+    for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+      for (const child of batch) {
+        await walk(child, files);
+      }
+    }
+  }
+}
+
+export async function filesFromDrop(dataTransfer: DataTransfer): Promise<SelectedFile[]> {
+  // Entries must be taken synchronously, before the drop event finishes
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.webkitGetAsEntry());
+
+  if (entries.every((entry) => entry === null)) {
+    return Array.from(dataTransfer.files).map((file) => ({ file, path: file.name }));
+  }
+
+  const files: SelectedFile[] = [];
+  for (const entry of entries) {
+    if (entry) await walk(entry, files);
+  }
+  return files;
+}
+
+// Files from <input type="file" multiple> or a webkitdirectory picker
+export function filesFromInput(list: FileList): SelectedFile[] {
+  return Array.from(list).map((file) => ({ file, path: file.webkitRelativePath || file.name }));
+}
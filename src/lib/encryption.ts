@@ -0,0 +1,238 @@
+// End-to-end encryption of uploads. A file is cut into chunks that line up
+// with the parts of its upload, and every chunk is sealed on its own with
+// AES-256-GCM, so parts are still uploaded in parallel, retried and resumed
+// independently, and a download is decrypted as it streams in. The Worker
+// only stores the parameters below; keys never leave the browser.
+//
+// Keys are imported and derived as non-extractable CryptoKeys, so the one
+// kept in IndexedDB to resume an upload can encrypt and decrypt but can't be
+// read back out. Only a share link needs the key's bytes, and derives its own.
+//
+// Chunk i is sealed with the nonce <8-byte random prefix><i as a 32-bit
+// big-endian counter> and one byte of additional data that is 1 for the last
+// chunk and 0 otherwise, so chunks can't be reordered and a file can't be cut
+// short at a chunk boundary without failing to decrypt.
+
+import type { DownloadSink } from './download';
+
+// Bytes GCM adds to every chunk
+export const TAG_LENGTH = 16;
+
+const PBKDF2_ITERATIONS = 600000;
+const DEFAULT_CHUNK_SIZE = 16 * 1024 * 1024;
+// R2 multipart limits; a chunk plus its tag is one part
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+const MAX_PARTS = 10000;
+const MB = 1024 * 1024;
+
+export interface EncryptionParams {
+  v: 1;
+  alg: 'AES-256-GCM';
+  // 'none' means a random key the user keeps; otherwise derived from a passphrase
+  kdf: 'PBKDF2-SHA256' | 'none';
+  iterations?: number;
+  salt?: string;
+  nonceScheme: 'prefix64-counter32';
+  noncePrefix: string;
+  // Plaintext bytes per chunk, and of the whole file
+  chunkSize: number;
+  size: number;
+}
+
+export interface FileEncryption {
+  key: CryptoKey;
+  params: EncryptionParams;
+}
+
+// A passphrase, or a generated key as base64url (what share links carry)
+export type KeySource = { passphrase: string } | { rawKey: string };
+
+export function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const base64 = text.trim().replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), (char) => char.charCodeAt(0));
+}
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+// A new random key, to be shown to the user once
+export function generateKey(): string {
+  return toBase64Url(randomBytes(32));
+}
+
+// Parts must be exactly a chunk plus its tag, so leave the Worker no reason
+// to pick a larger part size for very big files
+function chunkSizeFor(size: number, preferred = DEFAULT_CHUNK_SIZE): number {
+  const smallestAllowed = Math.ceil((size / MAX_PARTS + TAG_LENGTH) / MB) * MB;
+  return Math.max(preferred, MIN_PART_SIZE, smallestAllowed);
+}
+
+export function chunkCount(params: Pick<EncryptionParams, 'chunkSize' | 'size'>): number {
+  // An empty file is still one (empty) chunk, so it has a tag to check
+  return Math.max(1, Math.ceil(params.size / params.chunkSize));
+}
+
+// Size of what is stored: every chunk grows by its tag
+export function encryptedSize(params: Pick<EncryptionParams, 'chunkSize' | 'size'>): number {
+  return params.size + TAG_LENGTH * chunkCount(params);
+}
+
+function plaintextChunkLength(params: EncryptionParams, index: number): number {
+  return Math.min(params.chunkSize, params.size - index * params.chunkSize);
+}
+
+function rawKeyBytes(rawKey: string): Uint8Array<ArrayBuffer> {
+  const bytes = fromBase64Url(rawKey);
+  if (bytes.length !== 32) {
+    throw new Error('The key must be 32 bytes, base64url encoded');
+  }
+  return bytes;
+}
+
+async function importRawKey(rawKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', rawKeyBytes(rawKey), 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number, extractable = false): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    extractable,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Pick fresh parameters (salt, nonce prefix, chunk size) for a file of `size` bytes
+export async function prepareEncryption(size: number, source: KeySource, preferredChunkSize?: number): Promise<FileEncryption> {
+  const base = {
+    v: 1 as const,
+    alg: 'AES-256-GCM' as const,
+    nonceScheme: 'prefix64-counter32' as const,
+    noncePrefix: toBase64Url(randomBytes(8)),
+    chunkSize: chunkSizeFor(size, preferredChunkSize),
+    size
+  };
+
+  if ('rawKey' in source) {
+    return { key: await importRawKey(source.rawKey), params: { ...base, kdf: 'none' } };
+  }
+
+  const salt = randomBytes(16);
+  return {
+    key: await deriveKey(source.passphrase, salt, PBKDF2_ITERATIONS),
+    params: { ...base, kdf: 'PBKDF2-SHA256', iterations: PBKDF2_ITERATIONS, salt: toBase64Url(salt) }
+  };
+}
+
+// The key for an encrypted file, from what the user typed or a share link carried
+export async function unlockKey(params: EncryptionParams, source: KeySource): Promise<CryptoKey> {
+  if ('rawKey' in source) {
+    return importRawKey(source.rawKey);
+  }
+  if (params.kdf === 'none' || !params.salt || !params.iterations) {
+    throw new Error('This file was encrypted with a generated key, not a passphrase');
+  }
+  return deriveKey(source.passphrase, fromBase64Url(params.salt), params.iterations);
+}
+
+// What the user types unlocks the file the way it was encrypted
+export function keySourceFor(params: EncryptionParams, secret: string): KeySource {
+  return params.kdf === 'none' ? { rawKey: secret } : { passphrase: secret };
+}
+
+// The key as base64url, for a share link, so the link doesn't reveal the passphrase
+export async function shareableKey(params: EncryptionParams, source: KeySource): Promise<string> {
+  if ('rawKey' in source) {
+    return toBase64Url(rawKeyBytes(source.rawKey));
+  }
+  if (params.kdf === 'none' || !params.salt || !params.iterations) {
+    throw new Error('This file was encrypted with a generated key, not a passphrase');
+  }
+  const key = await deriveKey(source.passphrase, fromBase64Url(params.salt), params.iterations, true);
+  return toBase64Url(new Uint8Array(await crypto.subtle.exportKey('raw', key)));
+}
+
+function chunkAlgorithm(params: EncryptionParams, index: number): AesGcmParams {
+  const iv = new Uint8Array(12);
+  iv.set(fromBase64Url(params.noncePrefix));
+  new DataView(iv.buffer).setUint32(8, index);
+  const last = index === chunkCount(params) - 1;
+  return { name: 'AES-GCM', iv, additionalData: new Uint8Array([last ? 1 : 0]), tagLength: TAG_LENGTH * 8 };
+}
+
+// Seal chunk `index` of `file`
+export async function encryptChunk(encryption: FileEncryption, file: Blob, index: number): Promise<ArrayBuffer> {
+  const { params } = encryption;
+  const start = index * params.chunkSize;
+  const plaintext = await file.slice(start, start + plaintextChunkLength(params, index)).arrayBuffer();
+  return crypto.subtle.encrypt(chunkAlgorithm(params, index), encryption.key, plaintext);
+}
+
+export async function decryptChunk(key: CryptoKey, params: EncryptionParams, index: number, ciphertext: Uint8Array<ArrayBuffer>): Promise<ArrayBuffer> {
+  try {
+    return await crypto.subtle.decrypt(chunkAlgorithm(params, index), key, ciphertext);
+  } catch {
+    throw new Error(index === 0 ? 'Wrong key or passphrase' : `Chunk ${index + 1} is damaged or was tampered with`);
+  }
+}
+
+// Sits in front of the sink a download is written to: collects the
+// ciphertext into whole chunks and passes each one on decrypted
+export class DecryptingSink implements DownloadSink {
+  private pending: Uint8Array<ArrayBuffer>[] = [];
+  private pendingLength = 0;
+  private index = 0;
+
+  constructor(private key: CryptoKey, private params: EncryptionParams, private sink: DownloadSink) {}
+
+  private nextChunkLength(): number {
+    return plaintextChunkLength(this.params, this.index) + TAG_LENGTH;
+  }
+
+  private take(length: number): Uint8Array<ArrayBuffer> {
+    const chunk = new Uint8Array(length);
+    let filled = 0;
+    while (filled < length) {
+      const head = this.pending[0];
+      const used = Math.min(head.length, length - filled);
+      chunk.set(head.subarray(0, used), filled);
+      filled += used;
+      if (used === head.length) {
+        this.pending.shift();
+      } else {
+        this.pending[0] = head.subarray(used);
+      }
+    }
+    this.pendingLength -= length;
+    return chunk;
+  }
+
+  async write(data: Uint8Array<ArrayBuffer>): Promise<void> {
+    this.pending.push(data);
+    this.pendingLength += data.length;
+
+    while (this.index < chunkCount(this.params) && this.pendingLength >= this.nextChunkLength()) {
+      const plaintext = await decryptChunk(this.key, this.params, this.index, this.take(this.nextChunkLength()));
+      await this.sink.write(new Uint8Array(plaintext));
+      this.index++;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.index < chunkCount(this.params) || this.pendingLength > 0) {
+      throw new Error('The encrypted file is incomplete or has extra data');
+    }
+    await this.sink.close();
+  }
+
+  async abort(): Promise<void> {
+    await this.sink.abort();
+  }
+}
@@ -0,0 +1,166 @@
+// A small regex-based highlighter for text previews. It only has to look
+// right on the first few KB of a file, so it matches a handful of regexes
+// per language instead of parsing.
+
+export type TokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'tag' | 'error' | 'warning' | 'info';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+export type Language = 'javascript' | 'json' | 'python' | 'shell' | 'css' | 'markup' | 'yaml' | 'log' | 'plain';
+
+type Rule = [TokenType, RegExp];
+
+const DOUBLE_QUOTED = /"(?:[^"\\\n]|\\.)*"/;
+const SINGLE_QUOTED = /'(?:[^'\\\n]|\\.)*'/;
+const NUMBER = /\b(?:0x[\da-fA-F]+|\d+(?:\.\d+)?(?:e[+-]?\d+)?)\b/;
+const HASH_COMMENT = /#.*/;
+
+function keywords(words: string): RegExp {
+  return new RegExp(`\\b(?:${words.split(' ').join('|')})\\b`);
+}
+
+const RULES: Record<Language, Rule[]> = {
+  javascript: [
+    ['comment', /\/\/.*|\/\*[\s\S]*?\*\//],
+    ['string', /`(?:[^`\\]|\\.)*`/],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['keyword', keywords('async await break case catch class const continue default delete do else export extends false finally for from function if import in instanceof interface let new null return static super switch this throw true try type typeof undefined var void while yield')],
+    ['number', NUMBER]
+  ],
+  json: [
+    ['keyword', /"(?:[^"\\\n]|\\.)*"(?=\s*:)/],
+    ['string', DOUBLE_QUOTED],
+    ['keyword', keywords('true false null')],
+    ['number', /-?\b\d+(?:\.\d+)?(?:e[+-]?\d+)?\b/]
+  ],
+  python: [
+    ['comment', HASH_COMMENT],
+    ['string', /"""[\s\S]*?"""|'''[\s\S]*?'''/],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['keyword', keywords('and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return True try while with yield')],
+    ['number', NUMBER]
+  ],
+  shell: [
+    ['comment', HASH_COMMENT],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['keyword', keywords('case do done elif else esac export fi for function if in local return then until while')],
+    ['tag', /\$\{?[\w@#?*!-]+\}?/]
+  ],
+  css: [
+    ['comment', /\/\*[\s\S]*?\*\//],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['keyword', /[\w-]+(?=\s*:)/],
+    ['tag', /[.#]?[\w-]+(?=[^{};]*\{)/],
+    ['number', /-?\b\d+(?:\.\d+)?(?:px|em|rem|%|vh|vw|s|ms)?\b|#[\da-fA-F]{3,8}\b/]
+  ],
+  markup: [
+    ['comment', /<!--[\s\S]*?-->/],
+    ['tag', /<\/?[\w:.-]+|\/?>/],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['keyword', /\b[\w:.-]+(?==)/]
+  ],
+  yaml: [
+    ['comment', HASH_COMMENT],
+    ['keyword', /^\s*-?\s*[\w.-]+(?=:)/m],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['number', NUMBER]
+  ],
+  log: [
+    ['number', /\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?/],
+    ['error', keywords('ERROR ERR FATAL CRITICAL PANIC Exception Traceback')],
+    ['warning', keywords('WARN WARNING')],
+    ['info', keywords('INFO DEBUG TRACE NOTICE')],
+    ['string', DOUBLE_QUOTED]
+  ],
+  plain: []
+};
+
+const EXTENSION_LANGUAGES: Record<string, Language> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  jsx: 'javascript',
+  ts: 'javascript',
+  tsx: 'javascript',
+  json: 'json',
+  py: 'python',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  env: 'shell',
+  css: 'css',
+  html: 'markup',
+  htm: 'markup',
+  xml: 'markup',
+  svg: 'markup',
+  yaml: 'yaml',
+  yml: 'yaml',
+  toml: 'yaml',
+  ini: 'yaml',
+  log: 'log',
+  out: 'log',
+  txt: 'plain',
+  md: 'plain',
+  csv: 'plain',
+  tsv: 'plain'
+};
+
+const TYPE_LANGUAGES: Record<string, Language> = {
+  'text/javascript': 'javascript',
+  'application/javascript': 'javascript',
+  'application/json': 'json',
+  'text/x-python': 'python',
+  'application/x-sh': 'shell',
+  'text/css': 'css',
+  'text/html': 'markup',
+  'text/xml': 'markup',
+  'application/xml': 'markup',
+  'image/svg+xml': 'markup',
+  'application/yaml': 'yaml'
+};
+
+// Pick a language from the file name, then the content type. Returns null for
+// files that aren't text at all.
+export function languageFor(name: string, contentType?: string): Language | null {
+  const extension = /\.([^./]+)$/.exec(name)?.[1].toLowerCase();
+  if (extension && EXTENSION_LANGUAGES[extension]) return EXTENSION_LANGUAGES[extension];
+
+  const type = contentType?.split(';')[0].trim().toLowerCase();
+  if (!type) return null;
+  if (TYPE_LANGUAGES[type]) return TYPE_LANGUAGES[type];
+  return type.startsWith('text/') ? 'plain' : null;
+}
+
+export function highlight(text: string, language: Language): Token[] {
+  const rules = RULES[language];
+  if (rules.length === 0) return [{ type: 'plain', text }];
+
+  // One alternation with a group per rule; the first group that matched wins
+  const pattern = new RegExp(rules.map(([, rule]) => `(${rule.source})`).join('|'), 'gm');
+  const tokens: Token[] = [];
+  let position = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    if (match[0] === '') continue;
+    if (match.index! > position) {
+      tokens.push({ type: 'plain', text: text.slice(position, match.index) });
+    }
+    const rule = match.slice(1).findIndex((group) => group !== undefined);
+    tokens.push({ type: rules[rule][0], text: match[0] });
+    position = match.index! + match[0].length;
+  }
+
+  if (position < text.length) {
+    tokens.push({ type: 'plain', text: text.slice(position) });
+  }
+  return tokens;
+}
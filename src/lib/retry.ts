@@ -0,0 +1,73 @@
+// Helpers for running part uploads in parallel and retrying transient failures.
+
+export class RetryableError extends Error {}
+
+export interface RetryBudget {
+  remaining: number;
+}
+
+export interface RetryOptions {
+  maxAttempts: number;
+  budget: RetryBudget;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (attempt: number, error: Error) => void;
+}
+
+// Responses worth another try: server errors, throttling and request timeouts
+export function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 429 || status === 408;
+}
+
+// Exponential backoff with full jitter so parallel parts don't retry in lockstep
+export function backoffDelay(attempt: number, baseDelayMs = 500, maxDelayMs = 30000): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Run `task`, retrying RetryableErrors and network failures (TypeError from
+// fetch) until either the per-task attempts or the shared budget run out.
+export async function withRetry<T>(task: () => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      const retryable = error instanceof RetryableError || error instanceof TypeError;
+      if (!retryable || attempt >= options.maxAttempts || options.budget.remaining <= 0) {
+        throw error;
+      }
+      options.budget.remaining--;
+      options.onRetry?.(attempt, error as Error);
+      await sleep(backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs));
+    }
+  }
+}
+
+// Process `items` with at most `concurrency` workers in flight. The first
+// failure stops new items from starting; in-flight ones are allowed to finish
+// before the error is rethrown.
+export async function runPool<T>(items: T[], concurrency: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  let failure: unknown = null;
+
+  const runWorker = async () => {
+    while (failure === null && next < items.length) {
+      const item = items[next++];
+      try {
+        await worker(item);
+      } catch (error) {
+        if (failure === null) failure = error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, runWorker));
+
+  if (failure !== null) {
+    throw failure;
+  }
+}
@@ -0,0 +1,423 @@
+// Uploads a single file: initiates it with the worker, sends the parts in
+// parallel with retries, and keeps multipart state in IndexedDB so an upload
+// that was paused, interrupted or reloaded picks up where it left off.
+
+import { apiFetch } from './api';
+import { encryptChunk, encryptedSize, FileEncryption, KeySource, prepareEncryption, TAG_LENGTH } from './encryption';
+import { hashFile, sha256Hex } from './sha256';
+import { isRetryableStatus, RetryableError, runPool, withRetry } from './retry';
+import { deleteStoredUpload, getFileKey, getStoredUpload, putStoredUpload, StoredUpload } from './uploadStore';
+
+// What the worker does when a file with the same name already exists
+export type ConflictPolicy = 'fail' | 'overwrite' | 'rename';
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  percentage: number;
+  bytesPerSecond?: number;
+  etaSeconds?: number;
+  partsInFlight?: number;
+  retries?: number;
+}
+
+export interface UploadFileOptions {
+  // Object name relative to the user's root, including any folders
+  name: string;
+  // Number of parts uploaded in parallel
+  concurrency: number;
+  // Attempts per part before the upload is interrupted
+  maxPartAttempts: number;
+  // Retries shared by all parts of the upload
+  retryBudget: number;
+  preferredPartSize?: number;
+  verifyIntegrity: boolean;
+  conflictPolicy: ConflictPolicy;
+  description?: string;
+  tags?: string[];
+  // Encrypt in the browser with this passphrase or key before uploading
+  encrypt?: KeySource;
+  // Sent with every request to the worker, e.g. a file request link's token;
+  // never to presigned R2 URLs
+  headers?: Record<string, string>;
+  // Aborting pauses the upload; multipart progress is kept for a later resume
+  signal: AbortSignal;
+  onStatus?: (message: string) => void;
+  onProgress?: (progress: UploadProgress | null) => void;
+}
+
+// Upload `file`, resuming an earlier multipart upload of it when one is
+// stored. Resolves with the name the worker saved it under.
+export async function uploadFile(file: File, options: UploadFileOptions): Promise<string> {
+  const stored = await getStoredUpload(file, options.name).catch(() => null);
+  // Switching encryption on or off starts over rather than mixing the two
+  if (stored && !stored.encryption !== !options.encrypt) {
+    await discardUpload(file, options.name, options.headers);
+  } else if (stored) {
+    const resumed = await resumeUpload(file, stored, options);
+    if (resumed !== null) return resumed;
+  }
+  return startUpload(file, options);
+}
+
+// Abort the file's multipart upload, if it has one, and forget its progress
+export async function discardUpload(file: File, name: string, headers?: Record<string, string>): Promise<void> {
+  const stored = await getStoredUpload(file, name).catch(() => null);
+  if (!stored) return;
+
+  try {
+    await apiFetch('/api/abort-multipart', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({
+        filename: stored.filename,
+        uploadId: stored.uploadId
+      })
+    });
+  } catch (abortError) {
+    console.error('Failed to abort multipart upload:', abortError);
+  }
+
+  await deleteStoredUpload(file, name).catch(() => undefined);
+}
+
+async function startUpload(file: File, options: UploadFileOptions): Promise<string> {
+  const { signal, onStatus } = options;
+
+  let encryption: FileEncryption | undefined;
+  if (options.encrypt) {
+    onStatus?.('Preparing encryption...');
+    encryption = await prepareEncryption(file.size, options.encrypt, options.preferredPartSize);
+  }
+
+  // A whole-file checksum of the plaintext would tell the server what the
+  // file is; encrypted parts are still checked one by one
+  let sha256: string | undefined;
+  if (options.verifyIntegrity && !encryption) {
+    onStatus?.('Computing checksum...');
+    sha256 = await hashFile(file, (hashed) => {
+      signal.throwIfAborted();
+      onStatus?.(`Computing checksum... ${Math.round((hashed / Math.max(file.size, 1)) * 100)}%`);
+    });
+  }
+
+  onStatus?.('Initiating upload...');
+  console.log('Initiating upload for file:', { name: options.name, size: file.size });
+
+  // The worker sniffs the type from these bytes when the browser doesn't know it
+  const head = encryption ? null : new Uint8Array(await file.slice(0, 16).arrayBuffer());
+
+  const response = await apiFetch('/api/initiate-upload', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...options.headers },
+    body: JSON.stringify({
+      filename: options.name,
+      fileSize: encryption ? encryptedSize(encryption.params) : file.size,
+      // Each encrypted chunk, tag included, is exactly one part
+      preferredPartSize: encryption ? encryption.params.chunkSize + TAG_LENGTH : options.preferredPartSize,
+      sha256,
+      onConflict: options.conflictPolicy,
+      contentType: encryption ? undefined : file.type || undefined,
+      head: head ? btoa(String.fromCharCode(...head)) : undefined,
+      description: options.description || undefined,
+      tags: options.tags ?? [],
+      encryption: encryption?.params
+    }),
+    signal
+  });
+
+  const uploadData = await response.json().catch(() => null);
+  if (!uploadData) {
+    throw new Error('Failed to parse server response');
+  }
+  if (!response.ok) {
+    throw new Error(`Server error: ${uploadData.details || uploadData.error || response.statusText}`);
+  }
+  console.log('Upload initiated:', uploadData);
+
+  if (uploadData.type === 'multipart') {
+    await uploadParts(file, uploadData, options, encryption);
+  } else {
+    await uploadSimple(file, uploadData, options, encryption);
+  }
+  return uploadData.filename;
+}
+
+// Returns null when the worker no longer knows the upload, so the caller can
+// start over
+async function resumeUpload(file: File, upload: StoredUpload, options: UploadFileOptions): Promise<string | null> {
+  options.onStatus?.('Resuming upload...');
+
+  const response = await apiFetch('/api/resume-upload', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...options.headers },
+    body: JSON.stringify({ filename: upload.filename, uploadId: upload.uploadId }),
+    signal: options.signal
+  });
+
+  if (response.status === 404) {
+    await deleteStoredUpload(file, options.name).catch(() => undefined);
+    return null;
+  }
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(`Server error: ${data.error || response.statusText}`);
+  }
+
+  await uploadParts(file, data, options, upload.encryption);
+  return data.filename;
+}
+
+async function uploadParts(file: File, uploadData: any, options: UploadFileOptions, encryption?: FileEncryption): Promise<void> {
+  const { signal, onProgress } = options;
+
+  // The server picks the part size and tells us each part's byte range, in
+  // terms of the ciphertext when encrypting
+  const chunkSize: number = uploadData.partSize;
+  const totalSize = encryption ? encryptedSize(encryption.params) : file.size;
+  if (encryption && chunkSize !== encryption.params.chunkSize + TAG_LENGTH) {
+    throw new Error('The server chose a part size that does not match the encryption chunks');
+  }
+  const completedParts: { partNumber: number; etag: string }[] = [...(uploadData.completedParts ?? [])];
+  let uploadedSize = completedParts.reduce(
+    (acc, part) => acc + Math.min(chunkSize, totalSize - (part.partNumber - 1) * chunkSize),
+    0
+  );
+
+  const storedUpload: StoredUpload = {
+    fileKey: getFileKey(file, options.name),
+    uploadId: uploadData.uploadId,
+    filename: uploadData.filename,
+    partSize: chunkSize,
+    parts: completedParts,
+    encryption,
+    updatedAt: Date.now()
+  };
+  // Nothing is saved once the upload is paused or cancelled, so a part that
+  // lands after a cancel can't bring back the record it deleted
+  const persist = async () => {
+    if (signal.aborted) return;
+    await putStoredUpload({ ...storedUpload, updatedAt: Date.now() })
+      .catch((error) => console.error('Failed to persist upload state:', error));
+  };
+
+  await persist();
+  options.onStatus?.('Uploading...');
+
+  const startedAt = Date.now();
+  const resumedSize = uploadedSize;
+  const budget = { remaining: options.retryBudget };
+  let partsInFlight = 0;
+  let retries = 0;
+
+  // Presigned part URLs expire; fetch a fresh set shortly before they do
+  const presigned = uploadData.uploadMode === 'presigned';
+  const partUrls = new Map<number, string>(
+    uploadData.parts.map((part: { url: string; partNumber: number }) => [part.partNumber, part.url])
+  );
+  let urlExpiresAt: number | null = uploadData.urlExpiresAt ?? null;
+  let refreshing: Promise<void> | null = null;
+
+  const refreshPartUrls = () => {
+    refreshing ??= (async () => {
+      const response = await apiFetch('/api/resume-upload', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...options.headers },
+        body: JSON.stringify({ filename: uploadData.filename, uploadId: uploadData.uploadId }),
+        signal
+      });
+      if (!response.ok) {
+        throw new RetryableError(`Failed to refresh upload URLs (Status: ${response.status})`);
+      }
+      const data = await response.json();
+      for (const part of data.parts) {
+        partUrls.set(part.partNumber, part.url);
+      }
+      urlExpiresAt = data.urlExpiresAt ?? null;
+    })().finally(() => {
+      refreshing = null;
+    });
+    return refreshing;
+  };
+
+  const getPartUrl = async (partNumber: number) => {
+    if (urlExpiresAt !== null && Date.now() > urlExpiresAt - 60 * 1000) {
+      await refreshPartUrls();
+    }
+    return partUrls.get(partNumber)!;
+  };
+
+  const reportProgress = () => {
+    const elapsedSeconds = (Date.now() - startedAt) / 1000;
+    const bytesPerSecond = elapsedSeconds > 0 ? (uploadedSize - resumedSize) / elapsedSeconds : 0;
+    onProgress?.({
+      loaded: uploadedSize,
+      total: totalSize,
+      percentage: Math.round((uploadedSize / totalSize) * 100),
+      bytesPerSecond,
+      etaSeconds: bytesPerSecond > 0 ? (totalSize - uploadedSize) / bytesPerSecond : undefined,
+      partsInFlight,
+      retries
+    });
+  };
+
+  const uploadPart = async (part: { url: string; partNumber: number; start: number; end: number }) => {
+    signal.throwIfAborted();
+
+    partsInFlight++;
+    reportProgress();
+
+    try {
+      // The worker checks each part against its checksum before accepting it
+      const verify = options.verifyIntegrity && !presigned;
+      const chunk = file.slice(part.start, part.end);
+      // Part n holds encrypted chunk n - 1
+      const body = encryption
+        ? await encryptChunk(encryption, file, part.partNumber - 1)
+        : verify ? await chunk.arrayBuffer() : chunk;
+      const headers: Record<string, string> = { 'Content-Type': 'application/octet-stream', ...(!presigned && options.headers) };
+      if (verify) {
+        headers['X-Content-SHA256'] = await sha256Hex(body as ArrayBuffer);
+      }
+
+      const etag = await withRetry(async () => {
+        // Send the part through our worker, or straight to R2 when presigned
+        const response = await apiFetch(await getPartUrl(part.partNumber), {
+          method: 'PUT',
+          body,
+          headers,
+          signal
+        });
+
+        if (!response.ok) {
+          const message = `Failed to upload part ${part.partNumber} (Status: ${response.status})`;
+          // R2 rejects an expired signature with 403; retry with a fresh URL
+          if (presigned && response.status === 403) {
+            urlExpiresAt = 0;
+            throw new RetryableError(message);
+          }
+          // A checksum mismatch means the bytes were damaged in transit
+          if (response.status === 422) {
+            throw new RetryableError(`${message}: checksum mismatch`);
+          }
+          throw isRetryableStatus(response.status) ? new RetryableError(message) : new Error(message);
+        }
+
+        // R2 reports the part's ETag as a response header; the worker as JSON
+        const etag = presigned
+          ? response.headers.get('ETag')?.replace(/"/g, '')
+          : (await response.json()).etag;
+        if (!etag) {
+          throw new Error(`No ETag received for part ${part.partNumber}`);
+        }
+        return etag as string;
+      }, {
+        maxAttempts: options.maxPartAttempts,
+        budget,
+        onRetry: (attempt, error) => {
+          retries++;
+          console.warn(`Retrying part ${part.partNumber} (attempt ${attempt + 1}):`, error.message);
+          reportProgress();
+        }
+      });
+
+      completedParts.push({
+        partNumber: part.partNumber,
+        etag
+      });
+      await persist();
+
+      uploadedSize += part.end - part.start;
+    } finally {
+      partsInFlight--;
+      reportProgress();
+    }
+  };
+
+  await runPool(uploadData.parts, options.concurrency, uploadPart);
+
+  // Complete the multipart upload
+  options.onStatus?.('Finishing upload...');
+  const response = await apiFetch('/api/complete-multipart', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...options.headers },
+    body: JSON.stringify({
+      filename: uploadData.filename,
+      uploadId: uploadData.uploadId,
+      parts: completedParts
+    }),
+    signal
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.details || 'Failed to complete multipart upload');
+  }
+
+  await deleteStoredUpload(file, options.name).catch(() => undefined);
+}
+
+async function uploadSimple(file: File, uploadData: any, options: UploadFileOptions, encryption?: FileEncryption): Promise<void> {
+  const { signal, onProgress } = options;
+  signal.throwIfAborted();
+  // A file this small is a single chunk
+  const body = encryption ? await encryptChunk(encryption, file, 0) : file;
+  const xhr = new XMLHttpRequest();
+  options.onStatus?.('Uploading...');
+
+  xhr.upload.onprogress = (event) => {
+    if (event.lengthComputable) {
+      onProgress?.({
+        loaded: event.loaded,
+        total: event.total,
+        percentage: Math.round((event.loaded / event.total) * 100)
+      });
+    }
+  };
+
+  await new Promise((resolve, reject) => {
+    // The raw file is PUT to the worker, or straight to R2 when presigned
+    xhr.open(uploadData.method || 'PUT', uploadData.uploadUrl);
+    // Only the worker's own upload URL gets the caller's headers
+    const headers = uploadData.uploadUrl.startsWith('/')
+      ? { ...uploadData.headers, ...options.headers }
+      : uploadData.headers;
+    for (const [name, value] of Object.entries<string>(headers ?? {})) {
+      xhr.setRequestHeader(name, value);
+    }
+
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr.response);
+      } else {
+        // The worker explains limits it enforces (size, quota, type) as JSON
+        let details: string | undefined;
+        try {
+          details = JSON.parse(xhr.responseText).details;
+        } catch {
+          details = undefined;
+        }
+        reject(new Error(details || `HTTP ${xhr.status}: ${xhr.statusText}`));
+      }
+    };
+
+    xhr.onerror = () => reject(new Error('Network error'));
+    // A small file simply starts again from zero after a pause
+    xhr.onabort = () => reject(new DOMException('Upload paused', 'AbortError'));
+    signal.addEventListener('abort', () => xhr.abort(), { once: true });
+    xhr.send(body);
+  });
+
+  // Presigned PUTs can't carry non-ASCII metadata, so it follows separately
+  if (uploadData.pendingMetadata) {
+    const response = await apiFetch(`/api/metadata/${encodeURIComponent(uploadData.filename)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(uploadData.pendingMetadata),
+    });
+    if (!response.ok) {
+      throw new Error('Uploaded, but saving the description and tags failed');
+    }
+  }
+}
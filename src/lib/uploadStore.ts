@@ -0,0 +1,80 @@
+// Browser-side mirror of in-progress multipart uploads, kept in IndexedDB so
+// an upload can be resumed after a reload or a dropped connection.
+
+import type { FileEncryption } from './encryption';
+
+export interface StoredPart {
+  partNumber: number;
+  etag: string;
+}
+
+export interface StoredUpload {
+  fileKey: string;
+  uploadId: string;
+  filename: string;
+  partSize: number;
+  parts: StoredPart[];
+  // Encrypted uploads must resume with the same key and nonces. IndexedDB
+  // stores the CryptoKey itself, non-extractable, so neither the passphrase
+  // nor the key's bytes are kept.
+  encryption?: FileEncryption;
+  updatedAt: number;
+}
+
+const DB_NAME = 'up-downloader';
+const STORE_NAME = 'uploads';
+
+// Identify a file by the attributes that survive re-selecting it in the
+// picker; `name` includes the folder path for files from a dropped directory
+export function getFileKey(file: File, name: string = file.name): string {
+  return `${name}:${file.size}:${file.lastModified}`;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 2);
+    request.onupgradeneeded = (event) => {
+      if (event.oldVersion < 1) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'fileKey' });
+        return;
+      }
+      // Version 1 stored extractable keys; those uploads start over
+      request.transaction!.objectStore(STORE_NAME).openCursor().onsuccess = function () {
+        const cursor = this.result;
+        if (!cursor) return;
+        if ((cursor.value as StoredUpload).encryption?.key.extractable) {
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function getStoredUpload(file: File, name?: string): Promise<StoredUpload | null> {
+  const upload = await withStore<StoredUpload | undefined>('readonly', (store) => store.get(getFileKey(file, name)));
+  return upload ?? null;
+}
+
+export async function putStoredUpload(upload: StoredUpload): Promise<void> {
+  await withStore('readwrite', (store) => store.put(upload));
+}
+
+export async function deleteStoredUpload(file: File, name?: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(getFileKey(file, name)));
+}
@@ -0,0 +1,364 @@
+import type { R2Bucket, R2Object } from '@cloudflare/workers-types/latest';
+import { addToCounter } from './counters';
+import type { Env } from './env';
+import { folderOf, keyDigest, noOverwrite } from './keys';
+import { SYSTEM_PREFIX } from './sessions';
+
+// Audit trail of what happens to each user's files: completed and aborted
+// uploads, every download (each byte range served counts), metadata changes,
+// moves, copies and deletes, with who did it and from where. Every entry is
+// its own object under the owner's prefix, named so a listing is newest
+// first, and carries the fields queries filter on as custom metadata so most
+// entries never have to be read.
+//
+// Download counts per file are kept exactly in a counter (see counters.ts)
+// per version of the file, so replacing a file starts again from zero. A copy
+// of each count is kept in an empty object whose custom metadata holds it,
+// named after digests of the file's folder and key like metadata sidecars,
+// so a folder's counts come back in one listing.
+
+const AUDIT_PREFIX = `${SYSTEM_PREFIX}audit/`;
+const STATS_PREFIX = `${SYSTEM_PREFIX}download-stats/`;
+const DEFAULT_RETENTION_DAYS = 90;
+const MAX_USER_AGENT_LENGTH = 256;
+// Listing pages scanned per query before handing back a cursor
+const MAX_SCAN_PAGES = 10;
+// R2 deletes at most this many keys per call
+const DELETE_BATCH = 1000;
+// Tries at updating a download count's copy while others update it too
+const MAX_STATS_ATTEMPTS = 5;
+export const MAX_AUDIT_LIMIT = 1000;
+
+export const AUDIT_ACTIONS = [
+  'upload.completed',
+  'upload.aborted',
+  'file.downloaded',
+  'metadata.updated',
+  'file.moved',
+  'file.copied',
+  'file.deleted'
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  action: AuditAction;
+  // User id, `share:<id>` for share links, or `system` for the cron job
+  actor: string;
+  // Null for things the Worker did on its own (imports, cron)
+  ip: string | null;
+  userAgent: string | null;
+  // File name relative to the owner's root; a folder (ending in '/') for a folder delete
+  key: string;
+  // Bytes uploaded, served or affected; null when unknown
+  bytes: number | null;
+  // `bytes <first>-<last>/<size>` when only part of a file was served
+  range?: string;
+  // e.g. the destination of a move
+  details?: Record<string, string>;
+}
+
+export type AuditRecord = Pick<AuditEntry, 'action' | 'actor' | 'key' | 'bytes' | 'range' | 'details'>;
+
+export interface AuditQuery {
+  // An exact file name, or a folder ending in '/' for everything below it
+  key?: string;
+  actor?: string;
+  action?: AuditAction;
+  // Milliseconds since the epoch, both inclusive
+  from?: number;
+  to?: number;
+  limit: number;
+  cursor?: string;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  // Pass back to continue; null when there is nothing more
+  cursor: string | null;
+}
+
+export interface DownloadStats {
+  count: number;
+  lastDownloadedAt: string;
+}
+
+export const AUDIT_CSV_COLUMNS = ['timestamp', 'action', 'actor', 'ip', 'userAgent', 'key', 'bytes', 'range', 'details', 'id'] as const;
+
+function auditPrefix(owner: string): string {
+  return `${AUDIT_PREFIX}${encodeURIComponent(owner)}/`;
+}
+
+async function statsFolderPath(folder: string): Promise<string> {
+  return `${STATS_PREFIX}${await keyDigest(folder)}/`;
+}
+
+async function statsPath(key: string): Promise<string> {
+  return `${await statsFolderPath(folderOf(key))}${await keyDigest(key)}`;
+}
+
+function downloadCounter(object: R2Object): string {
+  return `downloads:${object.version}`;
+}
+
+// Newest first in a listing; entries from the same millisecond share a
+// prefix, so '.' (which sorts after '-') marks the end of one
+function invertedTimestamp(time: number): string {
+  return (Number.MAX_SAFE_INTEGER - time).toString().padStart(16, '0');
+}
+
+function timeOf(name: string): number {
+  return Number.MAX_SAFE_INTEGER - parseInt(name.slice(0, 16), 10);
+}
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return AUDIT_ACTIONS.includes(value as AuditAction);
+}
+
+export function retentionDays(env: Env): number {
+  const days = parseInt(env.AUDIT_RETENTION_DAYS ?? '', 10);
+  return Number.isSafeInteger(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+// Range of a file served in part, as in Content-Range
+export function describeRange(range: { offset: number; length: number } | null, size: number): string | undefined {
+  return range && range.length < size ? `bytes ${range.offset}-${range.offset + range.length - 1}/${size}` : undefined;
+}
+
+// Record one entry; `request` supplies the IP and user agent. Runs in
+// ctx.waitUntil, so failures are logged rather than thrown.
+export async function recordAudit(env: Env, request: Request | null, owner: string, record: AuditRecord): Promise<void> {
+  const now = Date.now();
+  const entry: AuditEntry = {
+    id: crypto.randomUUID(),
+    timestamp: new Date(now).toISOString(),
+    action: record.action,
+    actor: record.actor,
+    ip: request?.headers.get('CF-Connecting-IP') ?? null,
+    userAgent: request?.headers.get('User-Agent')?.slice(0, MAX_USER_AGENT_LENGTH) ?? null,
+    key: record.key,
+    bytes: record.bytes,
+    ...(record.range && { range: record.range }),
+    ...(record.details && { details: record.details })
+  };
+
+  try {
+    await env.BUCKET.put(`${auditPrefix(owner)}${invertedTimestamp(now)}-${entry.id}.json`, JSON.stringify(entry), {
+      httpMetadata: { contentType: 'application/json' },
+      customMetadata: { action: entry.action, actor: entry.actor, key: entry.key }
+    });
+  } catch (error) {
+    console.error(`Could not record ${entry.action} of ${entry.key} in the audit log:`, error);
+  }
+}
+
+function matches(query: AuditQuery, metadata: Record<string, string> | undefined): boolean {
+  if (!metadata) return false;
+  if (query.action && metadata.action !== query.action) return false;
+  if (query.actor && metadata.actor !== query.actor) return false;
+  if (query.key) {
+    return query.key.endsWith('/') ? metadata.key.startsWith(query.key) : metadata.key === query.key;
+  }
+  return true;
+}
+
+// One page of entries, newest first. The cursor is the name of the last entry
+// looked at, so a long scan for rare matches can stop early and carry on later.
+export async function queryAudit(bucket: R2Bucket, owner: string, query: AuditQuery): Promise<AuditPage> {
+  const prefix = auditPrefix(owner);
+  const found: string[] = [];
+  let startAfter = query.cursor
+    ? `${prefix}${query.cursor}`
+    : query.to !== undefined ? `${prefix}${invertedTimestamp(query.to + 1)}.` : undefined;
+  let more = true;
+
+  for (let page = 0; page < MAX_SCAN_PAGES && more && found.length < query.limit; page++) {
+    const listed = await bucket.list({ prefix, startAfter, include: ['customMetadata'] });
+    more = listed.truncated;
+
+    for (const object of listed.objects) {
+      const name = object.key.slice(prefix.length);
+      if (query.from !== undefined && timeOf(name) < query.from) {
+        more = false;
+        break;
+      }
+      startAfter = object.key;
+      if (matches(query, object.customMetadata)) {
+        found.push(object.key);
+        if (found.length === query.limit) break;
+      }
+    }
+  }
+
+  const entries = await Promise.all(found.map(async (key) => {
+    const object = await bucket.get(key);
+    return object ? await object.json<AuditEntry>() : null;
+  }));
+
+  // A page that stopped at the limit may have been the last one; the next
+  // request finds out
+  const stoppedEarly = more || found.length === query.limit;
+  return {
+    entries: entries.filter((entry): entry is AuditEntry => entry !== null),
+    cursor: stoppedEarly && startAfter ? startAfter.slice(prefix.length) : null
+  };
+}
+
+function csvField(value: unknown): string {
+  let text = value === null || value === undefined ? ''
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // File names and user agents are user input; keep spreadsheets from
+  // treating them as formulas
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatEntry(entry: AuditEntry, format: 'csv' | 'ndjson'): string {
+  return format === 'csv'
+    ? AUDIT_CSV_COLUMNS.map((column) => csvField(entry[column])).join(',') + '\r\n'
+    : JSON.stringify(entry) + '\n';
+}
+
+// Everything matching `query` as CSV (with a header row) or NDJSON, fetched a
+// page at a time as the client reads
+export function exportAudit(bucket: R2Bucket, owner: string, query: Omit<AuditQuery, 'limit' | 'cursor'>, format: 'csv' | 'ndjson'): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cursor: string | undefined;
+  let started = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let text = '';
+      if (!started) {
+        started = true;
+        if (format === 'csv') text += AUDIT_CSV_COLUMNS.join(',') + '\r\n';
+      }
+
+      // A pull that enqueues nothing is never called again, so keep scanning
+      // until there is something to send or nothing left
+      let done = false;
+      while (!text && !done) {
+        const page = await queryAudit(bucket, owner, { ...query, limit: MAX_AUDIT_LIMIT, cursor });
+        text += page.entries.map((entry) => formatEntry(entry, format)).join('');
+        done = page.cursor === null;
+        cursor = page.cursor ?? undefined;
+      }
+
+      if (text) controller.enqueue(encoder.encode(text));
+      if (done) controller.close();
+    }
+  });
+}
+
+// Cron: drop entries older than AUDIT_RETENTION_DAYS (0 keeps them forever)
+export async function cleanupAuditLog(env: Env): Promise<void> {
+  const days = retentionDays(env);
+  if (days === 0) return;
+
+  const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+  let removed = 0;
+  let cursor: string | undefined;
+
+  do {
+    const owners = await env.BUCKET.list({ prefix: AUDIT_PREFIX, delimiter: '/', cursor });
+    for (const prefix of owners.delimitedPrefixes) {
+      // Everything after the cutoff in the listing is older than it
+      const startAfter = `${prefix}${invertedTimestamp(cutoff)}.`;
+      let truncated = true;
+      while (truncated) {
+        const page = await env.BUCKET.list({ prefix, startAfter });
+        if (page.objects.length === 0) break;
+        await env.BUCKET.delete(page.objects.map((object) => object.key));
+        removed += page.objects.length;
+        truncated = page.truncated;
+      }
+    }
+    cursor = owners.truncated ? owners.cursor : undefined;
+  } while (cursor);
+
+  if (removed > 0) {
+    console.log(`Removed ${removed} audit log entries older than ${days} days`);
+  }
+}
+
+// Record `count` downloads of this version of `object`, the last at
+// `lastDownloadedAt`. The copy only ever moves forward, so downloads that
+// finish at the same moment can't leave it behind the counter.
+async function writeStats(bucket: R2Bucket, object: R2Object, count: number, lastDownloadedAt: string): Promise<void> {
+  const path = await statsPath(object.key);
+  for (let attempt = 0; attempt < MAX_STATS_ATTEMPTS; attempt++) {
+    const current = await bucket.head(path);
+    if (current?.customMetadata?.version === object.version && (parseInt(current.customMetadata.count, 10) || 0) >= count) {
+      return;
+    }
+    const written = await bucket.put(path, '', {
+      customMetadata: { version: object.version, count: String(count), lastDownloadedAt },
+      onlyIf: current ? { etagMatches: current.etag } : noOverwrite()
+    });
+    if (written) return;
+  }
+}
+
+// Count a download of `object` (a full key)
+export async function recordDownload(env: Env, object: R2Object): Promise<void> {
+  try {
+    const { values } = await addToCounter(env, downloadCounter(object), { count: 1 });
+    await writeStats(env.BUCKET, object, values.count ?? 1, new Date().toISOString());
+  } catch (error) {
+    console.error(`Could not count download of ${object.key}:`, error);
+  }
+}
+
+// Stats for those of `objects` that have been downloaded, by full key. Each
+// folder is listed once.
+export async function getDownloadStats(bucket: R2Bucket, objects: R2Object[]): Promise<Map<string, DownloadStats>> {
+  const folders = new Map<string, Map<string, Record<string, string>>>();
+  const stats = new Map<string, DownloadStats>();
+
+  for (const object of objects) {
+    const folder = folderOf(object.key);
+    let inFolder = folders.get(folder);
+    if (!inFolder) {
+      inFolder = new Map();
+      const root = await statsFolderPath(folder);
+      let cursor: string | undefined;
+      do {
+        const page = await bucket.list({ prefix: root, cursor, include: ['customMetadata'] });
+        for (const entry of page.objects) {
+          inFolder.set(entry.key.slice(root.length), entry.customMetadata ?? {});
+        }
+        cursor = page.truncated ? page.cursor : undefined;
+      } while (cursor);
+      folders.set(folder, inFolder);
+    }
+
+    const entry = inFolder.get(await keyDigest(object.key));
+    if (entry?.version === object.version) {
+      stats.set(object.key, {
+        count: parseInt(entry.count ?? '0', 10) || 0,
+        lastDownloadedAt: entry.lastDownloadedAt ?? ''
+      });
+    }
+  }
+
+  return stats;
+}
+
+// A moved file keeps its downloads; `copy` is the file at its new key
+export async function moveDownloadStats(env: Env, from: string, copy: R2Object): Promise<void> {
+  const source = await env.BUCKET.head(await statsPath(from));
+  const count = parseInt(source?.customMetadata?.count ?? '0', 10) || 0;
+  if (!source || count === 0) return;
+
+  const { values } = await addToCounter(env, downloadCounter(copy), { count });
+  await writeStats(env.BUCKET, copy, values.count ?? count, source.customMetadata?.lastDownloadedAt ?? '');
+  await env.BUCKET.delete(source.key);
+}
+
+export async function deleteDownloadStats(bucket: R2Bucket, keys: string[]): Promise<void> {
+  for (let i = 0; i < keys.length; i += DELETE_BATCH) {
+    await bucket.delete(await Promise.all(keys.slice(i, i + DELETE_BATCH).map(statsPath)));
+  }
+}
@@ -0,0 +1,249 @@
+import type { Env } from './env';
+import type { FileRequest } from './fileRequests';
+
+export interface User {
+  id: string;
+  // How the request proved who it is
+  method: 'token' | 'session' | 'jwt' | 'file-request';
+  // Set for uploads through a file request link, which act for the link's
+  // owner but only inside its folder
+  fileRequest?: FileRequest;
+}
+
+const SESSION_COOKIE = 'session';
+const SESSION_TTL = 7 * 24 * 60 * 60; // 7 days
+const JWKS_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+
+const encoder = new TextEncoder();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+function getCookie(request: Request, name: string): string | null {
+  const cookies = request.headers.get('Cookie') ?? '';
+  for (const cookie of cookies.split(';')) {
+    const [cookieName, ...rest] = cookie.trim().split('=');
+    if (cookieName === name) return rest.join('=');
+  }
+  return null;
+}
+
+function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('Authorization');
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+// Compare secrets without leaking how much of them matched through timing
+function timingSafeEqual(a: string, b: string): boolean {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+// API_TOKENS is a JSON object mapping each token to the user it belongs to
+export function userForApiToken(env: Env, token: string): string | null {
+  let tokens: Record<string, string>;
+  try {
+    tokens = JSON.parse(env.API_TOKENS || '{}');
+  } catch {
+    console.error('API_TOKENS is not valid JSON');
+    return null;
+  }
+
+  let userId: string | null = null;
+  for (const [candidate, owner] of Object.entries(tokens)) {
+    if (timingSafeEqual(candidate, token)) userId = owner;
+  }
+  return userId;
+}
+
+async function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+// Session cookies are `<payload>.<signature>`, both base64url, signed with SESSION_SECRET
+export async function createSessionCookie(env: Env, userId: string): Promise<string> {
+  if (!env.SESSION_SECRET) {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+
+  const payload = base64UrlEncode(encoder.encode(JSON.stringify({
+    sub: userId,
+    exp: Math.floor(Date.now() / 1000) + SESSION_TTL
+  })));
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', await hmacKey(env.SESSION_SECRET), encoder.encode(payload)));
+
+  return `${SESSION_COOKIE}=${payload}.${base64UrlEncode(signature)}; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=${SESSION_TTL}`;
+}
+
+export function clearSessionCookie(): string {
+  return `${SESSION_COOKIE}=; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=0`;
+}
+
+async function verifySessionCookie(env: Env, cookie: string): Promise<string | null> {
+  if (!env.SESSION_SECRET) return null;
+
+  const [payload, signature] = cookie.split('.');
+  if (!payload || !signature) return null;
+
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    await hmacKey(env.SESSION_SECRET),
+    base64UrlDecode(signature),
+    encoder.encode(payload)
+  );
+  if (!valid) return null;
+
+  const claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload))) as { sub: string; exp: number };
+  return claims.exp > Date.now() / 1000 ? claims.sub : null;
+}
+
+interface JwtHeader {
+  alg: string;
+  kid?: string;
+}
+
+interface JwtClaims {
+  iss?: string;
+  aud?: string | string[];
+  sub?: string;
+  email?: string;
+  exp?: number;
+  nbf?: number;
+}
+
+const ALGORITHMS: Record<string, { import: RsaHashedImportParams | EcKeyImportParams; verify: AlgorithmIdentifier | EcdsaParams }> = {
+  RS256: {
+    import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    verify: 'RSASSA-PKCS1-v1_5'
+  },
+  ES256: {
+    import: { name: 'ECDSA', namedCurve: 'P-256' },
+    verify: { name: 'ECDSA', hash: 'SHA-256' }
+  }
+};
+
+let jwksCache: { url: string; keys: (JsonWebKey & { kid?: string })[]; fetchedAt: number } | null = null;
+
+async function getSigningKeys(url: string): Promise<(JsonWebKey & { kid?: string })[]> {
+  if (jwksCache && jwksCache.url === url && Date.now() - jwksCache.fetchedAt < JWKS_CACHE_TTL) {
+    return jwksCache.keys;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch JWKS (Status: ${response.status})`);
+  }
+  const { keys } = await response.json() as { keys: (JsonWebKey & { kid?: string })[] };
+  jwksCache = { url, keys, fetchedAt: Date.now() };
+  return keys;
+}
+
+// Verify a JWT against the configured issuer's published keys. Works with
+// Cloudflare Access (CF_Authorization cookie) or any OIDC provider.
+async function verifyJwt(env: Env, token: string): Promise<string | null> {
+  if (!env.JWT_ISSUER) return null;
+
+  const [encodedHeader, encodedClaims, encodedSignature] = token.split('.');
+  if (!encodedHeader || !encodedClaims || !encodedSignature) return null;
+
+  const header = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedHeader))) as JwtHeader;
+  const algorithm = ALGORITHMS[header.alg];
+  if (!algorithm) return null;
+
+  const jwksUrl = env.JWT_JWKS_URL || `${env.JWT_ISSUER.replace(/\/$/, '')}/.well-known/jwks.json`;
+  const jwk = (await getSigningKeys(jwksUrl)).find((key) => !header.kid || key.kid === header.kid);
+  if (!jwk) return null;
+
+  const key = await crypto.subtle.importKey('jwk', jwk, algorithm.import, false, ['verify']);
+  const valid = await crypto.subtle.verify(
+    algorithm.verify,
+    key,
+    base64UrlDecode(encodedSignature),
+    encoder.encode(`${encodedHeader}.${encodedClaims}`)
+  );
+  if (!valid) return null;
+
+  const claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedClaims))) as JwtClaims;
+  const now = Date.now() / 1000;
+  if (claims.iss !== env.JWT_ISSUER) return null;
+  // A token without an expiry would be good forever
+  if (typeof claims.exp !== 'number' || claims.exp < now) return null;
+  if (claims.nbf !== undefined && claims.nbf > now) return null;
+  if (env.JWT_AUDIENCE) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(env.JWT_AUDIENCE)) return null;
+  }
+
+  return claims.email || claims.sub || null;
+}
+
+// Resolve the caller from, in order: a bearer API token or JWT, the session
+// cookie set by /api/login, or a Cloudflare Access cookie.
+export async function authenticate(request: Request, env: Env): Promise<User | null> {
+  try {
+    const bearer = getBearerToken(request);
+    if (bearer) {
+      const tokenUser = userForApiToken(env, bearer);
+      if (tokenUser) return { id: tokenUser, method: 'token' };
+
+      const jwtUser = bearer.split('.').length === 3 ? await verifyJwt(env, bearer) : null;
+      return jwtUser ? { id: jwtUser, method: 'jwt' } : null;
+    }
+
+    const session = getCookie(request, SESSION_COOKIE);
+    if (session) {
+      const sessionUser = await verifySessionCookie(env, session);
+      if (sessionUser) return { id: sessionUser, method: 'session' };
+    }
+
+    const accessToken = getCookie(request, 'CF_Authorization');
+    if (accessToken) {
+      const jwtUser = await verifyJwt(env, accessToken);
+      if (jwtUser) return { id: jwtUser, method: 'jwt' };
+    }
+  } catch (error) {
+    console.error('Authentication failed:', error);
+  }
+
+  return null;
+}
+
+export function isAdmin(env: Env, user: User): boolean {
+  return !user.fileRequest && (env.ADMIN_USERS ?? '').split(',').map((id) => id.trim()).includes(user.id);
+}
+
+// Who did something, for webhooks and the audit log
+export function actorOf(user: User): string {
+  return user.fileRequest ? `request:${user.fileRequest.id}` : user.id;
+}
+
+// A name as the owner sees it: file request links name files within their folder
+export function ownerName(user: User, name: string): string {
+  return `${user.fileRequest?.folder ?? ''}${name}`;
+}
+
+// Each user's objects live under their own prefix; the client only ever sees
+// names relative to it. A file request link sees its folder as the root.
+export function userPrefix(user: User): string {
+  return `users/${encodeURIComponent(user.id)}/${user.fileRequest?.folder ?? ''}`;
+}
+
+export function toUserKey(user: User, name: string): string {
+  return `${userPrefix(user)}${name}`;
+}
+
+export function fromUserKey(user: User, key: string): string {
+  return key.startsWith(userPrefix(user)) ? key.slice(userPrefix(user).length) : key;
+}
@@ -0,0 +1,55 @@
+import { recordAudit } from './audit';
+import { fromUserKey } from './auth';
+import type { Env } from './env';
+import { tryReleaseFileRequest } from './fileRequests';
+import { tryReleaseStorage } from './limits';
+import { deleteSession, listSessions, UploadSession } from './sessions';
+
+const DEFAULT_STALE_UPLOAD_TTL = 24 * 60 * 60; // 24 hours
+
+// Seconds after which an unfinished multipart upload counts as abandoned
+export function staleUploadTtl(env: Env): number {
+  const ttl = parseInt(env.STALE_UPLOAD_TTL ?? '', 10);
+  return Number.isSafeInteger(ttl) && ttl > 0 ? ttl : DEFAULT_STALE_UPLOAD_TTL;
+}
+
+export function isStale(env: Env, session: UploadSession, now = Date.now()): boolean {
+  return now - Date.parse(session.createdAt) > staleUploadTtl(env) * 1000;
+}
+
+// Abort the upload in R2 and drop its bookkeeping. The upload may already be
+// gone (completed elsewhere or expired by R2 itself), which is not an error.
+// The owner's audit log records `actor` as having aborted it.
+export async function abortUpload(env: Env, session: UploadSession, actor = 'system', request: Request | null = null): Promise<void> {
+  try {
+    await env.BUCKET.resumeMultipartUpload(session.key, session.uploadId).abort();
+  } catch (error) {
+    console.warn(`Could not abort upload ${session.uploadId}:`, error);
+  }
+  await deleteSession(env.BUCKET, session.uploadId);
+  await tryReleaseStorage(env, session.owner, session.fileSize);
+  if (session.fileRequest) {
+    await tryReleaseFileRequest(env, session.fileRequest, session.fileSize);
+  }
+  await recordAudit(env, request, session.owner, {
+    action: 'upload.aborted',
+    actor,
+    key: fromUserKey({ id: session.owner, method: 'session' }, session.key),
+    bytes: session.fileSize
+  });
+}
+
+// Abort every upload older than the TTL; returns the ones that were aborted
+export async function cleanupStaleUploads(env: Env, actor = 'system', request: Request | null = null): Promise<UploadSession[]> {
+  const now = Date.now();
+  const stale = (await listSessions(env.BUCKET)).filter((session) => isStale(env, session, now));
+
+  for (const session of stale) {
+    await abortUpload(env, session, actor, request);
+  }
+
+  if (stale.length > 0) {
+    console.log(`Aborted ${stale.length} stale multipart upload(s)`);
+  }
+  return stale;
+}
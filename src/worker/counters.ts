@@ -0,0 +1,150 @@
+import type { DurableObjectState } from '@cloudflare/workers-types/latest';
+import type { Env } from './env';
+
+// Counters that must stay exact when many requests update them at once:
+// storage used per user and in total, and requests per minute. Each counter
+// is its own Durable Object (the COUNTERS binding) and handles one request at
+// a time, so checking a limit and adding to the count can't interleave with
+// another request the way reading and rewriting an R2 object can.
+//
+// Adds are also kept, summed per minute, for a couple of hours. A recount
+// that started at `asOf` replaces the count but keeps what was added since,
+// so uploads accepted while the recount was listing the bucket aren't lost.
+
+type Values = Record<string, number>;
+
+type CounterRequest =
+  | { op: 'get' }
+  | { op: 'add'; amounts: Values; limits?: Record<string, number | null> }
+  | { op: 'set'; values: Values; asOf: number }
+  | { op: 'hit'; limit: number; window: number };
+
+export interface CounterResult {
+  // False when an add would pass a limit, or a rate window is used up
+  ok: boolean;
+  values: Values;
+  // Milliseconds until the current rate window ends
+  retryAfter?: number;
+}
+
+const MINUTE = 60 * 1000;
+const JOURNAL_MINUTES = 120;
+
+function sum(into: Values, amounts: Values): Values {
+  for (const [name, amount] of Object.entries(amounts)) {
+    into[name] = (into[name] ?? 0) + amount;
+  }
+  return into;
+}
+
+// Counts never go below zero, e.g. when a release follows a recount that
+// already left the upload out
+function clamp(values: Values): Values {
+  for (const name of Object.keys(values)) {
+    values[name] = Math.max(0, values[name]);
+  }
+  return values;
+}
+
+export class Counters {
+  // Rate windows only live in memory; losing one when the object is evicted
+  // just starts a fresh window
+  private window = 0;
+  private hits = 0;
+
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const body = await request.json() as CounterRequest;
+    const result = await this.state.blockConcurrencyWhile(() => this.run(body));
+    return new Response(JSON.stringify(result), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  private async run(body: CounterRequest): Promise<CounterResult> {
+    const storage = this.state.storage;
+    const now = Date.now();
+
+    if (body.op === 'hit') {
+      const window = Math.floor(now / body.window);
+      if (window !== this.window) {
+        this.window = window;
+        this.hits = 0;
+      }
+      const retryAfter = (window + 1) * body.window - now;
+      if (this.hits >= body.limit) {
+        return { ok: false, values: { hits: this.hits }, retryAfter };
+      }
+      this.hits++;
+      return { ok: true, values: { hits: this.hits }, retryAfter };
+    }
+
+    const values = await storage.get<Values>('values') ?? {};
+    if (body.op === 'get') {
+      return { ok: true, values };
+    }
+
+    // Adds per minute, keyed by the minute's start
+    const journal = await storage.get<Record<string, Values>>('journal') ?? {};
+    for (const minute of Object.keys(journal)) {
+      if (Number(minute) < now - JOURNAL_MINUTES * MINUTE) delete journal[minute];
+    }
+
+    if (body.op === 'set') {
+      const since = Math.floor(body.asOf / MINUTE) * MINUTE;
+      const updated = { ...body.values };
+      for (const [minute, amounts] of Object.entries(journal)) {
+        if (Number(minute) >= since) sum(updated, amounts);
+      }
+      clamp(updated);
+      await storage.put({ values: updated, journal });
+      return { ok: true, values: updated };
+    }
+
+    for (const [name, amount] of Object.entries(body.amounts)) {
+      const limit = body.limits?.[name];
+      if (amount > 0 && limit !== undefined && limit !== null && (values[name] ?? 0) + amount > limit) {
+        return { ok: false, values };
+      }
+    }
+
+    const minute = String(Math.floor(now / MINUTE) * MINUTE);
+    journal[minute] = sum(journal[minute] ?? {}, body.amounts);
+    clamp(sum(values, body.amounts));
+    await storage.put({ values, journal });
+    return { ok: true, values };
+  }
+}
+
+async function call(env: Env, name: string, body: CounterRequest): Promise<CounterResult> {
+  const stub = env.COUNTERS.get(env.COUNTERS.idFromName(name));
+  const response = await stub.fetch('https://counters/', {
+    method: 'POST',
+    body: JSON.stringify(body)
+  });
+  if (!response.ok) {
+    throw new Error(`Counter ${name} failed with ${response.status}`);
+  }
+  return await response.json<CounterResult>();
+}
+
+export async function readCounter(env: Env, name: string): Promise<Values> {
+  return (await call(env, name, { op: 'get' })).values;
+}
+
+// Add (or with negative amounts, subtract) unless a positive amount would
+// take its value past its limit, in which case nothing changes
+export function addToCounter(env: Env, name: string, amounts: Values, limits?: Record<string, number | null>): Promise<CounterResult> {
+  return call(env, name, { op: 'add', amounts, limits });
+}
+
+// Replace the values with a recount that started at `asOf`
+export async function setCounter(env: Env, name: string, values: Values, asOf: number): Promise<void> {
+  await call(env, name, { op: 'set', values, asOf });
+}
+
+// Count a request in the current fixed window of `window` milliseconds
+export function hitCounter(env: Env, name: string, limit: number, window: number): Promise<CounterResult> {
+  return call(env, name, { op: 'hit', limit, window });
+}
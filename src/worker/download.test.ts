@@ -0,0 +1,132 @@
+import type { R2Bucket, R2Object } from '@cloudflare/workers-types/latest';
+import { describe, expect, it } from 'vitest';
+import { checkPreconditions, parseRange, serveObject } from './download';
+import { MemoryBucket } from './testing';
+
+const content = 'abcdefghijklmnopqrstuvwxyz';
+
+async function setup() {
+  const bucket = new MemoryBucket();
+  const object = await bucket.put('alice/letters.txt', content, { httpMetadata: { contentType: 'text/plain' } });
+  return { bucket, object: object as unknown as R2Object };
+}
+
+function get(bucket: MemoryBucket, headers: Record<string, string>, method = 'GET'): Promise<Response> {
+  return serveObject(new Request('https://files.example/api/download/letters.txt', { method, headers }), bucket as unknown as R2Bucket, 'alice/letters.txt', {});
+}
+
+describe('parseRange', () => {
+  it('parses closed, open-ended and suffix ranges', () => {
+    expect(parseRange('bytes=0-9', 100)).toEqual({ offset: 0, length: 10 });
+    expect(parseRange('bytes=90-', 100)).toEqual({ offset: 90, length: 10 });
+    expect(parseRange('bytes=-10', 100)).toEqual({ offset: 90, length: 10 });
+  });
+
+  it('clamps ranges that run past the end', () => {
+    expect(parseRange('bytes=95-200', 100)).toEqual({ offset: 95, length: 5 });
+    expect(parseRange('bytes=-500', 100)).toEqual({ offset: 0, length: 100 });
+  });
+
+  it('ignores absent, malformed, reversed and multiple ranges', () => {
+    expect(parseRange(null, 100)).toBeNull();
+    expect(parseRange('bytes=-', 100)).toBeNull();
+    expect(parseRange('items=0-9', 100)).toBeNull();
+    expect(parseRange('bytes=9-0', 100)).toBeNull();
+    expect(parseRange('bytes=0-9,20-29', 100)).toBeNull();
+  });
+
+  it('reports ranges outside the object as unsatisfiable', () => {
+    expect(parseRange('bytes=100-', 100)).toBe('unsatisfiable');
+    expect(parseRange('bytes=-0', 100)).toBe('unsatisfiable');
+    expect(parseRange('bytes=-5', 0)).toBe('unsatisfiable');
+  });
+});
+
+describe('checkPreconditions', () => {
+  it('answers If-None-Match with 304 and If-Match with 412', async () => {
+    const { object } = await setup();
+    const etag = `"${object.etag}"`;
+
+    expect(checkPreconditions(new Headers({ 'If-None-Match': etag }), object)).toBe(304);
+    expect(checkPreconditions(new Headers({ 'If-None-Match': `W/${etag}` }), object)).toBe(304);
+    expect(checkPreconditions(new Headers({ 'If-None-Match': '"other"' }), object)).toBeNull();
+    expect(checkPreconditions(new Headers({ 'If-Match': '"other", "another"' }), object)).toBe(412);
+    expect(checkPreconditions(new Headers({ 'If-Match': `"other", ${etag}` }), object)).toBeNull();
+    expect(checkPreconditions(new Headers({ 'If-Match': '*' }), object)).toBeNull();
+  });
+
+  it('compares dates at second precision and lets etags take precedence', async () => {
+    const { object } = await setup();
+    const uploaded = object.uploaded.toUTCString();
+    const earlier = new Date(object.uploaded.getTime() - 60_000).toUTCString();
+
+    expect(checkPreconditions(new Headers({ 'If-Modified-Since': uploaded }), object)).toBe(304);
+    expect(checkPreconditions(new Headers({ 'If-Modified-Since': earlier }), object)).toBeNull();
+    expect(checkPreconditions(new Headers({ 'If-Unmodified-Since': earlier }), object)).toBe(412);
+    expect(checkPreconditions(new Headers({ 'If-Unmodified-Since': earlier, 'If-Match': `"${object.etag}"` }), object)).toBeNull();
+    expect(checkPreconditions(new Headers({ 'If-Modified-Since': uploaded, 'If-None-Match': '"other"' }), object)).toBeNull();
+  });
+});
+
+describe('serveObject', () => {
+  it('serves a range with 206 and Content-Range', async () => {
+    const { bucket } = await setup();
+    const response = await get(bucket, { Range: 'bytes=2-4' });
+
+    expect(response.status).toBe(206);
+    expect(response.headers.get('Content-Range')).toBe('bytes 2-4/26');
+    expect(response.headers.get('Content-Length')).toBe('3');
+    expect(await response.text()).toBe('cde');
+  });
+
+  it('answers an unsatisfiable range with 416', async () => {
+    const { bucket } = await setup();
+    const response = await get(bucket, { Range: 'bytes=26-' });
+
+    expect(response.status).toBe(416);
+    expect(response.headers.get('Content-Range')).toBe('bytes */26');
+  });
+
+  it('honours the range only while If-Range still matches', async () => {
+    const { bucket, object } = await setup();
+    const uploaded = object.uploaded.toUTCString();
+
+    const matching = await get(bucket, { Range: 'bytes=-3', 'If-Range': object.httpEtag });
+    expect(matching.status).toBe(206);
+    expect(await matching.text()).toBe('xyz');
+
+    const byDate = await get(bucket, { Range: 'bytes=-3', 'If-Range': uploaded });
+    expect(byDate.status).toBe(206);
+
+    for (const ifRange of ['"other"', `W/${object.httpEtag}`, 'Thu, 01 Jan 2015 00:00:00 GMT', 'not a date']) {
+      const response = await get(bucket, { Range: 'bytes=-3', 'If-Range': ifRange });
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Range')).toBeNull();
+      expect(await response.text()).toBe(content);
+    }
+  });
+
+  it('sends headers without a body for HEAD', async () => {
+    const { bucket } = await setup();
+    const response = await get(bucket, { Range: 'bytes=0-0' }, 'HEAD');
+
+    expect(response.status).toBe(206);
+    expect(response.headers.get('Content-Length')).toBe('1');
+    expect(response.headers.get('Accept-Ranges')).toBe('bytes');
+    expect(response.headers.get('Content-Type')).toBe('text/plain');
+  });
+
+  it('answers 412 when the object changes between the HEAD and the read', async () => {
+    const { bucket } = await setup();
+    const changing = {
+      head: (key: string) => bucket.head(key),
+      get: async (key: string, options: object) => {
+        await bucket.put(key, 'changed');
+        return bucket.get(key, options);
+      }
+    } as unknown as MemoryBucket;
+
+    const response = await get(changing, {});
+    expect(response.status).toBe(412);
+  });
+});
@@ -0,0 +1,199 @@
+import type { R2Bucket, R2Object } from '@cloudflare/workers-types/latest';
+import { getSidecar, withSidecar } from './sidecars';
+
+export type ByteRange = { offset: number; length: number };
+
+// Parse a single `bytes=` range against the object size. Returns null when the
+// header should be ignored (absent, malformed or multi-range) and 'unsatisfiable'
+// when it is well-formed but outside the object.
+export function parseRange(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  if (!header) return null;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const suffix = parseInt(match[2], 10);
+    if (suffix === 0 || size === 0) return 'unsatisfiable';
+    const length = Math.min(suffix, size);
+    return { offset: size - length, length };
+  }
+
+  const start = parseInt(match[1], 10);
+  const end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+  if (match[2] !== '' && parseInt(match[2], 10) < start) return null;
+  if (start >= size) return 'unsatisfiable';
+
+  return { offset: start, length: end - start + 1 };
+}
+
+function parseEtags(header: string): string[] {
+  return header.split(',').map((tag) => tag.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1'));
+}
+
+function etagMatches(header: string, object: R2Object): boolean {
+  const tags = parseEtags(header);
+  return tags.includes('*') || tags.includes(object.etag);
+}
+
+// HTTP dates have second precision, so compare at that resolution
+function uploadedSeconds(object: R2Object): number {
+  return Math.floor(object.uploaded.getTime() / 1000);
+}
+
+function parseHttpDate(header: string | null): number | null {
+  if (!header) return null;
+  const time = Date.parse(header);
+  return Number.isNaN(time) ? null : Math.floor(time / 1000);
+}
+
+// Evaluate preconditions in the order RFC 9110 section 13.2.2 prescribes.
+export function checkPreconditions(headers: Headers, object: R2Object): 304 | 412 | null {
+  const ifMatch = headers.get('If-Match');
+  if (ifMatch !== null) {
+    if (!etagMatches(ifMatch, object)) return 412;
+  } else {
+    const unmodifiedSince = parseHttpDate(headers.get('If-Unmodified-Since'));
+    if (unmodifiedSince !== null && uploadedSeconds(object) > unmodifiedSince) return 412;
+  }
+
+  const ifNoneMatch = headers.get('If-None-Match');
+  if (ifNoneMatch !== null) {
+    if (etagMatches(ifNoneMatch, object)) return 304;
+  } else {
+    const modifiedSince = parseHttpDate(headers.get('If-Modified-Since'));
+    if (modifiedSince !== null && uploadedSeconds(object) <= modifiedSince) return 304;
+  }
+
+  return null;
+}
+
+// A Range is only honoured when If-Range (if present) still describes the object
+function rangeApplies(headers: Headers, object: R2Object): boolean {
+  const ifRange = headers.get('If-Range');
+  if (ifRange === null) return true;
+  const value = ifRange.trim();
+  // Weak validators never match for If-Range
+  if (value.startsWith('W/')) return false;
+  if (value.startsWith('"')) return parseEtags(value)[0] === object.etag;
+  const date = parseHttpDate(value);
+  return date !== null && uploadedSeconds(object) === date;
+}
+
+function hexToBase64(hex: string): string {
+  return btoa(String.fromCharCode(...(hex.match(/../g) ?? []).map((byte) => parseInt(byte, 16))));
+}
+
+export interface ServeOptions {
+  // Name offered to the browser; defaults to the object key
+  filename?: string;
+  // Display in the browser (previews) instead of saving
+  inline?: boolean;
+  // Called when the object's content is about to be sent, with the part of
+  // it that is (null for all of it)
+  onServe?: (object: R2Object, range: ByteRange | null) => void;
+  // Called once a GET is known to send content, before it is read; a Response
+  // returned is sent instead (e.g. when a share link has no downloads left)
+  beforeServe?: (object: R2Object, range: ByteRange | null) => Promise<Response | null>;
+}
+
+export async function serveObject(
+  request: Request,
+  bucket: R2Bucket,
+  key: string,
+  corsHeaders: Record<string, string>,
+  options: ServeOptions = {}
+): Promise<Response> {
+  const object = await bucket.head(key);
+
+  if (!object) {
+    return new Response('File not found', {
+      status: 404,
+      headers: corsHeaders
+    });
+  }
+
+  const headers = new Headers(corsHeaders);
+  headers.set('Accept-Ranges', 'bytes');
+  headers.set('ETag', object.httpEtag);
+  headers.set('Last-Modified', object.uploaded.toUTCString());
+
+  // Checksum of the whole file recorded at upload time (RFC 9530, plus the
+  // older RFC 3230 header many download tools still read)
+  const sha256 = object.customMetadata?.sha256;
+  if (sha256) {
+    headers.set('Repr-Digest', `sha-256=:${hexToBase64(sha256)}:`);
+    headers.set('Digest', `sha-256=${hexToBase64(sha256)}`);
+  }
+
+  // Browser-side encryption parameters, so a client can decrypt what it downloads
+  const encryption = object.customMetadata?.encryption;
+  if (encryption) {
+    headers.set('X-Encryption', encryption);
+  }
+
+  const precondition = checkPreconditions(request.headers, object);
+  if (precondition !== null) {
+    return new Response(null, { status: precondition, headers });
+  }
+
+  // The content type may have been edited since the upload
+  const { httpMetadata } = withSidecar(object, await getSidecar(bucket, object));
+  const contentType = httpMetadata.contentType || 'application/octet-stream';
+  headers.set('Content-Type', contentType);
+  headers.set('Content-Disposition', `${options.inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(options.filename ?? key)}`);
+  if (options.inline) {
+    // Uploaded HTML or SVG must not run scripts on our origin. Browsers' PDF
+    // viewers refuse to load inside a sandbox, so PDFs are left out.
+    headers.set('X-Content-Type-Options', 'nosniff');
+    if (contentType.split(';')[0].trim() !== 'application/pdf') {
+      headers.set('Content-Security-Policy', 'sandbox');
+    }
+  }
+
+  const range = rangeApplies(request.headers, object)
+    ? parseRange(request.headers.get('Range'), object.size)
+    : null;
+
+  if (range === 'unsatisfiable') {
+    headers.set('Content-Range', `bytes */${object.size}`);
+    return new Response(null, { status: 416, headers });
+  }
+
+  const status = range ? 206 : 200;
+  headers.set('Content-Length', (range ? range.length : object.size).toString());
+  if (range) {
+    headers.set('Content-Range', `bytes ${range.offset}-${range.offset + range.length - 1}/${object.size}`);
+  }
+
+  if (request.method === 'HEAD') {
+    return new Response(null, { status, headers });
+  }
+
+  const refusal = await options.beforeServe?.(object, range);
+  if (refusal) {
+    return refusal;
+  }
+
+  // Pin the read to the version we just inspected so the headers stay accurate
+  const result = await bucket.get(key, {
+    range: range ?? undefined,
+    onlyIf: { etagMatches: object.etag }
+  });
+
+  if (!result || !('body' in result)) {
+    return new Response('File changed during download', {
+      status: 412,
+      headers: corsHeaders
+    });
+  }
+
+  options.onServe?.(object, range);
+
+  // Stream the response
+  return new Response(result.body as BodyInit, {
+    headers,
+    status
+  });
+}
@@ -0,0 +1,55 @@
+import type { DurableObjectNamespace, ImagesBinding, Queue, R2Bucket } from '@cloudflare/workers-types/latest';
+import type { ImportMessage } from './imports';
+import type { WebhookMessage } from './webhooks';
+
+export interface Env {
+  BUCKET: R2Bucket;
+  // Durable Objects holding storage usage and rate limit counters
+  COUNTERS: DurableObjectNamespace;
+  // Images binding for preview thumbnails; without it, previews show the original
+  IMAGES?: ImagesBinding;
+  // Queue that runs URL imports; without it, imports are turned down
+  IMPORT_QUEUE?: Queue<ImportMessage>;
+  // Comma-separated hosts imports may fetch from even though they are private (e.g. localhost)
+  IMPORT_ALLOWED_HOSTS?: string;
+  // Queue that delivers and retries webhooks; without it, deliveries are retried briefly in the background
+  WEBHOOK_QUEUE?: Queue<WebhookMessage>;
+  // Comma-separated hosts webhooks may be delivered to even though they are private (e.g. localhost)
+  WEBHOOK_ALLOWED_HOSTS?: string;
+  R2_ACCESS_KEY_ID: string;
+  R2_SECRET_ACCESS_KEY: string;
+  R2_ACCOUNT_ID: string;
+  // Bucket name as seen by the S3 API (the binding hides it)
+  R2_BUCKET_NAME?: string;
+  // 'proxy' streams parts through the Worker, 'presigned' sends browsers straight to R2
+  UPLOAD_MODE?: string;
+  // Lifetime of presigned URLs in seconds
+  PRESIGNED_URL_TTL?: string;
+  // Seconds before an unfinished multipart upload is aborted by the cron job
+  STALE_UPLOAD_TTL?: string;
+  // Bytes all users together may store
+  STORAGE_QUOTA?: string;
+  // Defaults for every user: bytes stored, bytes per file, allowed extensions
+  // and MIME types (comma-separated), and API requests per minute
+  USER_QUOTA?: string;
+  MAX_FILE_SIZE?: string;
+  ALLOWED_FILE_TYPES?: string;
+  RATE_LIMIT?: string;
+  // JSON object mapping user ids to their own quota, maxFileSize, allowedTypes and requestsPerMinute
+  USER_LIMITS?: string;
+  // Days audit log entries are kept; 0 keeps them forever (default 90)
+  AUDIT_RETENTION_DAYS?: string;
+  // Comma-separated user ids allowed to use the admin endpoints
+  ADMIN_USERS?: string;
+  // JSON object mapping API tokens to user ids
+  API_TOKENS?: string;
+  // HMAC key for browser session cookies
+  SESSION_SECRET?: string;
+  // HMAC key for share links; falls back to SESSION_SECRET
+  SHARE_SECRET?: string;
+  // Accept JWTs from this issuer (e.g. a Cloudflare Access team domain)
+  JWT_ISSUER?: string;
+  JWT_AUDIENCE?: string;
+  // Defaults to `${JWT_ISSUER}/.well-known/jwks.json`
+  JWT_JWKS_URL?: string;
+}
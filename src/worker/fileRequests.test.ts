@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import type { Env } from './env';
+import { checkFileRequestCapacity, FileRequest, fileRequestInfo, reserveFileRequest, tryReleaseFileRequest } from './fileRequests';
+import { testEnv } from './testing';
+
+function fileRequest(limits: Pick<FileRequest, 'maxBytes' | 'maxFiles'>): FileRequest {
+  return {
+    id: crypto.randomUUID(),
+    owner: 'alice',
+    folder: 'inbox/',
+    note: null,
+    createdAt: new Date().toISOString(),
+    expiresAt: Math.floor(Date.now() / 1000) + 3600,
+    ...limits
+  };
+}
+
+async function reserveAll(env: Env, link: FileRequest, sizes: number[]): Promise<(string | null)[]> {
+  return Promise.all(sizes.map((size) => reserveFileRequest(env, link, size)));
+}
+
+describe('file request capacity', () => {
+  it('accepts anything on a link without limits', async () => {
+    const env = testEnv();
+    const link = fileRequest({ maxBytes: null, maxFiles: null });
+
+    expect(await checkFileRequestCapacity(env, link, 10 ** 12)).toBeNull();
+    expect(await reserveFileRequest(env, link, 10 ** 12)).toBeNull();
+    expect(await fileRequestInfo(env, link)).toMatchObject({ remainingBytes: null, remainingFiles: null });
+  });
+
+  it('stops at the file limit', async () => {
+    const env = testEnv();
+    const link = fileRequest({ maxBytes: null, maxFiles: 2 });
+
+    expect(await reserveFileRequest(env, link, 100)).toBeNull();
+    expect(await reserveFileRequest(env, link, 100)).toBeNull();
+    expect(await checkFileRequestCapacity(env, link, 1)).toBe('This link accepts at most 2 files');
+    expect(await reserveFileRequest(env, link, 1)).toBe('This link accepts at most 2 files');
+    expect(await fileRequestInfo(env, link)).toMatchObject({ remainingFiles: 0 });
+  });
+
+  it('stops at the byte limit and says how much is left', async () => {
+    const env = testEnv();
+    const link = fileRequest({ maxBytes: 1000, maxFiles: null });
+
+    expect(await reserveFileRequest(env, link, 700)).toBeNull();
+    expect(await checkFileRequestCapacity(env, link, 300)).toBeNull();
+    expect(await checkFileRequestCapacity(env, link, 301)).toBe('This link accepts 300 more bytes');
+    expect(await reserveFileRequest(env, link, 301)).toBe('This link accepts 300 more bytes');
+    expect(await reserveFileRequest(env, link, 300)).toBeNull();
+    expect(await fileRequestInfo(env, link)).toMatchObject({ remainingBytes: 0, remainingFiles: null });
+  });
+
+  it('does not let uploads started at the same time go over together', async () => {
+    const env = testEnv();
+    const bytesLink = fileRequest({ maxBytes: 1000, maxFiles: null });
+    const filesLink = fileRequest({ maxBytes: null, maxFiles: 2 });
+
+    // Each would fit on its own
+    const byBytes = await reserveAll(env, bytesLink, [300, 300, 300, 300, 300]);
+    expect(byBytes.filter((result) => result === null)).toHaveLength(3);
+    expect(await fileRequestInfo(env, bytesLink)).toMatchObject({ remainingBytes: 100 });
+
+    const byFiles = await reserveAll(env, filesLink, [1, 1, 1, 1, 1]);
+    expect(byFiles.filter((result) => result === null)).toHaveLength(2);
+    expect(await fileRequestInfo(env, filesLink)).toMatchObject({ remainingFiles: 0 });
+  });
+
+  it('gives back what a failed upload reserved', async () => {
+    const env = testEnv();
+    const link = fileRequest({ maxBytes: 1000, maxFiles: 1 });
+
+    expect(await reserveFileRequest(env, link, 1000)).toBeNull();
+    expect(await checkFileRequestCapacity(env, link, 1)).not.toBeNull();
+
+    await tryReleaseFileRequest(env, link.id, 1000);
+    expect(await checkFileRequestCapacity(env, link, 1000)).toBeNull();
+    // Counts never go below zero, even when released twice
+    await tryReleaseFileRequest(env, link.id, 1000);
+    expect(await fileRequestInfo(env, link)).toMatchObject({ remainingBytes: 1000, remainingFiles: 1 });
+  });
+});
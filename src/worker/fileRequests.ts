@@ -0,0 +1,281 @@
+import type { R2Bucket } from '@cloudflare/workers-types/latest';
+import { addToCounter, readCounter } from './counters';
+import type { Env } from './env';
+import { keyDigest } from './keys';
+import { SYSTEM_PREFIX } from './sessions';
+import { signLink, verifyLink } from './shares';
+
+// File requests: upload-only links into one of a user's folders, for people
+// without an account. Uploads through a link act for the owner, but names are
+// confined to the link's folder and only the upload endpoints answer (see
+// index.ts). Every file that arrives is recorded under the link, so the owner
+// can see what came in through which one, and files that arrived since the
+// owner last looked are shown as new.
+//
+// A link with limits counts what it has accepted in its own counter (see
+// counters.ts): each upload is checked and counted in one step as it starts,
+// and released if it fails or is aborted, so uploads started at the same
+// moment can't together go over.
+
+const REQUEST_PREFIX = `${SYSTEM_PREFIX}file-requests/`;
+const OWNER_PREFIX = `${SYSTEM_PREFIX}file-request-owners/`;
+const RECEIVED_PREFIX = `${SYSTEM_PREFIX}file-request-files/`;
+
+export const MAX_FILE_REQUEST_TTL = 30 * 24 * 60 * 60; // 30 days
+export const MAX_NOTE_LENGTH = 1000;
+
+export interface FileRequest {
+  id: string;
+  owner: string;
+  // Where uploads go, relative to the owner's root: a folder ending in '/',
+  // or '' for the top level
+  folder: string;
+  // Shown to the uploader
+  note: string | null;
+  createdAt: string;
+  expiresAt: number;
+  // Totals the link accepts; null for no limit
+  maxBytes: number | null;
+  maxFiles: number | null;
+  // When the owner last looked at the received files
+  lastViewedAt?: string;
+}
+
+export interface ReceivedFile {
+  // Relative to the owner's root, as it was stored
+  key: string;
+  size: number;
+  receivedAt: string;
+}
+
+export interface FileRequestUsage {
+  bytes: number;
+  files: number;
+}
+
+// What the owner sees when listing their links
+export type FileRequestSummary = FileRequest & {
+  url: string;
+  received: FileRequestUsage;
+  // Files received since the owner last looked
+  unread: number;
+};
+
+// What the uploader sees; nothing about the owner's files
+export interface FileRequestInfo {
+  note: string | null;
+  expiresAt: number;
+  maxBytes: number | null;
+  maxFiles: number | null;
+  // What may still be uploaded; null when unlimited
+  remainingBytes: number | null;
+  remainingFiles: number | null;
+}
+
+function requestPath(id: string): string {
+  return `${REQUEST_PREFIX}${id}.json`;
+}
+
+function ownerPath(owner: string, id: string): string {
+  return `${OWNER_PREFIX}${encodeURIComponent(owner)}/${id}`;
+}
+
+function receivedPrefix(id: string): string {
+  return `${RECEIVED_PREFIX}${id}/`;
+}
+
+function counterName(id: string): string {
+  return `file-request:${id}`;
+}
+
+// Signed apart from share links so neither kind of signature fits the other
+function subject(id: string): string {
+  return `request:${id}`;
+}
+
+// `<id>.<expiresAt>.<signature>`, sent by the upload page as X-File-Request
+export async function fileRequestToken(env: Env, fileRequest: FileRequest): Promise<string> {
+  return `${fileRequest.id}.${fileRequest.expiresAt}.${await signLink(env, subject(fileRequest.id), fileRequest.expiresAt)}`;
+}
+
+// The app's upload page for the link
+export async function fileRequestUrl(env: Env, origin: string, fileRequest: FileRequest): Promise<string> {
+  return `${origin}/?request=${await fileRequestToken(env, fileRequest)}`;
+}
+
+async function saveFileRequest(bucket: R2Bucket, fileRequest: FileRequest): Promise<void> {
+  await bucket.put(requestPath(fileRequest.id), JSON.stringify(fileRequest), {
+    httpMetadata: { contentType: 'application/json' }
+  });
+}
+
+export async function createFileRequest(
+  env: Env,
+  fields: Pick<FileRequest, 'owner' | 'folder' | 'note' | 'expiresAt' | 'maxBytes' | 'maxFiles'>
+): Promise<FileRequest> {
+  const fileRequest: FileRequest = {
+    ...fields,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString()
+  };
+
+  await saveFileRequest(env.BUCKET, fileRequest);
+  await env.BUCKET.put(ownerPath(fileRequest.owner, fileRequest.id), '');
+
+  return fileRequest;
+}
+
+export async function getFileRequest(bucket: R2Bucket, id: string): Promise<FileRequest | null> {
+  if (!/^[\w-]+$/.test(id)) return null;
+  const object = await bucket.get(requestPath(id));
+  return object ? await object.json<FileRequest>() : null;
+}
+
+// The link a token belongs to, if the token is genuine and hasn't expired
+export async function verifyFileRequestToken(env: Env, token: string): Promise<FileRequest | null> {
+  const [id, expires, signature, ...rest] = token.trim().split('.');
+  if (!id || rest.length > 0) return null;
+
+  const fileRequest = await getFileRequest(env.BUCKET, id);
+  if (!fileRequest || !(await verifyLink(env, subject(id), fileRequest.expiresAt, expires ?? null, signature ?? null))) {
+    return null;
+  }
+  return fileRequest;
+}
+
+export async function listFileRequests(bucket: R2Bucket, owner: string): Promise<FileRequest[]> {
+  const prefix = `${OWNER_PREFIX}${encodeURIComponent(owner)}/`;
+  const fileRequests: FileRequest[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await bucket.list({ prefix, cursor });
+    for (const object of page.objects) {
+      const fileRequest = await getFileRequest(bucket, object.key.slice(prefix.length));
+      if (fileRequest) fileRequests.push(fileRequest);
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  return fileRequests.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// The link stops working; files that came in through it stay
+export async function deleteFileRequest(bucket: R2Bucket, fileRequest: FileRequest): Promise<void> {
+  await bucket.delete([requestPath(fileRequest.id), ownerPath(fileRequest.owner, fileRequest.id)]);
+
+  let truncated = true;
+  while (truncated) {
+    const page = await bucket.list({ prefix: receivedPrefix(fileRequest.id) });
+    if (page.objects.length === 0) break;
+    await bucket.delete(page.objects.map((object) => object.key));
+    truncated = page.truncated;
+  }
+}
+
+// The owner has seen everything received so far
+export async function markFileRequestViewed(bucket: R2Bucket, fileRequest: FileRequest): Promise<void> {
+  await saveFileRequest(bucket, { ...fileRequest, lastViewedAt: new Date().toISOString() });
+}
+
+// Named after a digest of the name, which may be as long as a key can be;
+// the name itself is kept in the metadata
+export async function recordReceivedFile(bucket: R2Bucket, fileRequest: FileRequest, key: string, size: number): Promise<void> {
+  await bucket.put(`${receivedPrefix(fileRequest.id)}${await keyDigest(key)}`, '', {
+    customMetadata: { key, size: String(size), receivedAt: new Date().toISOString() }
+  });
+}
+
+export async function listReceivedFiles(bucket: R2Bucket, fileRequest: FileRequest): Promise<ReceivedFile[]> {
+  const prefix = receivedPrefix(fileRequest.id);
+  const files: ReceivedFile[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await bucket.list({ prefix, cursor, include: ['customMetadata'] });
+    for (const object of page.objects) {
+      files.push({
+        key: object.customMetadata?.key ?? '',
+        size: parseInt(object.customMetadata?.size ?? '0', 10) || 0,
+        receivedAt: object.customMetadata?.receivedAt ?? ''
+      });
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  return files.sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+}
+
+function hasLimits(fileRequest: FileRequest): boolean {
+  return fileRequest.maxBytes !== null || fileRequest.maxFiles !== null;
+}
+
+// Bytes and files accepted so far, counting uploads still in progress
+async function usageOf(env: Env, fileRequest: FileRequest): Promise<FileRequestUsage> {
+  if (!hasLimits(fileRequest)) return { bytes: 0, files: 0 };
+  const values = await readCounter(env, counterName(fileRequest.id));
+  return { bytes: values.bytes ?? 0, files: values.files ?? 0 };
+}
+
+function capacityError(fileRequest: FileRequest, usage: FileRequestUsage, size: number): string | null {
+  if (fileRequest.maxFiles !== null && usage.files + 1 > fileRequest.maxFiles) {
+    return `This link accepts at most ${fileRequest.maxFiles} files`;
+  }
+  if (fileRequest.maxBytes !== null && usage.bytes + size > fileRequest.maxBytes) {
+    return `This link accepts ${Math.max(0, fileRequest.maxBytes - usage.bytes)} more bytes`;
+  }
+  return null;
+}
+
+// Why a file of `size` bytes doesn't fit in what the link has left, or null
+// if it does. Only a check; reserveFileRequest counts the file.
+export async function checkFileRequestCapacity(env: Env, fileRequest: FileRequest, size: number): Promise<string | null> {
+  if (!hasLimits(fileRequest)) return null;
+  return capacityError(fileRequest, await usageOf(env, fileRequest), size);
+}
+
+// Count a file of `size` bytes against the link if it fits; otherwise
+// returns why it doesn't
+export async function reserveFileRequest(env: Env, fileRequest: FileRequest, size: number): Promise<string | null> {
+  if (!hasLimits(fileRequest)) return null;
+  const result = await addToCounter(
+    env,
+    counterName(fileRequest.id),
+    { bytes: size, files: 1 },
+    { bytes: fileRequest.maxBytes, files: fileRequest.maxFiles }
+  );
+  return result.ok ? null : capacityError(fileRequest, { bytes: result.values.bytes ?? 0, files: result.values.files ?? 0 }, size);
+}
+
+// Give back what reserveFileRequest counted, for an upload through the link
+// that failed or was aborted. Only the link's id may be known by then (from
+// an upload session), and counters never go below zero, so this is safe for
+// links without limits too.
+export async function tryReleaseFileRequest(env: Env, id: string, size: number): Promise<void> {
+  await addToCounter(env, counterName(id), { bytes: -size, files: -1 }).catch((error) => {
+    console.error(`Failed to release ${size} bytes for file request ${id}:`, error);
+  });
+}
+
+export async function summarizeFileRequest(env: Env, origin: string, fileRequest: FileRequest): Promise<FileRequestSummary> {
+  const received = await listReceivedFiles(env.BUCKET, fileRequest);
+  const lastViewedAt = fileRequest.lastViewedAt ?? '';
+  return {
+    ...fileRequest,
+    url: await fileRequestUrl(env, origin, fileRequest),
+    received: { bytes: received.reduce((sum, file) => sum + file.size, 0), files: received.length },
+    unread: received.filter((file) => file.receivedAt > lastViewedAt).length
+  };
+}
+
+export async function fileRequestInfo(env: Env, fileRequest: FileRequest): Promise<FileRequestInfo> {
+  const usage = await usageOf(env, fileRequest);
+  return {
+    note: fileRequest.note,
+    expiresAt: fileRequest.expiresAt,
+    maxBytes: fileRequest.maxBytes,
+    maxFiles: fileRequest.maxFiles,
+    remainingBytes: fileRequest.maxBytes !== null ? Math.max(0, fileRequest.maxBytes - usage.bytes) : null,
+    remainingFiles: fileRequest.maxFiles !== null ? Math.max(0, fileRequest.maxFiles - usage.files) : null
+  };
+}
@@ -0,0 +1,201 @@
+import type { R2Bucket, R2Object } from '@cloudflare/workers-types/latest';
+import { deleteDownloadStats, moveDownloadStats } from './audit';
+import type { Env } from './env';
+import { ConflictError, noOverwrite } from './keys';
+import { choosePartSize, MAX_PART_SIZE } from './partSizing';
+import { copyObjectInBucket, copyPartInBucket, hasS3Credentials, isPreconditionFailed } from './presign';
+import { copySidecar, deleteSidecars } from './sidecars';
+import { fixedLengthStream } from './streams';
+import { deleteThumbnails } from './thumbnails';
+
+// R2 copies up to 5 GiB in one call and takes single PUTs just short of
+// that; larger objects are copied part by part
+const MAX_SINGLE_COPY = 5 * 1024 * 1024 * 1024;
+const MAX_SINGLE_PUT = MAX_SINGLE_COPY - 1;
+// R2 deletes at most this many keys per call
+const DELETE_BATCH = 1000;
+// Objects looked up at once when deleting a selection
+const HEAD_BATCH = 50;
+
+export interface CopyOptions {
+  // When false, an existing destination is left alone (ConflictError)
+  overwrite?: boolean;
+}
+
+// R2 copies the bytes itself through the S3 API, so the Worker's time
+// doesn't grow with the file
+async function copyInR2(env: Env, source: R2Object, to: string, overwrite: boolean): Promise<void> {
+  const bucket = env.BUCKET;
+  const from = source.key;
+
+  if (source.size <= MAX_SINGLE_COPY) {
+    try {
+      await copyObjectInBucket(env, from, to, { ifMatch: source.etag, ifNoneMatch: !overwrite });
+    } catch (error) {
+      if (!isPreconditionFailed(error)) throw error;
+      throw !overwrite && await bucket.head(to) ? new ConflictError(to) : new Error('Source changed while copying');
+    }
+    return;
+  }
+
+  // Multipart uploads can't complete conditionally, so check beforehand
+  if (!overwrite && await bucket.head(to)) {
+    throw new ConflictError(to);
+  }
+
+  // Created through the binding, which takes any metadata, where S3 headers are ASCII-only
+  const partSize = choosePartSize(source.size, MAX_PART_SIZE);
+  const upload = await bucket.createMultipartUpload(to, {
+    httpMetadata: source.httpMetadata,
+    customMetadata: source.customMetadata
+  });
+  try {
+    const parts = [];
+    for (let offset = 0, partNumber = 1; offset < source.size; offset += partSize, partNumber++) {
+      const range = { offset, length: Math.min(partSize, source.size - offset) };
+      try {
+        parts.push({ partNumber, etag: await copyPartInBucket(env, from, to, upload.uploadId, partNumber, range, source.etag) });
+      } catch (error) {
+        throw isPreconditionFailed(error) ? new Error('Source changed while copying') : error;
+      }
+    }
+    await upload.complete(parts);
+  } catch (error) {
+    await upload.abort().catch(() => undefined);
+    throw error;
+  }
+}
+
+// Without S3 credentials the bytes are streamed through the Worker instead,
+// one part at a time for objects too large for a single PUT
+async function copyThroughWorker(bucket: R2Bucket, source: R2Object, to: string, overwrite: boolean): Promise<void> {
+  const from = source.key;
+  const options = {
+    httpMetadata: source.httpMetadata,
+    customMetadata: source.customMetadata
+  };
+
+  if (source.size <= MAX_SINGLE_PUT) {
+    const object = await bucket.get(from, { onlyIf: { etagMatches: source.etag } });
+    if (!object || !('body' in object)) {
+      throw new Error('Source changed while copying');
+    }
+    const copy = await bucket.put(to, fixedLengthStream(object.body, source.size), {
+      ...options,
+      ...(!overwrite && { onlyIf: noOverwrite() })
+    });
+    if (!copy) {
+      throw new ConflictError(to);
+    }
+    return;
+  }
+
+  // Multipart uploads can't complete conditionally, so check beforehand
+  if (!overwrite && await bucket.head(to)) {
+    throw new ConflictError(to);
+  }
+
+  const partSize = choosePartSize(source.size);
+  const upload = await bucket.createMultipartUpload(to, options);
+  try {
+    const parts = [];
+    for (let offset = 0, partNumber = 1; offset < source.size; offset += partSize, partNumber++) {
+      const length = Math.min(partSize, source.size - offset);
+      const object = await bucket.get(from, {
+        range: { offset, length },
+        onlyIf: { etagMatches: source.etag }
+      });
+      if (!object || !('body' in object)) {
+        throw new Error('Source changed while copying');
+      }
+      parts.push(await upload.uploadPart(partNumber, fixedLengthStream(object.body, length)));
+    }
+    await upload.complete(parts);
+  } catch (error) {
+    await upload.abort().catch(() => undefined);
+    throw error;
+  }
+}
+
+// Copy an object, keeping its content type, metadata (edits included) and
+// stored checksum. Returns null when the source doesn't exist.
+export async function copyObject(env: Env, from: string, to: string, copyOptions: CopyOptions = {}): Promise<R2Object | null> {
+  const bucket = env.BUCKET;
+  const source = await bucket.head(from);
+  if (!source) return null;
+
+  const overwrite = copyOptions.overwrite ?? true;
+  if (hasS3Credentials(env)) {
+    await copyInR2(env, source, to, overwrite);
+  } else {
+    await copyThroughWorker(bucket, source, to, overwrite);
+  }
+
+  const copy = await bucket.head(to);
+  if (!copy) {
+    throw new Error('Copy disappeared before it could be read back');
+  }
+  await copySidecar(bucket, source, copy);
+  return copy;
+}
+
+// R2 has no rename, so a move is a copy followed by deleting the source
+export async function moveObject(env: Env, from: string, to: string, overwrite = true): Promise<R2Object | null> {
+  const bucket = env.BUCKET;
+  const object = await copyObject(env, from, to, { overwrite });
+  if (object) {
+    await bucket.delete(from);
+    await deleteThumbnails(bucket, [from]);
+    await deleteSidecars(bucket, [from]);
+    await moveDownloadStats(env, from, object);
+  }
+  return object;
+}
+
+async function removeObjects(bucket: R2Bucket, keys: string[]): Promise<void> {
+  for (let i = 0; i < keys.length; i += DELETE_BATCH) {
+    const batch = keys.slice(i, i + DELETE_BATCH);
+    await bucket.delete(batch);
+    await deleteThumbnails(bucket, batch);
+    await deleteSidecars(bucket, batch);
+    await deleteDownloadStats(bucket, batch);
+  }
+}
+
+// Delete those of `keys` that exist. Returns how many did and the bytes they
+// took up.
+export async function deleteObjects(bucket: R2Bucket, keys: string[]): Promise<{ deleted: number; bytes: number }> {
+  const existing: string[] = [];
+  let bytes = 0;
+  for (let i = 0; i < keys.length; i += HEAD_BATCH) {
+    const objects = await Promise.all(keys.slice(i, i + HEAD_BATCH).map((key) => bucket.head(key)));
+    for (const object of objects) {
+      if (!object) continue;
+      existing.push(object.key);
+      bytes += object.size;
+    }
+  }
+
+  await removeObjects(bucket, existing);
+  return { deleted: existing.length, bytes };
+}
+
+// Delete everything under a prefix, one listing page at a time. Returns the
+// number of objects and the bytes they took up.
+export async function deletePrefix(bucket: R2Bucket, prefix: string): Promise<{ deleted: number; bytes: number }> {
+  let deleted = 0;
+  let bytes = 0;
+  let truncated = true;
+
+  while (truncated) {
+    // Deleting shifts the listing, so always start again from the top
+    const page = await bucket.list({ prefix, limit: DELETE_BATCH });
+    if (page.objects.length === 0) break;
+    await removeObjects(bucket, page.objects.map((object) => object.key));
+    deleted += page.objects.length;
+    bytes += page.objects.reduce((sum, object) => sum + object.size, 0);
+    truncated = page.truncated;
+  }
+
+  return { deleted, bytes };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { isAllowedHost } from './hosts';
+
+describe('isAllowedHost', () => {
+  it('refuses loopback, private and link-local hosts', () => {
+    for (const url of [
+      'http://localhost/',
+      'http://files.local/',
+      'http://metadata.internal/',
+      'http://127.0.0.1:8080/',
+      'http://10.1.2.3/',
+      'http://172.16.0.1/',
+      'http://192.168.1.1/',
+      'http://169.254.169.254/',
+      'http://0x7f000001/',
+      'http://[::1]/',
+      'http://[fd00::1]/',
+      'http://[::ffff:127.0.0.1]/'
+    ]) {
+      expect(isAllowedHost(new URL(url)), url).toBe(false);
+    }
+  });
+
+  it('accepts public hosts', () => {
+    for (const url of ['https://example.com/', 'https://8.8.8.8/', 'https://172.32.0.1/', 'https://[2001:db8::1]/']) {
+      expect(isAllowedHost(new URL(url)), url).toBe(true);
+    }
+  });
+
+  it('accepts private hosts that are explicitly allowed', () => {
+    expect(isAllowedHost(new URL('http://localhost:8787/'), 'example.com, LOCALHOST')).toBe(true);
+    expect(isAllowedHost(new URL('http://127.0.0.1/'), 'localhost')).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+// Hosts the Worker must not send requests to on a user's behalf (URL
+// imports, webhook deliveries): loopback, private networks, link-local and
+// the like, by name or literal address.
+
+function ipv4Octets(hostname: string): number[] | null {
+  const octets = hostname.split('.');
+  if (octets.length !== 4 || !octets.every((octet) => /^\d{1,3}$/.test(octet))) return null;
+  const values = octets.map(Number);
+  return values.every((value) => value <= 255) ? values : null;
+}
+
+function isPrivateIpv4([a, b]: number[]): boolean {
+  return a === 0 || a === 10 || a === 127 || a >= 224 ||
+    (a === 100 && b >= 64 && b < 128) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19));
+}
+
+// URL has already normalised the address, so IPv4-mapped ones look like ::ffff:7f00:1
+function isPrivateIpv6(address: string): boolean {
+  if (address === '::' || address === '::1') return true;
+  if (/^f[cd]/.test(address) || /^fe[89ab]/.test(address) || address.startsWith('ff')) return true;
+
+  const mapped = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const high = parseInt(mapped[1], 16);
+    const low = parseInt(mapped[2], 16);
+    return isPrivateIpv4([high >> 8, high & 0xff, low >> 8, low & 0xff]);
+  }
+  return false;
+}
+
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (host === 'localhost' || /\.(localhost|local|internal)$/.test(host)) return true;
+  if (host.startsWith('[')) return isPrivateIpv6(host.slice(1, -1));
+  const octets = ipv4Octets(host);
+  return octets !== null && isPrivateIpv4(octets);
+}
+
+// `allowedHosts` is a comma-separated list of hosts that may be private
+// anyway, e.g. `localhost` for a local test server
+export function isAllowedHost(url: URL, allowedHosts = ''): boolean {
+  const allowed = allowedHosts.split(',').map((host) => host.trim().toLowerCase()).filter(Boolean);
+  return allowed.includes(url.hostname.toLowerCase()) || !isPrivateHost(url.hostname);
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { parseContentRange } from './imports';
+
+describe('parseContentRange', () => {
+  it('parses a range with a known or unknown total', () => {
+    expect(parseContentRange('bytes 100-199/1000')).toEqual({ start: 100, end: 199, size: 1000 });
+    expect(parseContentRange('bytes 100-199/*')).toEqual({ start: 100, end: 199, size: null });
+  });
+
+  it('rejects missing, malformed and inconsistent ranges', () => {
+    expect(parseContentRange(null)).toBeNull();
+    expect(parseContentRange('bytes */1000')).toBeNull();
+    expect(parseContentRange('bytes=100-199/1000')).toBeNull();
+    expect(parseContentRange('bytes 200-100/1000')).toBeNull();
+    expect(parseContentRange('bytes 900-1000/1000')).toBeNull();
+  });
+});
@@ -0,0 +1,523 @@
+import type {
+  R2Bucket,
+  R2MultipartUpload,
+  R2UploadedPart,
+  ReadableStream,
+  ReadableStreamDefaultReader
+} from '@cloudflare/workers-types/latest';
+import { recordAudit } from './audit';
+import type { Env } from './env';
+import { isAllowedHost } from './hosts';
+import { ConflictError, ConflictPolicy, noOverwrite } from './keys';
+import { checkFile, Limits, LimitViolation, limitsFor, reserveStorage, tryReleaseStorage } from './limits';
+import { applyUserMetadata, resolveContentType, UserMetadata } from './metadata';
+import { choosePartSize, MAX_OBJECT_SIZE, MAX_PARTS } from './partSizing';
+import { SYSTEM_PREFIX } from './sessions';
+import { fixedLengthStream, SourceReader } from './streams';
+import { emitEvent } from './webhooks';
+
+// Server-side "import from URL": the Worker fetches a file from another HTTP
+// server and streams it into R2. Jobs run on the IMPORT_QUEUE consumer (no
+// time limit worth worrying about, and redelivered if the Worker dies);
+// without the queue, imports are turned down rather than run in the
+// background of a request, which is cut off long before a big file is done.
+// Progress is saved after every part so a retried job resumes.
+//
+// Sources on loopback, private and link-local addresses are refused, on the
+// first request and on every redirect, so an import can't be pointed at
+// services that only the Worker's network can reach. Host names are only
+// checked by their shape, as a Worker can't resolve them itself.
+
+const IMPORT_PREFIX = `${SYSTEM_PREFIX}imports/`;
+// Sources that announce at most this many bytes are written with a single PUT
+const SINGLE_PUT_LIMIT = 100 * 1024 * 1024;
+// Without a Content-Length each part has to be buffered to learn its size
+const UNKNOWN_SIZE_PART_SIZE = 32 * 1024 * 1024;
+// A job that hasn't saved progress for this long was cut off
+const STALLED_AFTER = 15 * 60 * 1000;
+const MAX_SOURCE_HEADERS = 20;
+const MAX_REDIRECTS = 5;
+
+export type ImportStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ImportJob {
+  id: string;
+  owner: string;
+  // Full object key, including the owner's prefix, and the name the user sees
+  key: string;
+  name: string;
+  url: string;
+  // Sent with every request to the source (e.g. Authorization); dropped once the job ends
+  headers: Record<string, string>;
+  conflictPolicy: ConflictPolicy;
+  userMetadata: UserMetadata;
+  status: ImportStatus;
+  bytesTransferred: number;
+  // null when the source sends no Content-Length
+  totalBytes: number | null;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+  // Multipart state, so a retried job can continue with a Range request
+  uploadId?: string;
+  partSize?: number;
+  parts?: R2UploadedPart[];
+  // Strong ETag of the source, so a resumed download can't splice two versions
+  sourceEtag?: string;
+  // Bytes counted against the owner's quota so far, given back if the job fails
+  reservedBytes?: number;
+}
+
+// What the owner sees when polling
+export type ImportSummary = Omit<ImportJob, 'owner' | 'key' | 'headers' | 'userMetadata' | 'uploadId' | 'partSize' | 'parts' | 'sourceEtag' | 'reservedBytes'>;
+
+export interface ImportMessage {
+  owner: string;
+  id: string;
+}
+
+function importPath(owner: string, id: string): string {
+  return `${IMPORT_PREFIX}${encodeURIComponent(owner)}/${id}.json`;
+}
+
+export function isActive(job: ImportJob): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+export function summarizeImport(job: ImportJob): ImportSummary {
+  const { owner, key, headers, userMetadata, uploadId, partSize, parts, sourceEtag, reservedBytes, ...summary } = job;
+  return summary;
+}
+
+// Only plain http(s) sources
+export function parseSourceUrl(value: unknown): URL | null {
+  if (typeof value !== 'string') return null;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+// Hosts listed in IMPORT_ALLOWED_HOSTS (e.g. `localhost` for a local test
+// server) may be private
+export function isAllowedSource(env: Env, url: URL): boolean {
+  return isAllowedHost(url, env.IMPORT_ALLOWED_HOSTS);
+}
+
+export function parseSourceHeaders(value: unknown): Record<string, string> | null {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const entries = Object.entries(value);
+  if (entries.length > MAX_SOURCE_HEADERS) return null;
+  for (const [name, headerValue] of entries) {
+    if (!/^[!#$%&'*+.^_`|~\w-]+$/.test(name) || typeof headerValue !== 'string' || /[\r\n]/.test(headerValue)) {
+      return null;
+    }
+  }
+  return Object.fromEntries(entries) as Record<string, string>;
+}
+
+// The last path segment of the URL, as a default name for the imported file
+export function nameFromUrl(url: URL): string {
+  const segment = url.pathname.split('/').filter(Boolean).pop() ?? '';
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+export async function saveImport(bucket: R2Bucket, job: ImportJob): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  await bucket.put(importPath(job.owner, job.id), JSON.stringify(job), {
+    httpMetadata: { contentType: 'application/json' }
+  });
+}
+
+export async function getImport(bucket: R2Bucket, owner: string, id: string): Promise<ImportJob | null> {
+  if (!/^[\w-]+$/.test(id)) return null;
+  const object = await bucket.get(importPath(owner, id));
+  return object ? await object.json<ImportJob>() : null;
+}
+
+export async function listImportsUnder(bucket: R2Bucket, prefix: string = IMPORT_PREFIX): Promise<ImportJob[]> {
+  const jobs: ImportJob[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await bucket.list({ prefix, cursor });
+    for (const object of page.objects) {
+      const body = await bucket.get(object.key);
+      if (body) jobs.push(await body.json<ImportJob>());
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  return jobs;
+}
+
+export async function listImports(bucket: R2Bucket, owner: string): Promise<ImportJob[]> {
+  const jobs = await listImportsUnder(bucket, `${IMPORT_PREFIX}${encodeURIComponent(owner)}/`);
+  return jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function deleteImport(bucket: R2Bucket, job: ImportJob): Promise<void> {
+  await bucket.delete(importPath(job.owner, job.id));
+}
+
+export async function createImport(
+  bucket: R2Bucket,
+  fields: Pick<ImportJob, 'owner' | 'key' | 'name' | 'url' | 'headers' | 'conflictPolicy' | 'userMetadata'>
+): Promise<ImportJob> {
+  const now = new Date().toISOString();
+  const job: ImportJob = {
+    ...fields,
+    id: crypto.randomUUID(),
+    status: 'queued',
+    bytesTransferred: 0,
+    totalBytes: null,
+    error: null,
+    createdAt: now,
+    updatedAt: now
+  };
+  await saveImport(bucket, job);
+  return job;
+}
+
+// Callers check for the queue before creating the job
+export async function startImport(env: Env, job: ImportJob): Promise<void> {
+  await env.IMPORT_QUEUE!.send({ owner: job.owner, id: job.id });
+}
+
+// Content-Length only describes the body we read when nothing was decoded on the way
+function announcedLength(response: Response): number | null {
+  if (response.headers.get('Content-Encoding')) return null;
+  const length = parseInt(response.headers.get('Content-Length') ?? '', 10);
+  return Number.isSafeInteger(length) && length >= 0 ? length : null;
+}
+
+function strongEtag(response: Response): string | undefined {
+  const etag = response.headers.get('ETag');
+  return etag && !etag.startsWith('W/') ? etag : undefined;
+}
+
+async function abortMultipart(env: Env, job: ImportJob): Promise<void> {
+  if (job.uploadId) {
+    await env.BUCKET.resumeMultipartUpload(job.key, job.uploadId).abort().catch(() => undefined);
+  }
+  job.uploadId = undefined;
+  job.partSize = undefined;
+  job.parts = undefined;
+}
+
+// Save progress unless the user cancelled the job in the meantime, which
+// saving would undo. Returns false when cancelled.
+async function saveProgress(env: Env, job: ImportJob): Promise<boolean> {
+  const latest = await getImport(env.BUCKET, job.owner, job.id);
+  if (!latest || latest.status === 'cancelled') return false;
+  await saveImport(env.BUCKET, job);
+  return true;
+}
+
+// Follow redirects by hand so every hop is checked
+async function fetchAllowed(env: Env, url: string, headers: Headers): Promise<Response> {
+  let target = new URL(url);
+  for (let redirects = 0; ; redirects++) {
+    if (!isAllowedSource(env, target)) {
+      throw new Error(`${target.host} is a private address`);
+    }
+
+    const response = await fetch(target.toString(), { headers, redirect: 'manual' });
+    const location = response.headers.get('Location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    if (redirects === MAX_REDIRECTS) {
+      throw new Error('Source redirected too many times');
+    }
+    const next = parseSourceUrl(new URL(location, target).toString());
+    if (next === null) {
+      throw new Error('Source redirected to a URL that is not http(s)');
+    }
+    // Credentials were meant for the original host
+    if (next.origin !== target.origin) {
+      headers.delete('Authorization');
+      headers.delete('Cookie');
+    }
+    target = next;
+  }
+}
+
+// `bytes <first>-<last>/<size>` from a 206; the size may be `*`
+export function parseContentRange(value: string | null): { start: number; end: number; size: number | null } | null {
+  const match = value?.match(/^bytes (\d+)-(\d+)\/(\d+|\*)$/);
+  if (!match) return null;
+  const start = parseInt(match[1], 10);
+  const end = parseInt(match[2], 10);
+  const size = match[3] === '*' ? null : parseInt(match[3], 10);
+  if (end < start || (size !== null && end >= size)) return null;
+  return { start, end, size };
+}
+
+async function fetchSource(env: Env, job: ImportJob): Promise<{ response: Response; offset: number }> {
+  const offset = job.uploadId && job.parts && job.partSize ? job.parts.length * job.partSize : 0;
+  const headers = new Headers(job.headers);
+  if (offset > 0) {
+    headers.set('Range', `bytes=${offset}-`);
+    if (job.sourceEtag) headers.set('If-Range', job.sourceEtag);
+  }
+
+  const response = await fetchAllowed(env, job.url, headers);
+
+  // The source can't (or won't) continue where we stopped, so start over.
+  // A 206 that starts anywhere else, or for a file of another size, would
+  // splice the wrong bytes onto what is already stored.
+  const range = response.status === 206 ? parseContentRange(response.headers.get('Content-Range')) : null;
+  const continues = range !== null && range.start === offset
+    && (range.size === null || job.totalBytes === null || range.size === job.totalBytes);
+  if (offset > 0 && !continues) {
+    await response.body?.cancel();
+    await abortMultipart(env, job);
+    job.bytesTransferred = 0;
+    return fetchSource(env, job);
+  }
+
+  if (!response.ok || !response.body) {
+    await response.body?.cancel();
+    throw new Error(`Source responded with ${response.status} ${response.statusText}`.trim());
+  }
+  return { response, offset };
+}
+
+// Count the first `bytes` of the file against the owner's quota, once
+// across retries and restarts from the beginning
+async function reserveUpTo(env: Env, job: ImportJob, limits: Limits, bytes: number): Promise<LimitViolation | null> {
+  const needed = bytes - (job.reservedBytes ?? 0);
+  if (needed <= 0) return null;
+  const violation = await reserveStorage(env, job.owner, limits, needed);
+  if (!violation) job.reservedBytes = bytes;
+  return violation;
+}
+
+async function releaseReserved(env: Env, job: ImportJob): Promise<void> {
+  await tryReleaseStorage(env, job.owner, job.reservedBytes ?? 0);
+  job.reservedBytes = undefined;
+}
+
+function limitError(violation: LimitViolation): Error {
+  return new Error(`${violation.error}: ${violation.details}`);
+}
+
+async function completeMultipart(env: Env, job: ImportJob, upload: R2MultipartUpload): Promise<void> {
+  // Multipart uploads can't complete conditionally, so check right before
+  if (job.conflictPolicy !== 'overwrite' && await env.BUCKET.head(job.key)) {
+    throw new ConflictError(job.name);
+  }
+  await upload.complete(job.parts!);
+  job.totalBytes = job.bytesTransferred;
+}
+
+// Returns false when the job was cancelled part-way
+async function transfer(env: Env, job: ImportJob): Promise<boolean> {
+  // Cut off after the last part but before completing
+  if (job.uploadId && job.parts && job.totalBytes !== null && job.bytesTransferred >= job.totalBytes) {
+    await completeMultipart(env, job, env.BUCKET.resumeMultipartUpload(job.key, job.uploadId));
+    return true;
+  }
+
+  const { response, offset } = await fetchSource(env, job);
+
+  if (offset === 0) {
+    job.totalBytes = announcedLength(response);
+    job.sourceEtag = strongEtag(response);
+  }
+  const total = job.totalBytes;
+  if (total !== null && total > MAX_OBJECT_SIZE) {
+    await response.body!.cancel();
+    throw new Error(`The source is larger than the ${MAX_OBJECT_SIZE} bytes R2 supports`);
+  }
+
+  const httpMetadata = { contentType: resolveContentType(job.name, response.headers.get('Content-Type')) };
+
+  // Upload limits apply as for files sent by the user. A source of unknown
+  // size is counted against the quota part by part.
+  const limits = limitsFor(env, job.owner);
+  if (offset === 0) {
+    const violation = checkFile(limits, job.name, total ?? 0, httpMetadata.contentType)
+      ?? (total !== null ? await reserveUpTo(env, job, limits, total) : null);
+    if (violation) {
+      await response.body!.cancel();
+      throw limitError(violation);
+    }
+  }
+
+  job.status = 'running';
+  if (!(await saveProgress(env, job))) {
+    await response.body!.cancel();
+    return false;
+  }
+  const customMetadata = applyUserMetadata({ 'upload-type': 'import' }, job.userMetadata);
+
+  // Small files in one conditional PUT, like proxied uploads
+  if (offset === 0 && total !== null && total <= SINGLE_PUT_LIMIT) {
+    const object = await env.BUCKET.put(job.key, fixedLengthStream(response.body as unknown as ReadableStream, total), {
+      httpMetadata,
+      customMetadata,
+      ...(job.conflictPolicy !== 'overwrite' && { onlyIf: noOverwrite() })
+    });
+    if (!object) {
+      throw new ConflictError(job.name);
+    }
+    job.bytesTransferred = total;
+    return true;
+  }
+
+  const source = new SourceReader(response.body!.getReader() as unknown as ReadableStreamDefaultReader<Uint8Array>);
+  let upload: R2MultipartUpload;
+  if (job.uploadId) {
+    upload = env.BUCKET.resumeMultipartUpload(job.key, job.uploadId);
+  } else {
+    upload = await env.BUCKET.createMultipartUpload(job.key, { httpMetadata, customMetadata });
+    job.uploadId = upload.uploadId;
+    job.partSize = total !== null ? choosePartSize(total) : UNKNOWN_SIZE_PART_SIZE;
+    job.parts = [];
+    job.bytesTransferred = 0;
+    if (!(await saveProgress(env, job))) {
+      await source.cancel();
+      return false;
+    }
+  }
+
+  const partSize = job.partSize!;
+  const parts = job.parts!;
+
+  while (true) {
+    if (parts.length >= MAX_PARTS) {
+      throw new Error(`The source needs more than ${MAX_PARTS} parts of ${partSize} bytes`);
+    }
+
+    const partNumber = parts.length + 1;
+    let length: number;
+    let last: boolean;
+    if (total !== null) {
+      length = Math.min(partSize, total - job.bytesTransferred);
+      last = job.bytesTransferred + length >= total;
+      parts.push(await upload.uploadPart(partNumber, source.stream(length)));
+    } else {
+      const bytes = await source.readUpTo(partSize);
+      // A source that ended exactly on a part boundary
+      if (bytes.length === 0 && parts.length > 0) break;
+      length = bytes.length;
+      const violation = checkFile(limits, job.name, job.bytesTransferred + length, httpMetadata.contentType)
+        ?? await reserveUpTo(env, job, limits, job.bytesTransferred + length);
+      if (violation) {
+        await source.cancel();
+        throw limitError(violation);
+      }
+      last = length < partSize;
+      parts.push(await upload.uploadPart(partNumber, bytes));
+    }
+
+    job.bytesTransferred += length;
+    if (!(await saveProgress(env, job))) {
+      await source.cancel();
+      return false;
+    }
+    if (last) break;
+  }
+
+  await completeMultipart(env, job, upload);
+  return true;
+}
+
+// Run (or resume) an import to the end. Never throws; the outcome is
+// recorded on the job.
+export async function runImport(env: Env, owner: string, id: string): Promise<void> {
+  const job = await getImport(env.BUCKET, owner, id);
+  if (!job || !isActive(job)) return;
+
+  try {
+    const finished = await transfer(env, job);
+    if (!finished) {
+      await abortMultipart(env, job);
+      await releaseReserved(env, job);
+      job.status = 'cancelled';
+    } else {
+      job.reservedBytes = undefined;
+      job.status = 'completed';
+    }
+  } catch (error) {
+    console.error(`Import ${job.id} from ${job.url} failed:`, error);
+    await abortMultipart(env, job);
+    await releaseReserved(env, job);
+    job.status = 'failed';
+    job.error = error instanceof ConflictError ? `${job.name} already exists` : (error as Error).message || 'Unknown error';
+  }
+
+  job.headers = {};
+  job.uploadId = undefined;
+  job.parts = undefined;
+  await saveImport(env.BUCKET, job);
+
+  if (job.status === 'completed') {
+    await emitEvent(env, job.owner, {
+      event: 'upload.completed',
+      key: job.name,
+      size: job.bytesTransferred,
+      sha256: null,
+      actor: job.owner
+    });
+    await recordAudit(env, null, job.owner, {
+      action: 'upload.completed',
+      actor: job.owner,
+      key: job.name,
+      bytes: job.bytesTransferred,
+      details: { source: 'import' }
+    });
+  }
+}
+
+// A job being run stops at its next part and cleans up after itself. One
+// that nothing is running (stalled, or still queued) is cleaned up here.
+export async function cancelImport(env: Env, job: ImportJob): Promise<void> {
+  if (job.status === 'queued' || Date.now() - Date.parse(job.updatedAt) > STALLED_AFTER) {
+    await abortMultipart(env, job);
+    await releaseReserved(env, job);
+    job.headers = {};
+  }
+  job.status = 'cancelled';
+  await saveImport(env.BUCKET, job);
+}
+
+// Cron: jobs that stopped saving progress were cut off (the queue gave up
+// on them). Requeue them when the queue is still there; otherwise give up
+// on them.
+export async function recoverStalledImports(env: Env): Promise<number> {
+  const now = Date.now();
+  const stalled = (await listImportsUnder(env.BUCKET, IMPORT_PREFIX))
+    .filter((job) => isActive(job) && now - Date.parse(job.updatedAt) > STALLED_AFTER);
+
+  for (const job of stalled) {
+    if (env.IMPORT_QUEUE) {
+      await saveImport(env.BUCKET, job);
+      await env.IMPORT_QUEUE.send({ owner: job.owner, id: job.id });
+    } else {
+      await abortMultipart(env, job);
+      await releaseReserved(env, job);
+      job.status = 'failed';
+      job.error = 'The import was interrupted before it finished';
+      job.headers = {};
+      await saveImport(env.BUCKET, job);
+    }
+  }
+
+  if (stalled.length > 0) {
+    console.log(`Recovered ${stalled.length} stalled import(s)`);
+  }
+  return stalled.length;
+}
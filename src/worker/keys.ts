@@ -0,0 +1,105 @@
+import type { Headers as WorkersHeaders, R2Bucket } from '@cloudflare/workers-types/latest';
+
+// R2 rejects keys longer than this many bytes
+const MAX_KEY_BYTES = 1024;
+// How many "name (n).ext" candidates auto-rename tries before giving up
+const MAX_RENAME_ATTEMPTS = 100;
+
+export type ConflictPolicy = 'fail' | 'overwrite' | 'rename';
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['fail', 'overwrite', 'rename'];
+
+export const KEY_RULES = 'Names must not be empty, contain control characters or "." / ".." segments, '
+  + `and must fit in ${MAX_KEY_BYTES} bytes including the user folder`;
+
+const encoder = new TextEncoder();
+
+// Thrown when a conditional write finds the destination already taken
+export class ConflictError extends Error {
+  constructor(public key: string) {
+    super(`${key} already exists`);
+    this.name = 'ConflictError';
+  }
+}
+
+// The folder part of a key, ending in '/', or '' at the top
+export function folderOf(key: string): string {
+  return key.slice(0, key.lastIndexOf('/') + 1);
+}
+
+// Keys can be up to MAX_KEY_BYTES themselves, so objects kept about a key
+// (thumbnails, metadata edits, stats) are named after a fixed-length digest
+// of it instead
+export async function keyDigest(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(key));
+  return Array.from(new Uint8Array(digest)).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Clean up a client-supplied path: Unicode NFC, forward slashes only, no
+// leading or repeated slashes. Returns null when the result isn't safe to use.
+function normalizePath(name: unknown, root: string): string | null {
+  if (typeof name !== 'string') return null;
+
+  const path = name.normalize('NFC').replace(/\\/g, '/').replace(/^\/+/, '').replace(/\/{2,}/g, '/');
+  if (!path || /[\u0000-\u001f\u007f]/.test(path)) return null;
+  if (path.split('/').some((segment) => segment === '.' || segment === '..')) return null;
+  if (encoder.encode(`${root}${path}`).length > MAX_KEY_BYTES) return null;
+
+  return path;
+}
+
+// A file name, relative to the user's root
+export function normalizeKey(name: unknown, root = ''): string | null {
+  const key = normalizePath(name, root);
+  return key && !key.endsWith('/') ? key : null;
+}
+
+// A folder, relative to the user's root, always ending in '/'; '' is the root
+export function normalizePrefix(prefix: unknown, root = ''): string | null {
+  if (prefix === '' || prefix === undefined || prefix === null) return '';
+  const path = normalizePath(prefix, root);
+  return path === null ? null : path.replace(/\/?$/, '/');
+}
+
+// Keys in route paths are always URI-encoded by the client
+export function keyFromPath(pathname: string, route: string, root = ''): string | null {
+  try {
+    return normalizeKey(decodeURIComponent(pathname.slice(route.length)), root);
+  } catch {
+    // Malformed percent-encoding
+    return null;
+  }
+}
+
+export function parseConflictPolicy(value: unknown, fallback: ConflictPolicy = 'fail'): ConflictPolicy | null {
+  if (value === undefined || value === null || value === '') return fallback;
+  return CONFLICT_POLICIES.includes(value as ConflictPolicy) ? value as ConflictPolicy : null;
+}
+
+// "report.pdf" -> "report (1).pdf"; the extension is kept, folders untouched
+function numberedName(key: string, n: number): string {
+  const slash = key.lastIndexOf('/');
+  const dot = key.lastIndexOf('.');
+  const split = dot > slash + 1 ? dot : key.length;
+  return `${key.slice(0, split)} (${n})${key.slice(split)}`;
+}
+
+// Pick the name an upload should be written to under the given policy.
+// Returns null when the name is taken and the policy is 'fail'. This only
+// narrows the race; the write itself must still be conditional.
+export async function resolveConflict(bucket: R2Bucket, root: string, key: string, policy: ConflictPolicy): Promise<string | null> {
+  if (policy === 'overwrite' || !(await bucket.head(`${root}${key}`))) return key;
+  if (policy === 'fail') return null;
+
+  for (let n = 1; n <= MAX_RENAME_ATTEMPTS; n++) {
+    const candidate = numberedName(key, n);
+    if (normalizeKey(candidate, root) === null) break;
+    if (!(await bucket.head(`${root}${candidate}`))) return candidate;
+  }
+  return null;
+}
+
+// Conditional-write header that makes R2 refuse to replace an existing object
+export function noOverwrite(): WorkersHeaders {
+  return new Headers({ 'If-None-Match': '*' }) as unknown as WorkersHeaders;
+}
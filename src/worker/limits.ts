@@ -0,0 +1,281 @@
+import type { R2Bucket } from '@cloudflare/workers-types/latest';
+import { addToCounter, hitCounter, readCounter, setCounter } from './counters';
+import type { Env } from './env';
+import { isActive, listImportsUnder } from './imports';
+import { listSessions, SYSTEM_PREFIX } from './sessions';
+import { listTusUploads } from './tus';
+
+// Upload policies: storage quotas (per user and for the whole bucket), a
+// maximum file size, an allowlist of file types and a per-user request rate.
+// Defaults come from environment variables; USER_LIMITS overrides them for
+// individual users.
+//
+// Usage is kept in counters (see counters.ts): every accepted upload is
+// checked against the quota and added in one step, so parallel uploads can't
+// all slip under it, and is released again when the upload is aborted or
+// fails. The hourly cron recounts every user's objects, plus what their
+// unfinished uploads and imports have reserved, to correct for uploads that
+// were abandoned and for files that were replaced.
+
+// Users who had a count at the last recount, so those who have since
+// emptied their folder are reset too
+const OWNERS_PATH = `${SYSTEM_PREFIX}usage/owners.json`;
+const TOTAL_COUNTER = 'usage:total';
+const RATE_WINDOW = 60 * 1000;
+
+export interface Limits {
+  // Bytes the user may store, or null for no limit
+  quota: number | null;
+  maxFileSize: number | null;
+  // Extensions ('.pdf') and MIME types ('image/png', 'image/*'); empty allows any file
+  allowedTypes: string[];
+  requestsPerMinute: number | null;
+}
+
+type LimitName = 'quota' | 'storageQuota' | 'maxFileSize' | 'allowedTypes' | 'requestsPerMinute';
+
+// Turned into a 413, 415 or 429 JSON response
+export interface LimitViolation {
+  status: 413 | 415 | 429;
+  error: string;
+  details: string;
+  limit: LimitName;
+  allowed: number | string[];
+  // Bytes already stored, for quotas
+  used?: number;
+  // Seconds until a rate-limited client may try again
+  retryAfter?: number;
+}
+
+export interface UsageSummary extends Limits {
+  used: number;
+  // Bytes that can still be uploaded, counting the bucket-wide quota; null when unlimited
+  remaining: number | null;
+}
+
+function parseLimit(value: unknown): number | null {
+  const limit = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  return Number.isSafeInteger(limit) && limit > 0 ? limit : null;
+}
+
+function parseTypes(value: unknown): string[] {
+  const types = Array.isArray(value) ? value : String(value ?? '').split(',');
+  return types.map((type) => String(type).trim().toLowerCase()).filter(Boolean);
+}
+
+// USER_LIMITS is a JSON object mapping user ids to the limits that differ
+// from the defaults; null lifts a limit for that user
+function userOverrides(env: Env, userId: string): Record<string, unknown> {
+  try {
+    const overrides = JSON.parse(env.USER_LIMITS || '{}');
+    return overrides[userId] ?? {};
+  } catch {
+    console.error('USER_LIMITS is not valid JSON');
+    return {};
+  }
+}
+
+export function limitsFor(env: Env, userId: string): Limits {
+  const overrides = userOverrides(env, userId);
+  const pick = (name: keyof Limits, fallback: unknown) => name in overrides ? overrides[name] : fallback;
+
+  return {
+    quota: parseLimit(pick('quota', env.USER_QUOTA)),
+    maxFileSize: parseLimit(pick('maxFileSize', env.MAX_FILE_SIZE)),
+    allowedTypes: parseTypes(pick('allowedTypes', env.ALLOWED_FILE_TYPES)),
+    requestsPerMinute: parseLimit(pick('requestsPerMinute', env.RATE_LIMIT))
+  };
+}
+
+function storageQuota(env: Env): number | null {
+  return parseLimit(env.STORAGE_QUOTA);
+}
+
+export function isAllowedType(allowedTypes: string[], name: string, contentType: string): boolean {
+  if (allowedTypes.length === 0) return true;
+  const extension = /\.[^./]+$/.exec(name)?.[0].toLowerCase();
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+
+  return allowedTypes.some((type) => {
+    if (type.startsWith('.')) return extension === type;
+    if (type.endsWith('/*')) return mimeType.startsWith(type.slice(0, -1));
+    return mimeType === type;
+  });
+}
+
+// Size and type of a single file; checked before any bytes are accepted
+export function checkFile(limits: Limits, name: string, size: number, contentType: string): LimitViolation | null {
+  if (limits.maxFileSize !== null && size > limits.maxFileSize) {
+    return {
+      status: 413,
+      error: 'File too large',
+      details: `Files may be at most ${limits.maxFileSize} bytes`,
+      limit: 'maxFileSize',
+      allowed: limits.maxFileSize
+    };
+  }
+  if (!isAllowedType(limits.allowedTypes, name, contentType)) {
+    return {
+      status: 415,
+      error: 'File type not allowed',
+      details: `Allowed types: ${limits.allowedTypes.join(', ')}`,
+      limit: 'allowedTypes',
+      allowed: limits.allowedTypes
+    };
+  }
+  return null;
+}
+
+function usageCounter(owner: string): string {
+  return `usage:${owner}`;
+}
+
+// Bytes stored by `owner`, or in the whole bucket for null
+export async function getUsage(env: Env, owner: string | null): Promise<number> {
+  const values = await readCounter(env, owner === null ? TOTAL_COUNTER : usageCounter(owner));
+  return values.bytes ?? 0;
+}
+
+// Check that `size` more bytes fit in the user's and the bucket's quota, and
+// if they do, count them as used
+export async function reserveStorage(env: Env, owner: string, limits: Limits, size: number): Promise<LimitViolation | null> {
+  const user = await addToCounter(env, usageCounter(owner), { bytes: size }, { bytes: limits.quota });
+  if (!user.ok) {
+    const used = user.values.bytes ?? 0;
+    return {
+      status: 413,
+      error: 'Quota exceeded',
+      details: `This needs ${size} bytes, but only ${Math.max(0, limits.quota! - used)} of your ${limits.quota} bytes are left`,
+      limit: 'quota',
+      allowed: limits.quota!,
+      used
+    };
+  }
+
+  const total = storageQuota(env);
+  const bucket = await addToCounter(env, TOTAL_COUNTER, { bytes: size }, { bytes: total });
+  if (!bucket.ok) {
+    await addToCounter(env, usageCounter(owner), { bytes: -size });
+    return {
+      status: 413,
+      error: 'Storage full',
+      details: 'The storage for all users is full',
+      limit: 'storageQuota',
+      allowed: total!,
+      used: bucket.values.bytes ?? 0
+    };
+  }
+  return null;
+}
+
+// Give back what reserveStorage counted, for an upload that was aborted or
+// failed, or bytes that were deleted
+export async function releaseStorage(env: Env, owner: string, size: number): Promise<void> {
+  if (size <= 0) return;
+  await Promise.all([
+    addToCounter(env, usageCounter(owner), { bytes: -size }),
+    addToCounter(env, TOTAL_COUNTER, { bytes: -size })
+  ]);
+}
+
+// Like releaseStorage, for cleanup that shouldn't fail because of it; the
+// next recount corrects the count anyway
+export async function tryReleaseStorage(env: Env, owner: string, size: number): Promise<void> {
+  await releaseStorage(env, owner, size).catch((error) => {
+    console.error(`Failed to release ${size} bytes for ${owner}:`, error);
+  });
+}
+
+// Cron: count every user's bytes from a listing of the bucket, plus what
+// uploads and imports still in progress have reserved, and reset the
+// counters to that
+export async function recountUsage(env: Env): Promise<void> {
+  const asOf = Date.now();
+  const used = new Map<string, number>();
+  const add = (owner: string, bytes: number) => used.set(owner, (used.get(owner) ?? 0) + bytes);
+
+  let cursor: string | undefined;
+  do {
+    const page = await env.BUCKET.list({ prefix: 'users/', cursor });
+    for (const object of page.objects) {
+      add(decodeURIComponent(object.key.split('/')[1]), object.size);
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  // Uploads still in progress don't show up in the listing yet
+  for (const session of await listSessions(env.BUCKET)) {
+    add(session.owner, session.fileSize);
+  }
+  for (const upload of await listTusUploads(env.BUCKET)) {
+    if (!upload.completed) add(upload.owner, upload.length);
+  }
+  for (const job of await listImportsUnder(env.BUCKET)) {
+    if (isActive(job)) add(job.owner, job.reservedBytes ?? 0);
+  }
+
+  for (const owner of await countedOwners(env.BUCKET)) {
+    if (!used.has(owner)) used.set(owner, 0);
+  }
+
+  let total = 0;
+  for (const [owner, bytes] of used) {
+    await setCounter(env, usageCounter(owner), { bytes }, asOf);
+    total += bytes;
+  }
+  await setCounter(env, TOTAL_COUNTER, { bytes: total }, asOf);
+
+  const owners = [...used].filter(([, bytes]) => bytes > 0).map(([owner]) => owner);
+  await env.BUCKET.put(OWNERS_PATH, JSON.stringify(owners), {
+    httpMetadata: { contentType: 'application/json' }
+  });
+  console.log(`Recounted storage of ${owners.length} user(s): ${total} bytes`);
+}
+
+async function countedOwners(bucket: R2Bucket): Promise<string[]> {
+  const object = await bucket.get(OWNERS_PATH);
+  return object ? await object.json<string[]>() : [];
+}
+
+// File checks and quota in one, for anything that creates a new file
+export async function checkUpload(
+  env: Env,
+  owner: string,
+  name: string,
+  size: number,
+  contentType: string
+): Promise<LimitViolation | null> {
+  const limits = limitsFor(env, owner);
+  return checkFile(limits, name, size, contentType) ?? await reserveStorage(env, owner, limits, size);
+}
+
+export async function usageSummary(env: Env, owner: string): Promise<UsageSummary> {
+  const limits = limitsFor(env, owner);
+  const used = await getUsage(env, owner);
+  const total = storageQuota(env);
+  const left = [
+    limits.quota !== null ? limits.quota - used : null,
+    total !== null ? total - await getUsage(env, null) : null
+  ].filter((value): value is number => value !== null);
+
+  return { ...limits, used, remaining: left.length > 0 ? Math.max(0, Math.min(...left)) : null };
+}
+
+// Fixed one-minute windows per user, counted in the user's own counter.
+// Throws when the counter can't be reached; the caller answers 503 rather
+// than let requests through unchecked.
+export async function checkRateLimit(env: Env, owner: string): Promise<LimitViolation | null> {
+  const { requestsPerMinute } = limitsFor(env, owner);
+  if (requestsPerMinute === null) return null;
+
+  const result = await hitCounter(env, `rate:${owner}`, requestsPerMinute, RATE_WINDOW);
+  if (result.ok) return null;
+  return {
+    status: 429,
+    error: 'Too many requests',
+    details: `At most ${requestsPerMinute} requests per minute are allowed`,
+    limit: 'requestsPerMinute',
+    allowed: requestsPerMinute,
+    retryAfter: Math.ceil((result.retryAfter ?? RATE_WINDOW) / 1000)
+  };
+}
@@ -0,0 +1,100 @@
+import type { R2Bucket } from '@cloudflare/workers-types/latest';
+import { describe, expect, it } from 'vitest';
+import { ListFilesOptions, ListFilesResult, listFiles, TooLargeToSortError } from './listing';
+import { MemoryBucket } from './testing';
+
+const defaults: ListFilesOptions = { prefix: 'docs/', delimiter: '/', limit: 2, sort: 'name', order: 'asc' };
+
+async function setup(): Promise<MemoryBucket> {
+  const bucket = new MemoryBucket();
+  // Sizes don't follow the names, so every order is distinct
+  await bucket.put('alice/docs/a.txt', 'x'.repeat(30));
+  await bucket.put('alice/docs/b.txt', 'x'.repeat(10));
+  await bucket.put('alice/docs/c.txt', 'x'.repeat(20));
+  await bucket.put('alice/docs/d.txt', 'x'.repeat(40));
+  await bucket.put('alice/docs/sub/inner.txt', 'x');
+  await bucket.put('alice/other.txt', 'x');
+  return bucket;
+}
+
+function list(bucket: MemoryBucket, options: Partial<ListFilesOptions>): Promise<ListFilesResult> {
+  return listFiles(bucket as unknown as R2Bucket, 'alice/', { ...defaults, ...options });
+}
+
+// Every page in order, as folders and file names
+async function listAll(bucket: MemoryBucket, options: Partial<ListFilesOptions>): Promise<string[][]> {
+  const pages: string[][] = [];
+  let cursor: string | undefined;
+  do {
+    const result = await list(bucket, { ...options, cursor });
+    pages.push([...result.folders, ...result.objects.map((object) => object.key)]);
+    expect(result.truncated).toBe(result.cursor !== null);
+    cursor = result.cursor ?? undefined;
+  } while (cursor);
+  return pages;
+}
+
+describe('listFiles', () => {
+  it('pages through R2 by name, with keys relative to the root', async () => {
+    const bucket = await setup();
+    const first = await list(bucket, {});
+
+    expect(first.objects.map((object) => object.key)).toEqual(['docs/a.txt', 'docs/b.txt']);
+    expect(first.cursor).toMatch(/^r:/);
+    expect(await listAll(bucket, {})).toEqual([
+      ['docs/a.txt', 'docs/b.txt'],
+      ['docs/c.txt', 'docs/d.txt'],
+      ['docs/sub/']
+    ]);
+  });
+
+  it('sorts the whole folder by size, folders first, and pages by offset', async () => {
+    const bucket = await setup();
+    const first = await list(bucket, { sort: 'size' });
+
+    expect(first.cursor).toBe('o:2');
+    expect(await listAll(bucket, { sort: 'size' })).toEqual([
+      ['docs/sub/', 'docs/b.txt'],
+      ['docs/c.txt', 'docs/a.txt'],
+      ['docs/d.txt']
+    ]);
+    expect(await listAll(bucket, { sort: 'size', order: 'desc' })).toEqual([
+      ['docs/sub/', 'docs/d.txt'],
+      ['docs/a.txt', 'docs/c.txt'],
+      ['docs/b.txt']
+    ]);
+    expect(await listAll(bucket, { sort: 'name', order: 'desc', limit: 3 })).toEqual([
+      ['docs/sub/', 'docs/d.txt', 'docs/c.txt'],
+      ['docs/b.txt', 'docs/a.txt']
+    ]);
+  });
+
+  it('applies the search before paging, so pages stay full', async () => {
+    const bucket = await setup();
+    await bucket.put('alice/docs/report-1.pdf', 'x');
+    await bucket.put('alice/docs/report-2.pdf', 'xx');
+    await bucket.put('alice/docs/report-3.pdf', 'xxx');
+
+    expect(await listAll(bucket, { search: 'REPORT' })).toEqual([
+      ['docs/report-1.pdf', 'docs/report-2.pdf'],
+      ['docs/report-3.pdf']
+    ]);
+    expect(await listAll(bucket, { search: 'report', sort: 'size', order: 'desc' })).toEqual([
+      ['docs/report-3.pdf', 'docs/report-2.pdf'],
+      ['docs/report-1.pdf']
+    ]);
+  });
+
+  it('refuses to sort a folder with more than 10,000 entries rather than sort part of it', async () => {
+    const bucket = new MemoryBucket();
+    for (let i = 0; i <= 10000; i++) {
+      await bucket.put(`alice/docs/${String(i).padStart(5, '0')}.txt`, '');
+    }
+
+    await expect(list(bucket, { sort: 'size' })).rejects.toThrow(TooLargeToSortError);
+    // By name, A to Z, still pages through R2
+    const first = await list(bucket, { limit: 1000 });
+    expect(first.objects).toHaveLength(1000);
+    expect(first.truncated).toBe(true);
+  });
+});
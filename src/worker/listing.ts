@@ -0,0 +1,178 @@
+import type { R2Bucket, R2HTTPMetadata, R2Object } from '@cloudflare/workers-types/latest';
+import { DownloadStats, getDownloadStats } from './audit';
+import { tagsOf } from './metadata';
+import { EffectiveMetadata, FolderSidecars, getSidecars, Sidecar, withSidecar } from './sidecars';
+
+export type SortField = 'name' | 'size' | 'uploaded';
+export type SortOrder = 'asc' | 'desc';
+
+export interface ListFilesOptions {
+  // Folder to list, relative to the user's root
+  prefix: string;
+  delimiter?: string;
+  cursor?: string;
+  limit: number;
+  search?: string;
+  // Only objects carrying this tag
+  tag?: string;
+  sort: SortField;
+  order: SortOrder;
+}
+
+// What the client sees of each object
+export interface FileEntry {
+  key: string;
+  size: number;
+  etag: string;
+  uploaded: string;
+  httpMetadata: R2HTTPMetadata;
+  customMetadata: Record<string, string>;
+  // Null until the file has been downloaded
+  downloads: DownloadStats | null;
+}
+
+export interface ListFilesResult {
+  objects: FileEntry[];
+  folders: string[];
+  cursor: string | null;
+  truncated: boolean;
+}
+
+export const MAX_LIST_LIMIT = 1000;
+// Sorting by anything but name means reading the whole folder first, and
+// again for every page
+const MAX_SORTED_OBJECTS = 10000;
+// Bound the R2 calls one filtered page may take when matches are sparse
+const MAX_FILTER_PAGES = 10;
+
+// Thrown when a folder has more entries than can be sorted; the listing is
+// refused rather than sorting (and paging through) only part of it
+export class TooLargeToSortError extends Error {
+  constructor() {
+    super(`Folders with more than ${MAX_SORTED_OBJECTS} entries can only be sorted by name, A to Z`);
+    this.name = 'TooLargeToSortError';
+  }
+}
+
+function matches(name: string, search?: string): boolean {
+  return !search || name.toLowerCase().includes(search.toLowerCase());
+}
+
+function hasTag(metadata: EffectiveMetadata, tag?: string): boolean {
+  return !tag || tagsOf(metadata.customMetadata).includes(tag);
+}
+
+function toEntry(object: R2Object, key: string, metadata: EffectiveMetadata, downloads: DownloadStats | null): FileEntry {
+  return {
+    key,
+    size: object.size,
+    etag: object.etag,
+    uploaded: object.uploaded.toISOString(),
+    ...metadata,
+    downloads
+  };
+}
+
+function compare(a: R2Object, b: R2Object, sort: SortField): number {
+  switch (sort) {
+    case 'size':
+      return a.size - b.size;
+    case 'uploaded':
+      return a.uploaded.getTime() - b.uploaded.getTime();
+    default:
+      return a.key.localeCompare(b.key);
+  }
+}
+
+// List one folder under `root`. Name-ascending listings page through R2
+// directly ("r:" cursors); other orders sort the whole folder and page by
+// offset ("o:" cursors). Keys and folders in the result are relative to root.
+export async function listFiles(bucket: R2Bucket, root: string, options: ListFilesOptions): Promise<ListFilesResult> {
+  const prefix = `${root}${options.prefix}`;
+  const relative = (key: string) => key.slice(root.length);
+  const baseName = (key: string) => key.slice(prefix.length);
+  // Edited metadata, for the tag filter and the entries, looked up as each
+  // page of objects comes in
+  const folderSidecars = new Map<string, FolderSidecars>();
+  const sidecars = new Map<string, Sidecar>();
+  const metadataOf = (object: R2Object) => withSidecar(object, sidecars.get(object.key));
+  const keep = async (objects: R2Object[]) => {
+    for (const [key, sidecar] of await getSidecars(bucket, objects.map((object) => object.key), folderSidecars)) {
+      sidecars.set(key, sidecar);
+    }
+    return objects.filter((object) => matches(baseName(object.key), options.search) && hasTag(metadataOf(object), options.tag));
+  };
+  // Download counts are only looked up for the page being returned
+  const toEntries = async (objects: R2Object[]) => {
+    const downloads = await getDownloadStats(bucket, objects);
+    return objects.map((object) => toEntry(object, relative(object.key), metadataOf(object), downloads.get(object.key) ?? null));
+  };
+
+  if (options.sort === 'name' && options.order === 'asc') {
+    const objects: R2Object[] = [];
+    const folders: string[] = [];
+    let cursor = options.cursor?.startsWith('r:') ? options.cursor.slice(2) : undefined;
+    let truncated = false;
+
+    // Fetch only as many raw entries as slots remain, so a page is never
+    // half-consumed and the R2 cursor stays exact
+    for (let page = 0; page < MAX_FILTER_PAGES && objects.length + folders.length < options.limit; page++) {
+      const result = await bucket.list({
+        prefix,
+        delimiter: options.delimiter,
+        cursor,
+        limit: options.limit - objects.length - folders.length,
+        include: ['httpMetadata', 'customMetadata']
+      });
+
+      objects.push(...await keep(result.objects));
+      folders.push(...result.delimitedPrefixes.filter((folder) => matches(baseName(folder), options.search)));
+      truncated = result.truncated;
+      cursor = result.truncated ? result.cursor : undefined;
+      if (!truncated) break;
+    }
+
+    return {
+      objects: await toEntries(objects),
+      folders: folders.map(relative),
+      cursor: truncated && cursor ? `r:${cursor}` : null,
+      truncated
+    };
+  }
+
+  const objects: R2Object[] = [];
+  const folders: string[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const result = await bucket.list({
+      prefix,
+      delimiter: options.delimiter,
+      cursor,
+      include: ['httpMetadata', 'customMetadata']
+    });
+    objects.push(...await keep(result.objects));
+    folders.push(...result.delimitedPrefixes.filter((folder) => matches(baseName(folder), options.search)));
+    if (objects.length + folders.length > MAX_SORTED_OBJECTS) {
+      throw new TooLargeToSortError();
+    }
+    cursor = result.truncated ? result.cursor : undefined;
+  } while (cursor);
+
+  const direction = options.order === 'desc' ? -1 : 1;
+  objects.sort((a, b) => direction * compare(a, b, options.sort));
+  folders.sort((a, b) => direction * a.localeCompare(b));
+
+  // Folders come first, then files, across all pages
+  const entries: (R2Object | string)[] = [...folders, ...objects];
+  const offset = options.cursor?.startsWith('o:') ? parseInt(options.cursor.slice(2), 10) || 0 : 0;
+  const page = entries.slice(offset, offset + options.limit);
+  const truncated = offset + options.limit < entries.length;
+
+  return {
+    objects: await toEntries(page.filter((entry): entry is R2Object => typeof entry !== 'string')),
+    folders: page.filter((entry): entry is string => typeof entry === 'string').map(relative),
+    cursor: truncated ? `o:${offset + options.limit}` : null,
+    truncated
+  };
+}
@@ -0,0 +1,194 @@
+// Content types and the user-editable metadata stored with each object.
+// Description and tags live in customMetadata, next to the upload's own
+// bookkeeping (sha256, upload-type, encryption), which users can't change.
+// Later edits go to a sidecar (see sidecars.ts).
+
+const MAX_DESCRIPTION_LENGTH = 1024;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+
+export const METADATA_RULES = `description is at most ${MAX_DESCRIPTION_LENGTH} characters; `
+  + `at most ${MAX_TAGS} tags of up to ${MAX_TAG_LENGTH} characters, without commas; `
+  + 'contentType must look like type/subtype';
+
+export const ENCRYPTION_RULES = 'encryption must hold the AES-256-GCM parameters (kdf, salt, iterations, '
+  + 'nonceScheme, noncePrefix, chunkSize, size) and fileSize must be size plus a 16-byte tag per chunk';
+
+export interface UserMetadata {
+  description?: string;
+  tags?: string[];
+}
+
+const EXTENSION_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  html: 'text/html',
+  htm: 'text/html',
+  css: 'text/css',
+  js: 'text/javascript',
+  mjs: 'text/javascript',
+  json: 'application/json',
+  xml: 'application/xml',
+  yaml: 'application/yaml',
+  yml: 'application/yaml',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  gz: 'application/gzip',
+  tgz: 'application/gzip',
+  tar: 'application/x-tar',
+  '7z': 'application/x-7z-compressed',
+  wasm: 'application/wasm',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  avif: 'image/avif',
+  ico: 'image/x-icon',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  mkv: 'video/x-matroska',
+  iso: 'application/x-iso9660-image'
+};
+
+// Leading bytes of common formats; `offset` is where the signature starts
+const SIGNATURES: { type: string; bytes: number[]; offset?: number }[] = [
+  { type: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { type: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { type: 'image/webp', bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+  { type: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { type: 'application/gzip', bytes: [0x1f, 0x8b] },
+  { type: 'application/x-7z-compressed', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { type: 'application/wasm', bytes: [0x00, 0x61, 0x73, 0x6d] },
+  { type: 'audio/flac', bytes: [0x66, 0x4c, 0x61, 0x43] },
+  { type: 'audio/mpeg', bytes: [0x49, 0x44, 0x33] },
+  { type: 'video/mp4', bytes: [0x66, 0x74, 0x79, 0x70], offset: 4 },
+  { type: 'video/webm', bytes: [0x1a, 0x45, 0xdf, 0xa3] }
+];
+
+// How many leading bytes the client should send for sniffing
+export const SNIFF_LENGTH = 16;
+
+export function isContentType(value: unknown): value is string {
+  return typeof value === 'string' && value.length <= 255 && /^[\w.+-]+\/[\w.+-]+(\s*;.*)?$/.test(value);
+}
+
+export function typeFromExtension(name: string): string | null {
+  const match = /\.([^./]+)$/.exec(name);
+  return match ? EXTENSION_TYPES[match[1].toLowerCase()] ?? null : null;
+}
+
+export function typeFromBytes(bytes: Uint8Array): string | null {
+  const signature = SIGNATURES.find(({ bytes: expected, offset = 0 }) =>
+    bytes.length >= offset + expected.length && expected.every((byte, i) => bytes[offset + i] === byte)
+  );
+  return signature?.type ?? null;
+}
+
+// Prefer what the browser reported, then the extension, then the file's
+// leading bytes (sent base64-encoded by the client)
+export function resolveContentType(name: string, claimed?: unknown, head?: unknown): string {
+  if (isContentType(claimed) && claimed !== 'application/octet-stream') return claimed;
+
+  const fromExtension = typeFromExtension(name);
+  if (fromExtension) return fromExtension;
+
+  if (typeof head === 'string') {
+    try {
+      const bytes = Uint8Array.from(atob(head).slice(0, SNIFF_LENGTH), (char) => char.charCodeAt(0));
+      const fromBytes = typeFromBytes(bytes);
+      if (fromBytes) return fromBytes;
+    } catch {
+      // Not base64; ignore the hint
+    }
+  }
+
+  return 'application/octet-stream';
+}
+
+// Validate the user-editable fields of a request body. Returns null when any
+// field present is invalid; absent fields stay absent.
+export function parseUserMetadata(body: { description?: unknown; tags?: unknown }): UserMetadata | null {
+  const metadata: UserMetadata = {};
+
+  if (body.description !== undefined && body.description !== null) {
+    if (typeof body.description !== 'string' || body.description.length > MAX_DESCRIPTION_LENGTH) return null;
+    metadata.description = body.description.trim();
+  }
+
+  if (body.tags !== undefined && body.tags !== null) {
+    if (!Array.isArray(body.tags) || body.tags.length > MAX_TAGS) return null;
+    const tags = body.tags.map((tag) => typeof tag === 'string' ? tag.trim() : '');
+    if (tags.some((tag) => !tag || tag.length > MAX_TAG_LENGTH || tag.includes(','))) return null;
+    metadata.tags = [...new Set(tags)];
+  }
+
+  return metadata;
+}
+
+// Merge user metadata into an object's customMetadata; empty values remove the field
+export function applyUserMetadata(customMetadata: Record<string, string> | undefined, metadata: UserMetadata): Record<string, string> {
+  const merged = { ...customMetadata };
+
+  if (metadata.description !== undefined) {
+    if (metadata.description) merged.description = metadata.description;
+    else delete merged.description;
+  }
+  if (metadata.tags !== undefined) {
+    if (metadata.tags.length > 0) merged.tags = metadata.tags.join(',');
+    else delete merged.tags;
+  }
+
+  return merged;
+}
+
+const BASE64URL = /^[\w-]+$/;
+
+// Parameters of a file encrypted in the browser (see src/lib/encryption.ts),
+// stored as JSON under customMetadata.encryption. The Worker never sees the
+// key; it only checks the shape and that `fileSize` is the ciphertext's size.
+// Returns undefined when absent and null when invalid.
+export function parseEncryptionParams(value: unknown, fileSize: number): string | null | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object') return null;
+
+  const params = value as Record<string, unknown>;
+  const isCount = (n: unknown): n is number => Number.isSafeInteger(n) && (n as number) >= 0;
+  if (params.v !== 1 || params.alg !== 'AES-256-GCM' || params.nonceScheme !== 'prefix64-counter32') return null;
+  if (typeof params.noncePrefix !== 'string' || !BASE64URL.test(params.noncePrefix) || params.noncePrefix.length > 16) return null;
+  if (!isCount(params.chunkSize) || params.chunkSize === 0 || !isCount(params.size)) return null;
+
+  if (params.kdf === 'PBKDF2-SHA256') {
+    if (typeof params.salt !== 'string' || !BASE64URL.test(params.salt) || params.salt.length > 64) return null;
+    if (!isCount(params.iterations) || params.iterations === 0) return null;
+  } else if (params.kdf !== 'none') {
+    return null;
+  }
+
+  const chunks = Math.max(1, Math.ceil(params.size / params.chunkSize));
+  if (fileSize !== params.size + 16 * chunks) return null;
+
+  return JSON.stringify({
+    v: 1,
+    alg: params.alg,
+    kdf: params.kdf,
+    ...(params.kdf === 'PBKDF2-SHA256' && { iterations: params.iterations, salt: params.salt }),
+    nonceScheme: params.nonceScheme,
+    noncePrefix: params.noncePrefix,
+    chunkSize: params.chunkSize,
+    size: params.size
+  });
+}
+
+export function tagsOf(customMetadata: Record<string, string> | undefined): string[] {
+  return customMetadata?.tags ? customMetadata.tags.split(',') : [];
+}
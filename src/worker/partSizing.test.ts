@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  choosePartSize,
+  isValidPartSize,
+  MAX_OBJECT_SIZE,
+  MAX_PART_SIZE,
+  MAX_PARTS,
+  MAX_PROXY_PART_SIZE,
+  MIN_PART_SIZE,
+  partByteRange
+} from './partSizing';
+
+const MiB = 1024 * 1024;
+const GiB = 1024 * MiB;
+const TiB = 1024 * GiB;
+
+describe('choosePartSize', () => {
+  it('uses 10 MiB parts for small files', () => {
+    expect(choosePartSize(0)).toBe(10 * MiB);
+    expect(choosePartSize(MiB)).toBe(10 * MiB);
+    expect(choosePartSize(10 * GiB)).toBe(11 * MiB);
+  });
+
+  it('aims for about a thousand parts, up to 64 MiB each', () => {
+    expect(choosePartSize(20 * GiB)).toBe(21 * MiB);
+    expect(choosePartSize(100 * GiB)).toBe(64 * MiB);
+  });
+
+  it('grows parts past 64 MiB only when the file would need more than MAX_PARTS', () => {
+    const size = choosePartSize(TiB);
+    expect(size).toBe(105 * MiB);
+    expect(Math.ceil(TiB / size)).toBeLessThanOrEqual(MAX_PARTS);
+  });
+
+  it('honours a preference that keeps the file within MAX_PARTS', () => {
+    expect(choosePartSize(GiB, 20 * MiB)).toBe(20 * MiB);
+    expect(choosePartSize(GiB, 8 * MiB)).toBe(8 * MiB);
+  });
+
+  it('raises a preference that is too small for the file', () => {
+    expect(choosePartSize(100 * GiB, 5 * MiB)).toBe(11 * MiB);
+    expect(choosePartSize(MiB, 1)).toBe(MIN_PART_SIZE);
+  });
+
+  it('caps a preference at the maximum part size', () => {
+    expect(choosePartSize(GiB, 500 * MiB, MAX_PROXY_PART_SIZE)).toBe(MAX_PROXY_PART_SIZE);
+    expect(choosePartSize(GiB, 10 * GiB)).toBe(MAX_PART_SIZE);
+  });
+
+  it('exceeds the maximum part size for files that cannot fit otherwise', () => {
+    expect(choosePartSize(2 * TiB, undefined, MAX_PROXY_PART_SIZE)).toBeGreaterThan(MAX_PROXY_PART_SIZE);
+  });
+
+  it('always fits the largest object in MAX_PARTS parts of a valid size', () => {
+    for (const fileSize of [1, 5 * MiB + 1, 50 * GiB, 640 * GiB + 1, 3 * TiB, MAX_OBJECT_SIZE]) {
+      const size = choosePartSize(fileSize);
+      expect(isValidPartSize(size)).toBe(true);
+      expect(Math.ceil(fileSize / size)).toBeLessThanOrEqual(MAX_PARTS);
+    }
+  });
+});
+
+describe('isValidPartSize', () => {
+  it('accepts whole sizes between the R2 limits', () => {
+    expect(isValidPartSize(MIN_PART_SIZE)).toBe(true);
+    expect(isValidPartSize(MAX_PART_SIZE)).toBe(true);
+    expect(isValidPartSize(MIN_PART_SIZE - 1)).toBe(false);
+    expect(isValidPartSize(MAX_PART_SIZE + 1)).toBe(false);
+    expect(isValidPartSize(MIN_PART_SIZE + 0.5)).toBe(false);
+  });
+});
+
+describe('partByteRange', () => {
+  it('covers the file with full parts and a shorter last one', () => {
+    const fileSize = 25 * MiB + 3;
+    expect(partByteRange(1, 10 * MiB, fileSize)).toEqual({ start: 0, end: 10 * MiB });
+    expect(partByteRange(2, 10 * MiB, fileSize)).toEqual({ start: 10 * MiB, end: 20 * MiB });
+    expect(partByteRange(3, 10 * MiB, fileSize)).toEqual({ start: 20 * MiB, end: fileSize });
+  });
+});
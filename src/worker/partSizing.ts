@@ -0,0 +1,46 @@
+// R2 multipart limits
+export const MIN_PART_SIZE = 5 * 1024 * 1024; // 5MB
+export const MAX_PART_SIZE = 5 * 1024 * 1024 * 1024; // 5GB
+export const MAX_PARTS = 10000;
+export const MAX_OBJECT_SIZE = 5 * 1024 ** 4 - MAX_PART_SIZE; // 4.995TB
+
+// Parts sent through the Worker have to fit in its request body limit
+// (100 MB on most plans)
+export const MAX_PROXY_PART_SIZE = 95 * 1024 * 1024; // 95MB
+
+// Without a preference, aim for about this many parts, with parts well below
+// MAX_PROXY_PART_SIZE.
+const TARGET_PARTS = 1000;
+const DEFAULT_MIN_PART_SIZE = 10 * 1024 * 1024; // 10MB
+const DEFAULT_MAX_PART_SIZE = 64 * 1024 * 1024; // 64MB
+
+const MB = 1024 * 1024;
+
+function roundUpToMB(size: number): number {
+  return Math.ceil(size / MB) * MB;
+}
+
+export function isValidPartSize(size: number): boolean {
+  return Number.isSafeInteger(size) && size >= MIN_PART_SIZE && size <= MAX_PART_SIZE;
+}
+
+// Pick the part size for a file. A client preference is honoured up to
+// `maxPartSize` unless the file would then need more than MAX_PARTS parts, in
+// which case the smallest size that fits is used instead. For a file too big
+// to fit in MAX_PARTS parts of `maxPartSize` the result exceeds it, which
+// callers have to check.
+export function choosePartSize(fileSize: number, preferredPartSize?: number, maxPartSize = MAX_PART_SIZE): number {
+  const smallestAllowed = Math.max(MIN_PART_SIZE, roundUpToMB(fileSize / MAX_PARTS));
+
+  const target = Math.min(maxPartSize, preferredPartSize ?? Math.min(
+    DEFAULT_MAX_PART_SIZE,
+    Math.max(DEFAULT_MIN_PART_SIZE, roundUpToMB(fileSize / TARGET_PARTS))
+  ));
+
+  return Math.min(MAX_PART_SIZE, Math.max(target, smallestAllowed));
+}
+
+export function partByteRange(partNumber: number, partSize: number, fileSize: number): { start: number; end: number } {
+  const start = (partNumber - 1) * partSize;
+  return { start, end: Math.min(start + partSize, fileSize) };
+}
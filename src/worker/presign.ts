@@ -0,0 +1,179 @@
+import {
+  CopyObjectCommand,
+  GetObjectCommand,
+  ListPartsCommand,
+  PutObjectCommand,
+  S3Client,
+  UploadPartCommand,
+  UploadPartCopyCommand
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { Env } from './env';
+import type { CompletedPart } from './sessions';
+
+const DEFAULT_BUCKET_NAME = 'large-files';
+const DEFAULT_URL_TTL = 3600; // 1 hour
+
+export function usePresignedUploads(env: Env): boolean {
+  return env.UPLOAD_MODE === 'presigned';
+}
+
+export function presignedUrlTtl(env: Env): number {
+  const ttl = parseInt(env.PRESIGNED_URL_TTL || '', 10);
+  return ttl > 0 ? ttl : DEFAULT_URL_TTL;
+}
+
+// Copies go through the S3 API when it can be reached; proxy mode works
+// without it
+export function hasS3Credentials(env: Env): boolean {
+  return Boolean(env.R2_ACCOUNT_ID && env.R2_ACCESS_KEY_ID && env.R2_SECRET_ACCESS_KEY);
+}
+
+function bucketName(env: Env): string {
+  return env.R2_BUCKET_NAME || DEFAULT_BUCKET_NAME;
+}
+
+function createClient(env: Env): S3Client {
+  return new S3Client({
+    region: 'auto',
+    endpoint: `https://${env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com`,
+    credentials: {
+      accessKeyId: env.R2_ACCESS_KEY_ID,
+      secretAccessKey: env.R2_SECRET_ACCESS_KEY
+    },
+    // Browsers can't add the SDK's default checksum headers to a presigned PUT
+    requestChecksumCalculation: 'WHEN_REQUIRED',
+    responseChecksumValidation: 'WHEN_REQUIRED'
+  });
+}
+
+// The part's length is signed, so R2 refuses a body of any other size
+export async function presignUploadPart(env: Env, key: string, uploadId: string, partNumber: number, length: number): Promise<string> {
+  return getSignedUrl(createClient(env), new UploadPartCommand({
+    Bucket: bucketName(env),
+    Key: key,
+    UploadId: uploadId,
+    PartNumber: partNumber,
+    ContentLength: length
+  }), { expiresIn: presignedUrlTtl(env), signableHeaders: new Set(['content-length']) });
+}
+
+// Metadata is part of the signature, so the browser must send it back as
+// `x-amz-meta-*` headers with the PUT. With `ifNoneMatch` the browser must
+// also send `If-None-Match: *`, and R2 refuses to replace an existing object.
+// A signed `contentLength` holds the upload to the size it declared.
+export async function presignPutObject(
+  env: Env,
+  key: string,
+  options: { contentType?: string; contentLength?: number; metadata?: Record<string, string>; ifNoneMatch?: boolean } = {}
+): Promise<string> {
+  return getSignedUrl(createClient(env), new PutObjectCommand({
+    Bucket: bucketName(env),
+    Key: key,
+    ContentType: options.contentType,
+    ContentLength: options.contentLength,
+    Metadata: options.metadata,
+    IfNoneMatch: options.ifNoneMatch ? '*' : undefined
+  }), {
+    expiresIn: presignedUrlTtl(env),
+    // Keep the header signed rather than hoisted into the query string
+    unhoistableHeaders: options.ifNoneMatch ? new Set(['if-none-match']) : undefined,
+    signableHeaders: options.contentLength !== undefined ? new Set(['content-length']) : undefined
+  });
+}
+
+export async function presignGetObject(env: Env, key: string, filename: string = key): Promise<string> {
+  return getSignedUrl(createClient(env), new GetObjectCommand({
+    Bucket: bucketName(env),
+    Key: key,
+    ResponseContentDisposition: `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`
+  }), { expiresIn: presignedUrlTtl(env) });
+}
+
+export interface UploadedPartInfo extends CompletedPart {
+  size: number;
+}
+
+// Parts PUT straight to R2 never pass through the Worker, so ask R2 which
+// ones it has (and how big they are) instead of relying on the session
+// records.
+export async function listUploadedParts(env: Env, key: string, uploadId: string): Promise<UploadedPartInfo[]> {
+  const client = createClient(env);
+  const parts: UploadedPartInfo[] = [];
+  let marker: string | undefined;
+
+  do {
+    const page = await client.send(new ListPartsCommand({
+      Bucket: bucketName(env),
+      Key: key,
+      UploadId: uploadId,
+      PartNumberMarker: marker
+    }));
+    for (const part of page.Parts ?? []) {
+      if (part.PartNumber && part.ETag) {
+        parts.push({ partNumber: part.PartNumber, etag: part.ETag.replace(/"/g, ''), size: part.Size ?? 0 });
+      }
+    }
+    marker = page.IsTruncated ? page.NextPartNumberMarker : undefined;
+  } while (marker);
+
+  return parts;
+}
+
+// `bucket/key` for the copy source header, with the key URL-encoded
+function copySource(env: Env, key: string): string {
+  return `${bucketName(env)}/${key.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+// True for the 412 R2 answers when a copy's precondition fails
+export function isPreconditionFailed(error: unknown): boolean {
+  return (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode === 412;
+}
+
+// Copy an object of up to 5 GiB inside R2, content type and metadata
+// included, without the bytes passing through the Worker. `ifMatch` pins the
+// source's version; with `ifNoneMatch`, an existing destination is left alone.
+export async function copyObjectInBucket(env: Env, from: string, to: string, options: { ifMatch: string; ifNoneMatch?: boolean }): Promise<void> {
+  const command = new CopyObjectCommand({
+    Bucket: bucketName(env),
+    Key: to,
+    CopySource: copySource(env, from),
+    CopySourceIfMatch: options.ifMatch,
+    MetadataDirective: 'COPY'
+  });
+  if (options.ifNoneMatch) {
+    // R2's extension for a conditional copy destination
+    command.middlewareStack.add((next) => async (args) => {
+      (args.request as { headers: Record<string, string> }).headers['cf-copy-destination-if-none-match'] = '*';
+      return next(args);
+    }, { step: 'build' });
+  }
+  await createClient(env).send(command);
+}
+
+// Copy a byte range of an object into a part of a multipart upload inside R2.
+// Returns the part's ETag.
+export async function copyPartInBucket(
+  env: Env,
+  from: string,
+  to: string,
+  uploadId: string,
+  partNumber: number,
+  range: { offset: number; length: number },
+  ifMatch: string
+): Promise<string> {
+  const result = await createClient(env).send(new UploadPartCopyCommand({
+    Bucket: bucketName(env),
+    Key: to,
+    UploadId: uploadId,
+    PartNumber: partNumber,
+    CopySource: copySource(env, from),
+    CopySourceRange: `bytes=${range.offset}-${range.offset + range.length - 1}`,
+    CopySourceIfMatch: ifMatch
+  }));
+  const etag = result.CopyPartResult?.ETag?.replace(/"/g, '');
+  if (!etag) {
+    throw new Error(`No ETag received for copied part ${partNumber}`);
+  }
+  return etag;
+}
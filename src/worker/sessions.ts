@@ -0,0 +1,113 @@
+import type { R2Bucket } from '@cloudflare/workers-types/latest';
+import type { ConflictPolicy } from './keys';
+
+// Internal bookkeeping lives in the same bucket under this prefix and is
+// hidden from file listings.
+export const SYSTEM_PREFIX = '_system/';
+
+const SESSION_PREFIX = `${SYSTEM_PREFIX}uploads/`;
+
+export interface UploadSession {
+  uploadId: string;
+  key: string;
+  // Id of the user who started the upload
+  owner: string;
+  fileSize: number;
+  partSize: number;
+  partCount: number;
+  // Re-checked on completion, since R2 can't complete conditionally
+  conflictPolicy?: ConflictPolicy;
+  // File request link the upload came through, counted against its limits
+  fileRequest?: string;
+  createdAt: string;
+}
+
+export interface CompletedPart {
+  partNumber: number;
+  etag: string;
+}
+
+export function isSystemKey(key: string): boolean {
+  return key.startsWith(SYSTEM_PREFIX);
+}
+
+function sessionPath(uploadId: string): string {
+  return `${SESSION_PREFIX}${uploadId}/session.json`;
+}
+
+function partsPrefix(uploadId: string): string {
+  return `${SESSION_PREFIX}${uploadId}/parts/`;
+}
+
+export async function saveSession(bucket: R2Bucket, session: UploadSession): Promise<void> {
+  await bucket.put(sessionPath(session.uploadId), JSON.stringify(session), {
+    httpMetadata: { contentType: 'application/json' }
+  });
+}
+
+export async function getSession(bucket: R2Bucket, uploadId: string): Promise<UploadSession | null> {
+  const object = await bucket.get(sessionPath(uploadId));
+  if (!object) return null;
+  return await object.json<UploadSession>();
+}
+
+// Each part is recorded as its own object so concurrent part uploads never
+// overwrite each other's bookkeeping.
+export async function recordPart(bucket: R2Bucket, uploadId: string, part: CompletedPart): Promise<void> {
+  await bucket.put(`${partsPrefix(uploadId)}${part.partNumber}`, '', {
+    customMetadata: { etag: part.etag }
+  });
+}
+
+export async function listCompletedParts(bucket: R2Bucket, uploadId: string): Promise<CompletedPart[]> {
+  const parts: CompletedPart[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await bucket.list({ prefix: partsPrefix(uploadId), cursor, include: ['customMetadata'] });
+    for (const object of page.objects) {
+      const etag = object.customMetadata?.etag;
+      if (!etag) continue;
+      parts.push({
+        partNumber: parseInt(object.key.slice(partsPrefix(uploadId).length), 10),
+        etag
+      });
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  return parts.sort((a, b) => a.partNumber - b.partNumber);
+}
+
+// Every upload that has been initiated but not yet completed or aborted
+export async function listSessions(bucket: R2Bucket): Promise<UploadSession[]> {
+  const sessions: UploadSession[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await bucket.list({ prefix: SESSION_PREFIX, delimiter: '/', cursor });
+    for (const prefix of page.delimitedPrefixes) {
+      const session = await getSession(bucket, prefix.slice(SESSION_PREFIX.length, -1));
+      if (session) sessions.push(session);
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  return sessions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function deleteSession(bucket: R2Bucket, uploadId: string): Promise<void> {
+  const keys = [sessionPath(uploadId)];
+  let cursor: string | undefined;
+
+  do {
+    const page = await bucket.list({ prefix: partsPrefix(uploadId), cursor });
+    keys.push(...page.objects.map((object) => object.key));
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  // R2 accepts at most 1000 keys per delete call
+  for (let i = 0; i < keys.length; i += 1000) {
+    await bucket.delete(keys.slice(i, i + 1000));
+  }
+}
@@ -0,0 +1,186 @@
+import type { R2Bucket } from '@cloudflare/workers-types/latest';
+import type { Env } from './env';
+import { SYSTEM_PREFIX } from './sessions';
+
+const SHARE_PREFIX = `${SYSTEM_PREFIX}shares/`;
+const OWNER_PREFIX = `${SYSTEM_PREFIX}share-owners/`;
+const PASSWORD_ITERATIONS = 100000; // Highest PBKDF2 count Workers allow
+
+export const MAX_SHARE_TTL = 30 * 24 * 60 * 60; // 30 days
+
+export interface ShareLink {
+  id: string;
+  owner: string;
+  // Full object key, including the owner's prefix
+  key: string;
+  // Name the recipient sees
+  filename: string;
+  createdAt: string;
+  expiresAt: number;
+  maxDownloads: number | null;
+  downloads: number;
+  passwordHash: string | null;
+  passwordSalt: string | null;
+}
+
+// What the owner sees when listing their links
+export type ShareSummary = Omit<ShareLink, 'passwordHash' | 'passwordSalt' | 'key'> & {
+  hasPassword: boolean;
+  url: string;
+};
+
+const encoder = new TextEncoder();
+
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function sharePath(id: string): string {
+  return `${SHARE_PREFIX}${id}.json`;
+}
+
+function ownerPath(owner: string, id: string): string {
+  return `${OWNER_PREFIX}${encodeURIComponent(owner)}/${id}`;
+}
+
+function shareSecret(env: Env): string {
+  const secret = env.SHARE_SECRET || env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('SHARE_SECRET is not configured');
+  }
+  return secret;
+}
+
+// Also signs file request links, whose subject is prefixed so a signature
+// for one kind of link is never valid for the other
+export async function signLink(env: Env, subject: string, expiresAt: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(shareSecret(env)), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(`${subject}.${expiresAt}`)));
+}
+
+// Check a link's signature and expiry. The expiry in the URL must match
+// the stored one, so a link can't be extended by editing it.
+export async function verifyLink(
+  env: Env,
+  subject: string,
+  expiresAt: number,
+  expires: string | null,
+  signature: string | null
+): Promise<boolean> {
+  if (!signature || expires !== String(expiresAt)) return false;
+  if (expiresAt < Date.now()) return false;
+
+  const expected = await signLink(env, subject, expiresAt);
+  let diff = expected.length ^ signature.length;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ (signature.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+}
+
+async function hashPassword(password: string, salt: string): Promise<string> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(salt), iterations: PASSWORD_ITERATIONS },
+    material,
+    256
+  );
+  return toHex(bits);
+}
+
+export async function shareUrl(env: Env, origin: string, share: ShareLink): Promise<string> {
+  const signature = await signLink(env, share.id, share.expiresAt);
+  return `${origin}/api/public/share/${share.id}?expires=${share.expiresAt}&signature=${signature}`;
+}
+
+export async function createShare(
+  env: Env,
+  share: Pick<ShareLink, 'owner' | 'key' | 'filename' | 'expiresAt' | 'maxDownloads'> & { password?: string }
+): Promise<ShareLink> {
+  const id = crypto.randomUUID();
+  const salt = share.password ? toHex(crypto.getRandomValues(new Uint8Array(16))) : null;
+
+  const record: ShareLink = {
+    id,
+    owner: share.owner,
+    key: share.key,
+    filename: share.filename,
+    createdAt: new Date().toISOString(),
+    expiresAt: share.expiresAt,
+    maxDownloads: share.maxDownloads,
+    downloads: 0,
+    passwordHash: share.password && salt ? await hashPassword(share.password, salt) : null,
+    passwordSalt: salt
+  };
+
+  await env.BUCKET.put(sharePath(id), JSON.stringify(record), {
+    httpMetadata: { contentType: 'application/json' }
+  });
+  await env.BUCKET.put(ownerPath(share.owner, id), '');
+
+  return record;
+}
+
+export async function getShare(bucket: R2Bucket, id: string): Promise<ShareLink | null> {
+  const object = await bucket.get(sharePath(id));
+  if (!object) return null;
+  return await object.json<ShareLink>();
+}
+
+export async function listShares(bucket: R2Bucket, owner: string): Promise<ShareLink[]> {
+  const prefix = `${OWNER_PREFIX}${encodeURIComponent(owner)}/`;
+  const shares: ShareLink[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await bucket.list({ prefix, cursor });
+    for (const object of page.objects) {
+      const share = await getShare(bucket, object.key.slice(prefix.length));
+      if (share) shares.push(share);
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  return shares.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function revokeShare(bucket: R2Bucket, share: ShareLink): Promise<void> {
+  await bucket.delete([sharePath(share.id), ownerPath(share.owner, share.id)]);
+}
+
+export async function summarizeShare(env: Env, origin: string, share: ShareLink): Promise<ShareSummary> {
+  const { passwordHash, passwordSalt: _salt, key: _key, ...rest } = share;
+  return { ...rest, hasPassword: passwordHash !== null, url: await shareUrl(env, origin, share) };
+}
+
+export async function verifyShareLink(env: Env, share: ShareLink, expires: string | null, signature: string | null): Promise<boolean> {
+  return verifyLink(env, share.id, share.expiresAt, expires, signature);
+}
+
+export async function checkSharePassword(share: ShareLink, password: string | null): Promise<boolean> {
+  if (!share.passwordHash || !share.passwordSalt) return true;
+  if (!password) return false;
+  return (await hashPassword(password, share.passwordSalt)) === share.passwordHash;
+}
+
+// Count one download against the link's limit. Uses a conditional write on
+// the record's etag so concurrent downloads can't both take the last slot.
+export async function claimShareDownload(bucket: R2Bucket, id: string): Promise<boolean> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const object = await bucket.get(sharePath(id));
+    if (!object) return false;
+
+    const share = await object.json<ShareLink>();
+    if (share.maxDownloads !== null && share.downloads >= share.maxDownloads) return false;
+
+    const updated = await bucket.put(sharePath(id), JSON.stringify({ ...share, downloads: share.downloads + 1 }), {
+      httpMetadata: { contentType: 'application/json' },
+      onlyIf: { etagMatches: object.etag }
+    });
+    if (updated) return true;
+  }
+
+  throw new Error('Share link is too busy, try again');
+}
@@ -0,0 +1,128 @@
+import type { R2Bucket, R2HTTPMetadata, R2Object } from '@cloudflare/workers-types/latest';
+import { folderOf, keyDigest } from './keys';
+import { SYSTEM_PREFIX } from './sessions';
+
+// Edits to a file's content type, description and tags. R2 metadata can only
+// change by rewriting the object, which for big files takes longer than a
+// request may run and gives the object a new ETag, breaking resumed
+// downloads. Edits are kept in an empty sidecar object instead, with the
+// values in its customMetadata.
+//
+// Sidecars are named after digests of the file's folder and key, so a name
+// that fits R2's key limit always has room for its sidecar, and a folder's
+// sidecars still come back in one listing, like download stats.
+//
+// A sidecar names the object version it was written for, so one left behind
+// by a file that has since been replaced is ignored.
+
+const SIDECAR_PREFIX = `${SYSTEM_PREFIX}metadata/`;
+// R2 deletes at most this many keys per call
+const DELETE_BATCH = 1000;
+
+export type Sidecar = Record<string, string>;
+
+export interface EffectiveMetadata {
+  httpMetadata: R2HTTPMetadata;
+  customMetadata: Record<string, string>;
+}
+
+// Sidecars of one folder's files, by the digest of the file's key
+export type FolderSidecars = Map<string, Sidecar>;
+
+async function folderPath(folder: string): Promise<string> {
+  return `${SIDECAR_PREFIX}${await keyDigest(folder)}/`;
+}
+
+async function sidecarKey(key: string): Promise<string> {
+  return `${await folderPath(folderOf(key))}${await keyDigest(key)}`;
+}
+
+// The object's metadata with any edits applied
+export function withSidecar(object: R2Object, sidecar: Sidecar | null | undefined): EffectiveMetadata {
+  const httpMetadata = object.httpMetadata ?? {};
+  const customMetadata = object.customMetadata ?? {};
+  if (!sidecar || sidecar.version !== object.version) {
+    return { httpMetadata, customMetadata };
+  }
+
+  const { description: _description, tags: _tags, ...rest } = customMetadata;
+  return {
+    httpMetadata: { ...httpMetadata, ...(sidecar.contentType && { contentType: sidecar.contentType }) },
+    customMetadata: {
+      ...rest,
+      ...(sidecar.description && { description: sidecar.description }),
+      ...(sidecar.tags && { tags: sidecar.tags })
+    }
+  };
+}
+
+// The edits for `object`, if any were made to this version of it
+export async function getSidecar(bucket: R2Bucket, object: R2Object): Promise<Sidecar | null> {
+  const sidecar = await bucket.head(await sidecarKey(object.key));
+  return sidecar?.customMetadata?.version === object.version ? sidecar.customMetadata : null;
+}
+
+async function listFolderSidecars(bucket: R2Bucket, folder: string): Promise<FolderSidecars> {
+  const root = await folderPath(folder);
+  const sidecars: FolderSidecars = new Map();
+  let cursor: string | undefined;
+
+  do {
+    const page = await bucket.list({ prefix: root, cursor, include: ['customMetadata'] });
+    for (const object of page.objects) {
+      sidecars.set(object.key.slice(root.length), object.customMetadata ?? {});
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  return sidecars;
+}
+
+// Sidecars of `keys` (full object keys), by key. Each folder is listed once
+// and kept in `folders`, so paging through a folder doesn't list it again.
+export async function getSidecars(
+  bucket: R2Bucket,
+  keys: string[],
+  folders: Map<string, FolderSidecars> = new Map()
+): Promise<Map<string, Sidecar>> {
+  const sidecars = new Map<string, Sidecar>();
+  for (const key of keys) {
+    const folder = folderOf(key);
+    let inFolder = folders.get(folder);
+    if (!inFolder) {
+      inFolder = await listFolderSidecars(bucket, folder);
+      folders.set(folder, inFolder);
+    }
+    const sidecar = inFolder.get(await keyDigest(key));
+    if (sidecar) sidecars.set(key, sidecar);
+  }
+  return sidecars;
+}
+
+// Record `metadata` as the editable metadata of this version of `object`
+export async function writeSidecar(bucket: R2Bucket, object: R2Object, metadata: EffectiveMetadata): Promise<void> {
+  const { contentType } = metadata.httpMetadata;
+  const { description, tags } = metadata.customMetadata;
+  await bucket.put(await sidecarKey(object.key), '', {
+    customMetadata: {
+      version: object.version,
+      ...(contentType && { contentType }),
+      ...(description && { description }),
+      ...(tags && { tags })
+    }
+  });
+}
+
+// A copy keeps the source's edits
+export async function copySidecar(bucket: R2Bucket, source: R2Object, copy: R2Object): Promise<void> {
+  const sidecar = await getSidecar(bucket, source);
+  if (sidecar) {
+    await writeSidecar(bucket, copy, withSidecar(source, sidecar));
+  }
+}
+
+export async function deleteSidecars(bucket: R2Bucket, keys: string[]): Promise<void> {
+  for (let i = 0; i < keys.length; i += DELETE_BATCH) {
+    await bucket.delete(await Promise.all(keys.slice(i, i + DELETE_BATCH).map(sidecarKey)));
+  }
+}
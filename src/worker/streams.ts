@@ -0,0 +1,141 @@
+import type { ReadableStream, ReadableStreamDefaultReader } from '@cloudflare/workers-types/latest';
+
+type WorkersCrypto = import('@cloudflare/workers-types/latest').Crypto;
+
+// Runtime global in Workers; R2 needs to know a stream's length up front
+declare const FixedLengthStream: typeof import('@cloudflare/workers-types/latest').FixedLengthStream;
+
+// Pass chunks through unchanged while feeding them to a SHA-256 digest. Unlike
+// tee(), this keeps backpressure intact so nothing piles up in memory.
+//
+// With an expected digest, the last chunk is held back until the digest is
+// known and the stream errors instead of ending on a mismatch, so a fixed-length
+// write of it never completes with the wrong bytes.
+function sha256Passthrough(expected?: string): { transform: TransformStream<Uint8Array, Uint8Array>; sha256: Promise<string> } {
+  const digester = new (crypto as unknown as WorkersCrypto).DigestStream('SHA-256');
+  const writer = digester.getWriter();
+  const sha256 = digester.digest.then((digest) =>
+    Array.from(new Uint8Array(digest)).map((byte) => byte.toString(16).padStart(2, '0')).join('')
+  );
+  let held: Uint8Array | null = null;
+
+  const transform = new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      await writer.write(chunk);
+      if (expected === undefined) {
+        controller.enqueue(chunk);
+        return;
+      }
+      if (held) controller.enqueue(held);
+      held = chunk;
+    },
+    async flush(controller) {
+      await writer.close();
+      if (expected !== undefined && await sha256 !== expected) {
+        throw new Error(`SHA-256 is ${await sha256}, expected ${expected}`);
+      }
+      if (held) controller.enqueue(held);
+    }
+  });
+
+  return { transform, sha256 };
+}
+
+// Wrap the request body in a stream of the declared Content-Length so it can
+// be handed to R2 without reading it into memory first, computing its SHA-256
+// (hex) on the way through. With `expectedSha256`, a body with a different
+// digest fails the R2 write before it is stored. Returns null when the request
+// has no body or no usable Content-Length.
+export function fixedLengthBody(
+  request: Request,
+  expectedSha256?: string
+): { stream: ReadableStream; length: number; sha256: Promise<string> } | null {
+  const length = parseInt(request.headers.get('Content-Length') ?? '', 10);
+  if (!request.body || !Number.isSafeInteger(length) || length < 0) {
+    return null;
+  }
+
+  const { readable, writable } = new FixedLengthStream(length);
+  const { transform, sha256 } = sha256Passthrough(expectedSha256);
+  // A body shorter or longer than declared errors `readable`, failing the R2 write
+  request.body
+    .pipeThrough(transform)
+    .pipeTo(writable as unknown as WritableStream)
+    .catch(() => undefined);
+  // Callers only await the digest after a successful write
+  sha256.catch(() => undefined);
+
+  return { stream: readable, length, sha256 };
+}
+
+// Give an existing stream (e.g. an R2 object body) a known length so it can be
+// written back to R2
+export function fixedLengthStream(stream: ReadableStream, length: number): ReadableStream {
+  const { readable, writable } = new FixedLengthStream(length);
+  stream.pipeTo(writable).catch(() => undefined);
+  return readable;
+}
+
+export function isSha256Hex(value: string | null | undefined): value is string {
+  return typeof value === 'string' && /^[0-9a-f]{64}$/.test(value);
+}
+
+// Reads a body in pieces of a chosen size, keeping whatever is left of a
+// chunk that straddles two pieces
+export class SourceReader {
+  private pending: Uint8Array | null = null;
+
+  constructor(private reader: ReadableStreamDefaultReader<Uint8Array>) {}
+
+  async read(max: number): Promise<Uint8Array | null> {
+    let chunk = this.pending;
+    this.pending = null;
+    if (!chunk) {
+      const { done, value } = await this.reader.read();
+      if (done) return null;
+      chunk = value;
+    }
+    if (chunk.length > max) {
+      this.pending = chunk.subarray(max);
+      chunk = chunk.subarray(0, max);
+    }
+    return chunk;
+  }
+
+  // Buffer up to `length` bytes; fewer means the source has ended
+  async readUpTo(length: number): Promise<Uint8Array> {
+    const buffer = new Uint8Array(length);
+    let filled = 0;
+    while (filled < length) {
+      const chunk = await this.read(length - filled);
+      if (!chunk) break;
+      buffer.set(chunk, filled);
+      filled += chunk.length;
+    }
+    return buffer.subarray(0, filled);
+  }
+
+  // Exactly `length` bytes as a stream R2 accepts, without buffering them
+  stream(length: number): ReadableStream {
+    const { readable, writable } = new FixedLengthStream(length);
+    const writer = writable.getWriter();
+
+    const pump = async () => {
+      let remaining = length;
+      while (remaining > 0) {
+        const chunk = await this.read(remaining);
+        if (!chunk) throw new Error('Body ended before its announced Content-Length');
+        await writer.write(chunk);
+        remaining -= chunk.length;
+      }
+      await writer.close();
+    };
+    pump().catch((error) => writer.abort(error).catch(() => undefined));
+
+    return readable;
+  }
+
+  async cancel(): Promise<void> {
+    await this.reader.cancel().catch(() => undefined);
+  }
+}
@@ -0,0 +1,326 @@
+import type { DurableObjectNamespace, DurableObjectState, R2Bucket } from '@cloudflare/workers-types/latest';
+import { Counters } from './counters';
+import type { Env } from './env';
+
+// In-memory stand-ins for the Workers bindings the tests need: an R2 bucket
+// with conditional writes, listings and multipart uploads, and a COUNTERS
+// namespace running the real Counters object.
+
+type Conditional = Headers | { etagMatches?: string; etagDoesNotMatch?: string };
+type Body = string | ArrayBuffer | ArrayBufferView | ReadableStream | Blob | null;
+
+interface StoredObject {
+  key: string;
+  data: Uint8Array;
+  etag: string;
+  version: string;
+  uploaded: Date;
+  httpMetadata: Record<string, unknown>;
+  customMetadata: Record<string, string>;
+}
+
+interface PutOptions {
+  onlyIf?: Conditional;
+  httpMetadata?: Record<string, unknown>;
+  customMetadata?: Record<string, string>;
+}
+
+interface ListOptions {
+  prefix?: string;
+  delimiter?: string;
+  cursor?: string;
+  startAfter?: string;
+  limit?: number;
+}
+
+interface MultipartState {
+  key: string;
+  options: PutOptions;
+  parts: Map<number, { etag: string; data: Uint8Array }>;
+}
+
+// Runtime global in Workers: passes exactly `length` bytes or errors
+class FixedLengthStream extends TransformStream<Uint8Array, Uint8Array> {
+  constructor(length: number) {
+    let seen = 0;
+    super({
+      transform(chunk, controller) {
+        seen += chunk.length;
+        if (seen > length) throw new Error(`Stream is longer than ${length} bytes`);
+        controller.enqueue(chunk);
+      },
+      flush() {
+        if (seen !== length) throw new Error(`Stream ended after ${seen} of ${length} bytes`);
+      }
+    });
+  }
+}
+
+if (!('FixedLengthStream' in globalThis)) {
+  Object.assign(globalThis, { FixedLengthStream });
+}
+
+const encoder = new TextEncoder();
+let etags = 0;
+
+async function toBytes(body: Body): Promise<Uint8Array> {
+  if (body === null) return new Uint8Array();
+  if (typeof body === 'string') return encoder.encode(body);
+  if (body instanceof ArrayBuffer) return new Uint8Array(body.slice(0));
+  if (ArrayBuffer.isView(body)) return new Uint8Array(body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength));
+  return new Uint8Array(await new Response(body).arrayBuffer());
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+// `bytes` as a stream of `chunkSize` pieces, like a request body
+export function streamOf(bytes: Uint8Array, chunkSize = 64 * 1024): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + chunkSize));
+      offset += chunkSize;
+    }
+  });
+}
+
+// Element by element; deep equality on large arrays is slow and memory hungry
+export function sameBytes(actual: Uint8Array | null, expected: Uint8Array): boolean {
+  return actual !== null && actual.length === expected.length && actual.every((byte, i) => byte === expected[i]);
+}
+
+// Recognisable content: byte i is i modulo a prime, so misplaced ranges show
+export function patternBytes(length: number, start = 0): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => (start + i) % 251);
+}
+
+function conditionHolds(existing: StoredObject | undefined, onlyIf?: Conditional): boolean {
+  if (!onlyIf) return true;
+  const etag = existing?.etag;
+  if (onlyIf instanceof Headers) {
+    const ifNoneMatch = onlyIf.get('If-None-Match');
+    const ifMatch = onlyIf.get('If-Match');
+    if (ifNoneMatch === '*' && existing) return false;
+    if (ifMatch !== null && ifMatch.replace(/"/g, '') !== etag) return false;
+    return true;
+  }
+  if (onlyIf.etagMatches !== undefined && onlyIf.etagMatches !== etag) return false;
+  if (onlyIf.etagDoesNotMatch !== undefined && existing && (onlyIf.etagDoesNotMatch === '*' || onlyIf.etagDoesNotMatch === etag)) {
+    return false;
+  }
+  return true;
+}
+
+function toObject(stored: StoredObject) {
+  return {
+    key: stored.key,
+    size: stored.data.length,
+    etag: stored.etag,
+    httpEtag: `"${stored.etag}"`,
+    version: stored.version,
+    uploaded: stored.uploaded,
+    httpMetadata: { ...stored.httpMetadata },
+    customMetadata: { ...stored.customMetadata },
+    checksums: {},
+    storageClass: 'Standard'
+  };
+}
+
+function withBody(stored: StoredObject, range?: { offset?: number; length?: number; suffix?: number }) {
+  let data = stored.data;
+  if (range) {
+    const offset = range.suffix !== undefined ? Math.max(0, data.length - range.suffix) : range.offset ?? 0;
+    const end = range.length !== undefined ? offset + range.length : data.length;
+    data = data.slice(offset, end);
+  }
+  return {
+    ...toObject(stored),
+    body: streamOf(data),
+    arrayBuffer: async () => data.slice().buffer,
+    text: async () => new TextDecoder().decode(data),
+    json: async () => JSON.parse(new TextDecoder().decode(data))
+  };
+}
+
+export class MemoryBucket {
+  readonly objects = new Map<string, StoredObject>();
+  private multipart = new Map<string, MultipartState>();
+
+  // Stored content of `key`, for assertions
+  bytes(key: string): Uint8Array | null {
+    return this.objects.get(key)?.data ?? null;
+  }
+
+  keys(prefix = ''): string[] {
+    return [...this.objects.keys()].filter((key) => key.startsWith(prefix)).sort();
+  }
+
+  async put(key: string, value: Body, options: PutOptions = {}) {
+    const data = await toBytes(value);
+    if (!conditionHolds(this.objects.get(key), options.onlyIf)) return null;
+    return toObject(this.store(key, data, options));
+  }
+
+  async head(key: string) {
+    const stored = this.objects.get(key);
+    return stored ? toObject(stored) : null;
+  }
+
+  // A failed condition returns the object without a body, as R2 does
+  async get(key: string, options: { onlyIf?: Conditional; range?: { offset?: number; length?: number; suffix?: number } } = {}) {
+    const stored = this.objects.get(key);
+    if (!stored) return null;
+    if (!conditionHolds(stored, options.onlyIf)) return toObject(stored);
+    return withBody(stored, options.range);
+  }
+
+  async delete(keys: string | string[]): Promise<void> {
+    for (const key of Array.isArray(keys) ? keys : [keys]) {
+      this.objects.delete(key);
+    }
+  }
+
+  // Cursors are the last key a page covered
+  async list(options: ListOptions = {}) {
+    const prefix = options.prefix ?? '';
+    const limit = options.limit ?? 1000;
+    const after = options.cursor ?? options.startAfter ?? '';
+    const keys = this.keys(prefix).filter((key) => key > after);
+
+    const objects = [];
+    const delimitedPrefixes: string[] = [];
+    let last = after;
+    let i = 0;
+    while (i < keys.length && objects.length + delimitedPrefixes.length < limit) {
+      const key = keys[i];
+      const at = options.delimiter ? key.indexOf(options.delimiter, prefix.length) : -1;
+      if (at === -1) {
+        objects.push(toObject(this.objects.get(key)!));
+        last = key;
+        i++;
+        continue;
+      }
+      const folder = key.slice(0, at + options.delimiter!.length);
+      delimitedPrefixes.push(folder);
+      while (i < keys.length && keys[i].startsWith(folder)) {
+        last = keys[i];
+        i++;
+      }
+    }
+
+    const truncated = i < keys.length;
+    return { objects, delimitedPrefixes, truncated, ...(truncated && { cursor: last }) };
+  }
+
+  async createMultipartUpload(key: string, options: PutOptions = {}) {
+    const uploadId = crypto.randomUUID();
+    this.multipart.set(uploadId, { key, options, parts: new Map() });
+    return this.resumeMultipartUpload(key, uploadId);
+  }
+
+  resumeMultipartUpload(key: string, uploadId: string) {
+    const state = () => {
+      const upload = this.multipart.get(uploadId);
+      if (!upload || upload.key !== key) throw new Error(`No multipart upload ${uploadId}`);
+      return upload;
+    };
+
+    return {
+      key,
+      uploadId,
+      uploadPart: async (partNumber: number, value: Body) => {
+        const etag = `part-${++etags}`;
+        state().parts.set(partNumber, { etag, data: await toBytes(value) });
+        return { partNumber, etag };
+      },
+      abort: async () => {
+        state();
+        this.multipart.delete(uploadId);
+      },
+      // R2 wants every part but the last to have the same size, at least 5 MiB
+      complete: async (parts: { partNumber: number; etag: string }[]) => {
+        const upload = state();
+        const chunks = parts.map(({ partNumber, etag }) => {
+          const part = upload.parts.get(partNumber);
+          if (!part || part.etag !== etag) throw new Error(`Part ${partNumber} was not uploaded`);
+          return part.data;
+        });
+        const sizes = chunks.slice(0, -1).map((chunk) => chunk.length);
+        if (sizes.some((size) => size !== sizes[0] || size < 5 * 1024 * 1024)) {
+          throw new Error(`Parts must be the same size, at least 5 MiB, except the last: ${sizes.join(', ')}`);
+        }
+        this.multipart.delete(uploadId);
+        return toObject(this.store(key, concat(chunks), upload.options));
+      }
+    };
+  }
+
+  private store(key: string, data: Uint8Array, options: PutOptions): StoredObject {
+    const stored: StoredObject = {
+      key,
+      data,
+      etag: `etag-${++etags}`,
+      version: crypto.randomUUID(),
+      uploaded: new Date(),
+      httpMetadata: options.httpMetadata ?? {},
+      customMetadata: options.customMetadata ?? {}
+    };
+    this.objects.set(key, stored);
+    return stored;
+  }
+}
+
+// Durable Object storage and input gate, enough for Counters
+function memoryState(): DurableObjectState {
+  const values = new Map<string, unknown>();
+  let gate: Promise<unknown> = Promise.resolve();
+
+  return {
+    storage: {
+      get: async (key: string) => structuredClone(values.get(key)),
+      put: async (entries: Record<string, unknown>) => {
+        for (const [key, value] of Object.entries(entries)) values.set(key, structuredClone(value));
+      }
+    },
+    blockConcurrencyWhile: <T>(callback: () => Promise<T>) => {
+      const result = gate.then(callback);
+      gate = result.catch(() => undefined);
+      return result;
+    }
+  } as unknown as DurableObjectState;
+}
+
+export function memoryCounters(): DurableObjectNamespace {
+  const objects = new Map<string, Counters>();
+  return {
+    idFromName: (name: string) => name,
+    get: (id: string) => {
+      if (!objects.has(id)) objects.set(id, new Counters(memoryState()));
+      const counter = objects.get(id)!;
+      return { fetch: (url: string, init: RequestInit) => counter.fetch(new Request(url, init)) };
+    }
+  } as unknown as DurableObjectNamespace;
+}
+
+export function testEnv(bucket = new MemoryBucket(), overrides: Partial<Env> = {}): Env {
+  return {
+    BUCKET: bucket as unknown as R2Bucket,
+    COUNTERS: memoryCounters(),
+    R2_ACCESS_KEY_ID: '',
+    R2_SECRET_ACCESS_KEY: '',
+    R2_ACCOUNT_ID: '',
+    ...overrides
+  };
+}
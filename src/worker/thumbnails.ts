@@ -0,0 +1,67 @@
+import type { R2Bucket, R2Object } from '@cloudflare/workers-types/latest';
+import type { Env } from './env';
+import { keyDigest } from './keys';
+import { SYSTEM_PREFIX } from './sessions';
+
+// Thumbnails are generated with the Images binding the first time they're
+// asked for and cached in the bucket, tagged with the source's ETag so a
+// replaced image gets a fresh one.
+
+const THUMBNAIL_PREFIX = `${SYSTEM_PREFIX}thumbnails/`;
+export const THUMBNAIL_SIZE = 256;
+// Larger sources aren't worth pulling through the Images binding for a preview
+const MAX_SOURCE_SIZE = 50 * 1024 * 1024;
+
+const THUMBNAIL_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/avif'];
+
+export async function thumbnailKey(key: string): Promise<string> {
+  return `${THUMBNAIL_PREFIX}${await keyDigest(key)}.webp`;
+}
+
+export function canThumbnail(object: R2Object): boolean {
+  const type = object.httpMetadata?.contentType?.split(';')[0].trim();
+  return !!type && THUMBNAIL_TYPES.includes(type) && object.size <= MAX_SOURCE_SIZE;
+}
+
+// The cached thumbnail for an image, generating it if needed. Returns null when
+// the object doesn't exist, isn't a supported image, or no Images binding is
+// configured.
+export async function getThumbnail(env: Env, key: string): Promise<{ bytes: ArrayBuffer; etag: string } | null> {
+  const source = await env.BUCKET.head(key);
+  if (!source || !canThumbnail(source)) return null;
+
+  const cacheKey = await thumbnailKey(key);
+  const cached = await env.BUCKET.get(cacheKey);
+  if (cached && cached.customMetadata?.etag === source.etag) {
+    return { bytes: await cached.arrayBuffer(), etag: source.etag };
+  }
+
+  if (!env.IMAGES) return null;
+
+  const object = await env.BUCKET.get(key, { onlyIf: { etagMatches: source.etag } });
+  if (!object || !('body' in object)) return null;
+
+  let bytes: ArrayBuffer;
+  try {
+    const result = await env.IMAGES.input(object.body)
+      .transform({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: 'scale-down' })
+      .output({ format: 'image/webp', quality: 80 });
+    // Small enough to buffer, and R2 needs the length up front
+    bytes = await result.response().arrayBuffer();
+  } catch (error) {
+    // Corrupt or mislabelled images can't be thumbnailed; the preview falls back to the original
+    console.warn(`Failed to generate thumbnail for ${key}:`, (error as Error).message);
+    return null;
+  }
+
+  await env.BUCKET.put(cacheKey, bytes, {
+    httpMetadata: { contentType: 'image/webp' },
+    customMetadata: { source: key, etag: source.etag }
+  });
+
+  return { bytes, etag: source.etag };
+}
+
+export async function deleteThumbnails(bucket: R2Bucket, keys: string[]): Promise<void> {
+  await bucket.delete(await Promise.all(keys.map(thumbnailKey)));
+}
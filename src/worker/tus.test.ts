@@ -0,0 +1,154 @@
+import type { ReadableStream as WorkersReadableStream } from '@cloudflare/workers-types/latest';
+import { describe, expect, it } from 'vitest';
+import type { Env } from './env';
+import { MemoryBucket, patternBytes, sameBytes, streamOf, testEnv } from './testing';
+import {
+  appendToTusUpload,
+  createTusUpload,
+  deleteTusUpload,
+  getTusUpload,
+  isExpired,
+  OffsetConflictError,
+  parseUploadMetadata,
+  TusUpload
+} from './tus';
+
+const MiB = 1024 * 1024;
+
+function create(env: Env, length: number): Promise<TusUpload> {
+  return createTusUpload(env, {
+    owner: 'alice',
+    key: 'alice/file.bin',
+    name: 'file.bin',
+    length,
+    metadata: '',
+    contentType: 'application/octet-stream',
+    conflictPolicy: 'fail'
+  });
+}
+
+// PATCH `bytes` at the upload's current offset, as the route does
+async function patch(env: Env, id: string, bytes: Uint8Array, etag?: string): Promise<TusUpload> {
+  const current = await getTusUpload(env.BUCKET, 'alice', id);
+  const body = streamOf(bytes, 256 * 1024) as unknown as WorkersReadableStream;
+  return appendToTusUpload(env, current!.upload, etag ?? current!.etag, body, bytes.length);
+}
+
+describe('parseUploadMetadata', () => {
+  it('decodes base64 values and keeps keys without one', () => {
+    expect(parseUploadMetadata(`filename ${btoa('report.pdf')},filetype ${btoa('application/pdf')},is_confidential`)).toEqual({
+      filename: 'report.pdf',
+      filetype: 'application/pdf',
+      is_confidential: ''
+    });
+  });
+
+  it('decodes UTF-8 names', () => {
+    const encoded = btoa(String.fromCharCode(...new TextEncoder().encode('résumé.txt')));
+    expect(parseUploadMetadata(`filename ${encoded}`)).toEqual({ filename: 'résumé.txt' });
+  });
+
+  it('treats a missing or blank header as no metadata', () => {
+    expect(parseUploadMetadata(null)).toEqual({});
+    expect(parseUploadMetadata('  ')).toEqual({});
+  });
+
+  it('rejects malformed pairs', () => {
+    expect(parseUploadMetadata('filename a b')).toBeNull();
+    expect(parseUploadMetadata('filename not-base64!')).toBeNull();
+    expect(parseUploadMetadata(`filename ${btoa('\xff\xfe')}`)).toBeNull();
+    expect(parseUploadMetadata(',')).toBeNull();
+  });
+});
+
+describe('isExpired', () => {
+  it('compares against Upload-Expires', () => {
+    const upload = { expiresAt: '2024-01-01T00:00:00.000Z' } as TusUpload;
+    expect(isExpired(upload, Date.parse('2023-12-31T23:59:59Z'))).toBe(false);
+    expect(isExpired(upload, Date.parse('2024-01-01T00:00:01Z'))).toBe(true);
+  });
+});
+
+describe('appendToTusUpload', () => {
+  it('buffers short PATCHes as segments and streams them into equal parts', async () => {
+    const bucket = new MemoryBucket();
+    const env = testEnv(bucket);
+    const content = patternBytes(12 * MiB);
+    const { id, partSize } = await create(env, content.length);
+    expect(partSize).toBe(10 * MiB);
+
+    let upload = await patch(env, id, content.subarray(0, 3 * MiB));
+    expect(upload.offset).toBe(3 * MiB);
+    expect(upload.parts).toHaveLength(0);
+    expect(upload.segments).toMatchObject([{ offset: 0, length: 3 * MiB }]);
+    expect(upload.uploadId).toBeUndefined();
+
+    // Completes the first part from the segment and buffers what's left over
+    upload = await patch(env, id, content.subarray(3 * MiB, 11 * MiB));
+    expect(upload.offset).toBe(11 * MiB);
+    expect(upload.parts.map((part) => part.partNumber)).toEqual([1]);
+    expect(upload.segments).toMatchObject([{ offset: 10 * MiB, length: MiB }]);
+    expect(bucket.keys(`_system/tus/${id}/`)).toEqual([upload.segments[0].key]);
+
+    upload = await patch(env, id, content.subarray(11 * MiB));
+    expect(upload.offset).toBe(12 * MiB);
+    expect(upload.completed).toBe(true);
+    expect(upload.parts.map((part) => part.partNumber)).toEqual([1, 2]);
+    expect(upload.segments).toEqual([]);
+    expect(bucket.keys(`_system/tus/${id}/`)).toEqual([]);
+
+    expect(sameBytes(bucket.bytes('alice/file.bin'), content)).toBe(true);
+  });
+
+  it('handles a PATCH that spans several parts at once', async () => {
+    const bucket = new MemoryBucket();
+    const env = testEnv(bucket);
+    const content = patternBytes(25 * MiB);
+    const { id } = await create(env, content.length);
+
+    await patch(env, id, content.subarray(0, MiB));
+    const upload = await patch(env, id, content.subarray(MiB));
+    expect(upload.completed).toBe(true);
+    expect(upload.parts).toHaveLength(3);
+    expect(sameBytes(bucket.bytes('alice/file.bin'), content)).toBe(true);
+  });
+
+  it('writes an upload that fits in one part with a single PUT', async () => {
+    const bucket = new MemoryBucket();
+    const env = testEnv(bucket);
+    const content = patternBytes(MiB);
+    const { id } = await create(env, content.length);
+
+    await patch(env, id, content.subarray(0, 400 * 1024));
+    const upload = await patch(env, id, content.subarray(400 * 1024));
+    expect(upload.completed).toBe(true);
+    expect(upload.uploadId).toBeUndefined();
+    expect(sameBytes(bucket.bytes('alice/file.bin'), content)).toBe(true);
+  });
+
+  it('completes an empty upload when it is created', async () => {
+    const bucket = new MemoryBucket();
+    const upload = await create(testEnv(bucket), 0);
+    expect(upload.completed).toBe(true);
+    expect(bucket.bytes('alice/file.bin')).toEqual(new Uint8Array());
+  });
+
+  it('refuses a PATCH based on a stale copy of the upload, and termination removes its segment', async () => {
+    const bucket = new MemoryBucket();
+    const env = testEnv(bucket);
+    const content = patternBytes(12 * MiB);
+    const { id } = await create(env, content.length);
+    const stale = await getTusUpload(env.BUCKET, 'alice', id);
+
+    await patch(env, id, content.subarray(0, MiB));
+    await expect(patch(env, id, content.subarray(0, MiB), stale!.etag)).rejects.toThrow(OffsetConflictError);
+
+    const saved = await getTusUpload(env.BUCKET, 'alice', id);
+    expect(saved!.upload.segments).toHaveLength(1);
+    // The losing request's segment sits next to the saved one until termination
+    expect(bucket.keys(`_system/tus/${id}/`)).toHaveLength(2);
+
+    await deleteTusUpload(env, saved!.upload);
+    expect(bucket.keys('_system/tus/')).toEqual([]);
+  });
+});
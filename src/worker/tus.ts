@@ -0,0 +1,335 @@
+import type { R2Bucket, ReadableStream as WorkersReadableStream, ReadableStreamDefaultReader } from '@cloudflare/workers-types/latest';
+import { staleUploadTtl } from './cleanup';
+import type { Env } from './env';
+import { ConflictError, ConflictPolicy, noOverwrite } from './keys';
+import { tryReleaseStorage } from './limits';
+import { choosePartSize } from './partSizing';
+import { CompletedPart, SYSTEM_PREFIX } from './sessions';
+import { fixedLengthStream, SourceReader } from './streams';
+
+// tus 1.0 resumable uploads (https://tus.io/protocols/resumable-upload) on top
+// of R2 multipart uploads. R2 wants every part but the last to be the same
+// size and at least 5MB, while tus clients send as many or as few bytes per
+// PATCH as they like. Bytes that don't fill a part yet are kept as buffer
+// segments and streamed into the part by the request that completes it.
+
+export const TUS_VERSION = '1.0.0';
+export const TUS_EXTENSIONS = 'creation,termination,expiration';
+
+const TUS_PREFIX = `${SYSTEM_PREFIX}tus/`;
+
+export interface BufferSegment {
+  offset: number;
+  length: number;
+  // Object holding the bytes; unique per request, so concurrent PATCHes at
+  // the same offset can't overwrite each other's before one of them loses
+  key: string;
+}
+
+export interface TusUpload {
+  id: string;
+  owner: string;
+  // Full object key, including the owner's prefix, and the name the user sees
+  key: string;
+  name: string;
+  // Upload-Length and Upload-Offset
+  length: number;
+  offset: number;
+  // Upload-Metadata as sent, echoed back on HEAD
+  metadata: string;
+  contentType: string;
+  conflictPolicy: ConflictPolicy;
+  partSize: number;
+  // Only created once the first part is full; an upload that fits in one
+  // part is written with a single PUT
+  uploadId?: string;
+  parts: CompletedPart[];
+  // Received bytes past the last part
+  segments: BufferSegment[];
+  completed: boolean;
+  createdAt: string;
+  expiresAt: string;
+}
+
+// The Upload-Offset doesn't match, or another request changed the upload first
+export class OffsetConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OffsetConflictError';
+  }
+}
+
+function uploadPath(id: string): string {
+  return `${TUS_PREFIX}${id}.json`;
+}
+
+function segmentsPrefix(id: string): string {
+  return `${TUS_PREFIX}${id}/`;
+}
+
+function segmentKey(upload: TusUpload): string {
+  return `${segmentsPrefix(upload.id)}${upload.offset}-${crypto.randomUUID()}`;
+}
+
+function expiresAt(env: Env): string {
+  return new Date(Date.now() + staleUploadTtl(env) * 1000).toISOString();
+}
+
+export function isExpired(upload: TusUpload, now = Date.now()): boolean {
+  return now > Date.parse(upload.expiresAt);
+}
+
+// `key base64value,key base64value,flag`; values may be absent. Returns null
+// when a pair is malformed.
+export function parseUploadMetadata(header: string | null): Record<string, string> | null {
+  const metadata: Record<string, string> = {};
+  if (!header?.trim()) return metadata;
+
+  for (const pair of header.split(',')) {
+    const [key, value = '', ...rest] = pair.trim().split(' ');
+    if (!key || rest.length > 0) return null;
+    try {
+      metadata[key] = new TextDecoder('utf-8', { fatal: true })
+        .decode(Uint8Array.from(atob(value), (char) => char.charCodeAt(0)));
+    } catch {
+      return null;
+    }
+  }
+  return metadata;
+}
+
+// Saves the upload unless someone else saved it since `etag` was read.
+// Returns the new etag.
+async function saveUpload(bucket: R2Bucket, upload: TusUpload, etag?: string): Promise<string> {
+  const object = await bucket.put(uploadPath(upload.id), JSON.stringify(upload), {
+    httpMetadata: { contentType: 'application/json' },
+    ...(etag && { onlyIf: { etagMatches: etag } })
+  });
+  if (!object) {
+    throw new OffsetConflictError('The upload was changed by another request');
+  }
+  return object.etag;
+}
+
+export async function getTusUpload(bucket: R2Bucket, owner: string, id: string): Promise<{ upload: TusUpload; etag: string } | null> {
+  if (!/^[\w-]+$/.test(id)) return null;
+  const object = await bucket.get(uploadPath(id));
+  if (!object) return null;
+  const upload = await object.json<TusUpload>();
+  return upload.owner === owner ? { upload, etag: object.etag } : null;
+}
+
+async function deleteSegments(bucket: R2Bucket, segments: BufferSegment[]): Promise<void> {
+  if (segments.length === 0) return;
+  await bucket.delete(segments.map((segment) => segment.key));
+}
+
+// Including any left behind by requests that lost a race to save the upload
+async function deleteAllSegments(bucket: R2Bucket, upload: TusUpload): Promise<void> {
+  let truncated = true;
+  while (truncated) {
+    // Deleting shifts the listing, so always start again from the top
+    const page = await bucket.list({ prefix: segmentsPrefix(upload.id) });
+    if (page.objects.length === 0) break;
+    await bucket.delete(page.objects.map((object) => object.key));
+    truncated = page.truncated;
+  }
+  upload.segments = [];
+}
+
+// Single PUT for uploads that fit in one part; refused if the name was taken
+// in the meantime unless overwriting
+async function writeObject(env: Env, upload: TusUpload, body: WorkersReadableStream | string): Promise<void> {
+  const object = await env.BUCKET.put(upload.key, body, {
+    httpMetadata: { contentType: upload.contentType },
+    customMetadata: { 'upload-type': 'tus' },
+    ...(upload.conflictPolicy !== 'overwrite' && { onlyIf: noOverwrite() })
+  });
+  if (!object) {
+    throw new ConflictError(upload.name);
+  }
+}
+
+export async function createTusUpload(
+  env: Env,
+  fields: Pick<TusUpload, 'owner' | 'key' | 'name' | 'length' | 'metadata' | 'contentType' | 'conflictPolicy'>
+): Promise<TusUpload> {
+  const upload: TusUpload = {
+    ...fields,
+    id: crypto.randomUUID(),
+    offset: 0,
+    partSize: choosePartSize(fields.length),
+    parts: [],
+    segments: [],
+    completed: false,
+    createdAt: new Date().toISOString(),
+    expiresAt: expiresAt(env)
+  };
+
+  // Nothing will ever be PATCHed to an empty upload
+  if (upload.length === 0) {
+    await writeObject(env, upload, '');
+    upload.completed = true;
+  }
+
+  await saveUpload(env.BUCKET, upload);
+  return upload;
+}
+
+// The buffered segments followed by the rest of the part from the request
+function partStream(bucket: R2Bucket, upload: TusUpload, rest: WorkersReadableStream): WorkersReadableStream {
+  const segments = [...upload.segments];
+  const chunks = (async function* () {
+    for (const segment of segments) {
+      const object = await bucket.get(segment.key);
+      if (!object) throw new Error(`Buffered data at offset ${segment.offset} is missing`);
+      yield* object.body as unknown as AsyncIterable<Uint8Array>;
+    }
+    yield* rest as unknown as AsyncIterable<Uint8Array>;
+  })();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    }
+  }) as unknown as WorkersReadableStream;
+}
+
+async function completeMultipart(env: Env, upload: TusUpload): Promise<void> {
+  // Multipart uploads can't complete conditionally, so check right before
+  if (upload.conflictPolicy !== 'overwrite' && await env.BUCKET.head(upload.key)) {
+    throw new ConflictError(upload.name);
+  }
+  await env.BUCKET.resumeMultipartUpload(upload.key, upload.uploadId!).complete(upload.parts);
+}
+
+// Append a PATCH body of `length` bytes. Progress is saved after every part,
+// so if the request breaks off, the offset a client reads back with HEAD is
+// the last part or segment that was stored in full.
+export async function appendToTusUpload(
+  env: Env,
+  upload: TusUpload,
+  etag: string,
+  body: WorkersReadableStream,
+  length: number
+): Promise<TusUpload> {
+  const reader = new SourceReader(body.getReader() as unknown as ReadableStreamDefaultReader<Uint8Array>);
+  let remaining = length;
+  // Segments streamed into a part, deleted once the upload is saved without
+  // them: until then another request may still be using them
+  let consumed: BufferSegment[] = [];
+
+  try {
+    while (remaining > 0) {
+      const partStart = upload.parts.length * upload.partSize;
+      const partEnd = Math.min(partStart + upload.partSize, upload.length);
+      const needed = partEnd - upload.offset;
+
+      if (remaining < needed) {
+        // Not enough for a part yet; keep it for a later request
+        const key = segmentKey(upload);
+        await env.BUCKET.put(key, reader.stream(remaining));
+        upload.segments.push({ offset: upload.offset, length: remaining, key });
+        upload.offset += remaining;
+        remaining = 0;
+      } else {
+        const stream = fixedLengthStream(partStream(env.BUCKET, upload, reader.stream(needed)), partEnd - partStart);
+
+        if (partStart === 0 && partEnd === upload.length) {
+          await writeObject(env, upload, stream);
+          upload.completed = true;
+        } else {
+          if (!upload.uploadId) {
+            const multipart = await env.BUCKET.createMultipartUpload(upload.key, {
+              httpMetadata: { contentType: upload.contentType },
+              customMetadata: { 'upload-type': 'tus' }
+            });
+            upload.uploadId = multipart.uploadId;
+            etag = await saveUpload(env.BUCKET, upload, etag);
+          }
+          const part = await env.BUCKET.resumeMultipartUpload(upload.key, upload.uploadId)
+            .uploadPart(upload.parts.length + 1, stream);
+          upload.parts.push({ partNumber: part.partNumber, etag: part.etag });
+        }
+
+        consumed = upload.segments;
+        upload.segments = [];
+        upload.offset = partEnd;
+        remaining -= needed;
+
+        if (upload.offset === upload.length && !upload.completed) {
+          await completeMultipart(env, upload);
+          upload.completed = true;
+        }
+      }
+
+      // Every request that makes progress pushes the expiry back
+      upload.expiresAt = expiresAt(env);
+      etag = await saveUpload(env.BUCKET, upload, etag);
+      await deleteSegments(env.BUCKET, consumed);
+      consumed = [];
+    }
+  } finally {
+    await reader.cancel();
+  }
+
+  return upload;
+}
+
+// Termination: drop everything stored for the upload. A completed file stays.
+export async function deleteTusUpload(env: Env, upload: TusUpload): Promise<void> {
+  if (upload.uploadId && !upload.completed) {
+    try {
+      await env.BUCKET.resumeMultipartUpload(upload.key, upload.uploadId).abort();
+    } catch (error) {
+      console.warn(`Could not abort tus upload ${upload.id}:`, error);
+    }
+  }
+  await deleteAllSegments(env.BUCKET, upload);
+  await env.BUCKET.delete(uploadPath(upload.id));
+}
+
+// Every tus upload that hasn't been removed yet
+export async function listTusUploads(bucket: R2Bucket): Promise<TusUpload[]> {
+  const uploads: TusUpload[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await bucket.list({ prefix: TUS_PREFIX, delimiter: '/', cursor });
+    for (const object of page.objects) {
+      const body = await bucket.get(object.key);
+      if (body) uploads.push(await body.json<TusUpload>());
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  return uploads;
+}
+
+// Cron: forget uploads past their Upload-Expires, finished or not
+export async function cleanupExpiredTusUploads(env: Env): Promise<void> {
+  const now = Date.now();
+  let expired = 0;
+
+  for (const upload of await listTusUploads(env.BUCKET)) {
+    if (isExpired(upload, now)) {
+      await deleteTusUpload(env, upload);
+      if (!upload.completed) {
+        await tryReleaseStorage(env, upload.owner, upload.length);
+      }
+      expired++;
+    }
+  }
+
+  if (expired > 0) {
+    console.log(`Removed ${expired} expired tus upload(s)`);
+  }
+}
@@ -0,0 +1,283 @@
+import type { R2Bucket } from '@cloudflare/workers-types/latest';
+import type { Env } from './env';
+import { isAllowedHost } from './hosts';
+import { SYSTEM_PREFIX } from './sessions';
+
+// Webhook subscriptions per user. Events about a user's files are POSTed as
+// JSON to each subscription that wants them, signed with the subscription's
+// secret. With WEBHOOK_QUEUE configured, failed deliveries are retried by the
+// queue with growing delays; without it, a few quick retries happen in the
+// background of the request that caused the event.
+
+const WEBHOOK_PREFIX = `${SYSTEM_PREFIX}webhooks/`;
+const DELIVERY_PREFIX = `${SYSTEM_PREFIX}webhook-deliveries/`;
+export const MAX_DELIVERY_ATTEMPTS = 6;
+// Delivery log entries kept per subscription
+const MAX_LOG_ENTRIES = 50;
+const MAX_WEBHOOKS_PER_USER = 20;
+const DELIVERY_TIMEOUT = 10000;
+
+export const WEBHOOK_EVENTS = ['upload.completed', 'file.downloaded', 'file.deleted'] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+export interface Webhook {
+  id: string;
+  owner: string;
+  url: string;
+  // HMAC-SHA256 key for the X-Webhook-Signature header
+  secret: string;
+  events: WebhookEvent[];
+  createdAt: string;
+}
+
+// Secrets are only shown when a subscription is created
+export type WebhookSummary = Omit<Webhook, 'owner' | 'secret'>;
+
+export interface WebhookPayload {
+  // Same for every attempt at delivering one event, so receivers can de-duplicate
+  id: string;
+  event: WebhookEvent;
+  // File name relative to the owner's root; a folder (ending in '/') for a folder delete
+  key: string;
+  size: number | null;
+  sha256: string | null;
+  // User id, or `share:<id>` for downloads through a share link
+  actor: string;
+  timestamp: string;
+}
+
+export interface DeliveryAttempt {
+  deliveryId: string;
+  event: WebhookEvent;
+  attempt: number;
+  timestamp: string;
+  // HTTP status, or null when no response arrived
+  status: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+export interface WebhookMessage {
+  type: 'webhook';
+  owner: string;
+  webhookId: string;
+  payload: WebhookPayload;
+}
+
+const encoder = new TextEncoder();
+
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function webhookPath(owner: string, id: string): string {
+  return `${WEBHOOK_PREFIX}${encodeURIComponent(owner)}/${id}.json`;
+}
+
+function deliveryPrefix(owner: string, id: string): string {
+  return `${DELIVERY_PREFIX}${encodeURIComponent(owner)}/${id}/`;
+}
+
+// Newest first in a listing
+function invertedTimestamp(): string {
+  return (Number.MAX_SAFE_INTEGER - Date.now()).toString().padStart(16, '0');
+}
+
+export function isWebhookMessage(message: unknown): message is WebhookMessage {
+  return typeof message === 'object' && message !== null && (message as WebhookMessage).type === 'webhook';
+}
+
+export function summarizeWebhook(webhook: Webhook): WebhookSummary {
+  const { owner, secret, ...summary } = webhook;
+  return summary;
+}
+
+// Deliveries go out from the Worker, so private hosts are refused unless
+// listed in WEBHOOK_ALLOWED_HOSTS
+export function isAllowedWebhookUrl(env: Env, url: string): boolean {
+  return isAllowedHost(new URL(url), env.WEBHOOK_ALLOWED_HOSTS);
+}
+
+export function parseWebhookUrl(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// An empty list subscribes to everything
+export function parseWebhookEvents(value: unknown): WebhookEvent[] | null {
+  if (value === undefined || value === null) return [...WEBHOOK_EVENTS];
+  if (!Array.isArray(value) || !value.every((event) => WEBHOOK_EVENTS.includes(event))) return null;
+  return value.length > 0 ? [...new Set(value as WebhookEvent[])] : [...WEBHOOK_EVENTS];
+}
+
+export async function listWebhooks(bucket: R2Bucket, owner: string): Promise<Webhook[]> {
+  const listed = await bucket.list({ prefix: `${WEBHOOK_PREFIX}${encodeURIComponent(owner)}/` });
+  const webhooks = await Promise.all(listed.objects.map(async (object) => {
+    const body = await bucket.get(object.key);
+    return body ? await body.json<Webhook>() : null;
+  }));
+  return webhooks.filter((webhook): webhook is Webhook => webhook !== null)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function getWebhook(bucket: R2Bucket, owner: string, id: string): Promise<Webhook | null> {
+  if (!/^[\w-]+$/.test(id)) return null;
+  const object = await bucket.get(webhookPath(owner, id));
+  return object ? await object.json<Webhook>() : null;
+}
+
+// Returns null when the user already has the maximum number of subscriptions
+export async function createWebhook(
+  bucket: R2Bucket,
+  fields: Pick<Webhook, 'owner' | 'url' | 'events'> & { secret?: string }
+): Promise<Webhook | null> {
+  if ((await listWebhooks(bucket, fields.owner)).length >= MAX_WEBHOOKS_PER_USER) return null;
+
+  const webhook: Webhook = {
+    id: crypto.randomUUID(),
+    owner: fields.owner,
+    url: fields.url,
+    secret: fields.secret || toHex(crypto.getRandomValues(new Uint8Array(32))),
+    events: fields.events,
+    createdAt: new Date().toISOString()
+  };
+  await bucket.put(webhookPath(webhook.owner, webhook.id), JSON.stringify(webhook), {
+    httpMetadata: { contentType: 'application/json' }
+  });
+  return webhook;
+}
+
+export async function deleteWebhook(bucket: R2Bucket, webhook: Webhook): Promise<void> {
+  await bucket.delete(webhookPath(webhook.owner, webhook.id));
+  const log = await bucket.list({ prefix: deliveryPrefix(webhook.owner, webhook.id) });
+  if (log.objects.length > 0) {
+    await bucket.delete(log.objects.map((object) => object.key));
+  }
+}
+
+export async function listDeliveries(bucket: R2Bucket, webhook: Webhook): Promise<DeliveryAttempt[]> {
+  const listed = await bucket.list({ prefix: deliveryPrefix(webhook.owner, webhook.id), limit: MAX_LOG_ENTRIES });
+  const attempts = await Promise.all(listed.objects.map(async (object) => {
+    const body = await bucket.get(object.key);
+    return body ? await body.json<DeliveryAttempt>() : null;
+  }));
+  return attempts.filter((attempt): attempt is DeliveryAttempt => attempt !== null);
+}
+
+async function recordAttempt(bucket: R2Bucket, webhook: Webhook, attempt: DeliveryAttempt): Promise<void> {
+  const prefix = deliveryPrefix(webhook.owner, webhook.id);
+  await bucket.put(`${prefix}${invertedTimestamp()}-${attempt.deliveryId}-${attempt.attempt}.json`, JSON.stringify(attempt), {
+    httpMetadata: { contentType: 'application/json' }
+  });
+
+  // Keep the log short; the listing is newest first
+  const listed = await bucket.list({ prefix, limit: MAX_LOG_ENTRIES + 20 });
+  const old = listed.objects.slice(MAX_LOG_ENTRIES).map((object) => object.key);
+  if (old.length > 0) {
+    await bucket.delete(old);
+  }
+}
+
+// `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`; the timestamp lets
+// receivers reject replays
+export async function signPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return `t=${timestamp},v1=${toHex(signature)}`;
+}
+
+// One delivery attempt, recorded in the log. Returns whether the receiver
+// accepted it (any 2xx).
+export async function deliver(env: Env, webhook: Webhook, payload: WebhookPayload, attempt: number): Promise<boolean> {
+  const body = JSON.stringify(payload);
+  const started = Date.now();
+  let status: number | null = null;
+  let error: string | null = null;
+
+  try {
+    // Checked again in case the subscription predates the rule or the allowed hosts changed
+    if (!isAllowedWebhookUrl(env, webhook.url)) {
+      throw new Error(`${new URL(webhook.url).host} is a private address`);
+    }
+    // Redirects aren't followed, so a public receiver can't send the delivery on to a private one
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      redirect: 'manual',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'up-downloader-webhooks',
+        'X-Webhook-Event': payload.event,
+        'X-Webhook-Id': payload.id,
+        'X-Webhook-Signature': await signPayload(webhook.secret, Math.floor(started / 1000), body)
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT)
+    });
+    status = response.status;
+    await response.body?.cancel();
+    if (!response.ok) error = `Receiver responded with ${response.status}`;
+  } catch (cause) {
+    error = (cause as Error).message || 'Request failed';
+  }
+
+  await recordAttempt(env.BUCKET, webhook, {
+    deliveryId: payload.id,
+    event: payload.event,
+    attempt,
+    timestamp: new Date(started).toISOString(),
+    status,
+    error,
+    durationMs: Date.now() - started
+  }).catch((cause) => console.warn(`Could not log webhook delivery ${payload.id}:`, cause));
+
+  return error === null;
+}
+
+// Seconds before the queue retries attempt `attempt` + 1: 30s, 1m, 2m, ... up to 1h
+export function retryDelay(attempt: number): number {
+  return Math.min(30 * 2 ** (attempt - 1), 60 * 60);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Without a queue, retry quickly while the request's background time lasts
+async function deliverInBackground(env: Env, webhook: Webhook, payload: WebhookPayload): Promise<void> {
+  for (let attempt = 1; attempt <= 3; attempt++) {
+    if (await deliver(env, webhook, payload, attempt)) return;
+    if (attempt < 3) await sleep(1000 * 2 ** attempt);
+  }
+}
+
+// Fan an event out to the owner's subscriptions. Meant for ctx.waitUntil;
+// never throws.
+export async function emitEvent(
+  env: Env,
+  owner: string,
+  event: Omit<WebhookPayload, 'id' | 'timestamp'>
+): Promise<void> {
+  try {
+    const webhooks = (await listWebhooks(env.BUCKET, owner)).filter((webhook) => webhook.events.includes(event.event));
+    if (webhooks.length === 0) return;
+
+    const payload: WebhookPayload = { ...event, id: crypto.randomUUID(), timestamp: new Date().toISOString() };
+    if (env.WEBHOOK_QUEUE) {
+      await env.WEBHOOK_QUEUE.sendBatch(webhooks.map((webhook) => ({
+        body: { type: 'webhook', owner, webhookId: webhook.id, payload } satisfies WebhookMessage
+      })));
+    } else {
+      await Promise.all(webhooks.map((webhook) => deliverInBackground(env, webhook, payload)));
+    }
+  } catch (error) {
+    console.error(`Failed to emit ${event.event} for ${event.key}:`, error);
+  }
+}
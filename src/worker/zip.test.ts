@@ -0,0 +1,163 @@
+import type { R2Bucket } from '@cloudflare/workers-types/latest';
+import { describe, expect, it } from 'vitest';
+import { MemoryBucket, streamOf } from './testing';
+import { commonFolder, planArchive, ZipEntry, zipStream } from './zip';
+
+const GiB = 1024 ** 3;
+const uploaded = new Date(Date.UTC(2024, 4, 17, 13, 45, 30));
+
+function entry(name: string, size: number, key = name): ZipEntry {
+  return { key, name, size, etag: 'etag', uploaded };
+}
+
+async function archive(bucket: MemoryBucket, entries: ZipEntry[]): Promise<DataView> {
+  const plan = planArchive(entries);
+  const bytes = new Uint8Array(await new Response(zipStream(bucket as unknown as R2Bucket, plan) as ReadableStream).arrayBuffer());
+  expect(bytes.length).toBe(plan.length);
+  return new DataView(bytes.buffer);
+}
+
+// Stores each text under its name and returns entries pinned to what was stored
+async function store(bucket: MemoryBucket, files: Record<string, string>): Promise<ZipEntry[]> {
+  const entries: ZipEntry[] = [];
+  for (const [name, text] of Object.entries(files)) {
+    const object = await bucket.put(name, text);
+    entries.push({ ...entry(name, object!.size), etag: object!.etag });
+  }
+  return entries;
+}
+
+function name(view: DataView, offset: number, length: number): string {
+  return new TextDecoder().decode(new Uint8Array(view.buffer, offset, length));
+}
+
+describe('planArchive', () => {
+  it('lays out local headers, data, descriptors, the central directory and its end', () => {
+    const plan = planArchive([entry('a.txt', 10), entry('dir/é.txt', 20)]);
+    const [a, b] = plan.entries;
+    // "é" is two bytes in UTF-8
+    expect(b.nameBytes.length).toBe(10);
+
+    expect(a.offset).toBe(0);
+    expect(b.offset).toBe(30 + 5 + 10 + 16);
+    expect(plan.centralOffset).toBe(b.offset + 30 + 10 + 20 + 16);
+    expect(plan.centralLength).toBe(46 + 5 + 46 + 10);
+    expect(plan.zip64).toBe(false);
+    expect(plan.length).toBe(plan.centralOffset + plan.centralLength + 22);
+  });
+
+  it('uses ZIP64 fields for entries of 4 GiB or more and for offsets past 4 GiB', () => {
+    const plan = planArchive([entry('big.bin', 5 * GiB), entry('after.txt', 3)]);
+    const [big, after] = plan.entries;
+
+    expect(big.zip64).toBe(true);
+    expect(after.zip64).toBe(false);
+    // Local ZIP64 extra of 20 bytes and a 24-byte descriptor for the big entry
+    expect(after.offset).toBe(30 + 7 + 20 + 5 * GiB + 24);
+    expect(plan.centralOffset).toBe(after.offset + 30 + 9 + 3 + 16);
+    // Central extras: both sizes for the big entry, the offset for the one after it
+    expect(plan.centralLength).toBe((46 + 7 + 4 + 16) + (46 + 9 + 4 + 8));
+    expect(plan.zip64).toBe(true);
+    expect(plan.length).toBe(plan.centralOffset + plan.centralLength + 56 + 20 + 22);
+  });
+
+  it('keeps an entry just below 4 GiB classic, but not the directory after it', () => {
+    const plan = planArchive([entry('edge.bin', 0xfffffffe)]);
+    expect(plan.entries[0].zip64).toBe(false);
+    expect(plan.centralLength).toBe(46 + 8);
+    expect(plan.zip64).toBe(true);
+  });
+});
+
+describe('zipStream', () => {
+  it('writes the CRC-32 and sizes of each entry', async () => {
+    const bucket = new MemoryBucket();
+    const entries = await store(bucket, { 'check.txt': '123456789', 'hello.txt': 'hello world' });
+    const view = await archive(bucket, entries);
+    const plan = planArchive(entries);
+
+    // Local header, then the data, then the descriptor
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(6, true)).toBe(0x0808);
+    expect(name(view, 30, 9)).toBe('check.txt');
+    expect(name(view, 39, 9)).toBe('123456789');
+    expect(view.getUint32(48, true)).toBe(0x08074b50);
+    expect(view.getUint32(52, true)).toBe(0xcbf43926);
+    expect(view.getUint32(56, true)).toBe(9);
+
+    const central = plan.centralOffset;
+    expect(view.getUint32(central, true)).toBe(0x02014b50);
+    expect(view.getUint32(central + 16, true)).toBe(0xcbf43926);
+    expect(view.getUint32(central + 20, true)).toBe(9);
+    expect(view.getUint32(central + 42, true)).toBe(0);
+
+    const second = central + 46 + 9;
+    expect(view.getUint32(second + 16, true)).toBe(0x0d4a1185);
+    expect(view.getUint32(second + 42, true)).toBe(plan.entries[1].offset);
+    expect(name(view, second + 46, 9)).toBe('hello.txt');
+
+    const end = plan.centralOffset + plan.centralLength;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    expect(view.getUint32(end + 12, true)).toBe(plan.centralLength);
+    expect(view.getUint32(end + 16, true)).toBe(plan.centralOffset);
+  });
+
+  it('carries the CRC across chunks of the object body', async () => {
+    const bucket = new MemoryBucket();
+    const [stored] = await store(bucket, { 'check.txt': '123456789' });
+    const chunked = {
+      get: async (key: string, options: object) => {
+        const object = await bucket.get(key, options);
+        return object && { ...object, body: streamOf(bucket.bytes(key)!, 2) };
+      }
+    } as unknown as MemoryBucket;
+
+    const view = await archive(chunked, [stored]);
+    expect(view.getUint32(52, true)).toBe(0xcbf43926);
+  });
+
+  it('writes the ZIP64 end records when there are 65535 entries or more', async () => {
+    const bucket = new MemoryBucket();
+    const [empty] = await store(bucket, { 'empty.txt': '' });
+    const entries = Array.from({ length: 0xffff }, (_, i) => ({ ...empty, name: `${i}.txt` }));
+    const plan = planArchive(entries);
+    expect(plan.zip64).toBe(true);
+
+    const view = await archive(bucket, entries);
+    const zip64End = plan.centralOffset + plan.centralLength;
+    expect(view.getUint32(zip64End, true)).toBe(0x06064b50);
+    expect(view.getBigUint64(zip64End + 4, true)).toBe(44n);
+    expect(view.getBigUint64(zip64End + 24, true)).toBe(0xffffn);
+    expect(view.getBigUint64(zip64End + 32, true)).toBe(0xffffn);
+    expect(view.getBigUint64(zip64End + 40, true)).toBe(BigInt(plan.centralLength));
+    expect(view.getBigUint64(zip64End + 48, true)).toBe(BigInt(plan.centralOffset));
+
+    const locator = zip64End + 56;
+    expect(view.getUint32(locator, true)).toBe(0x07064b50);
+    expect(view.getBigUint64(locator + 8, true)).toBe(BigInt(zip64End));
+    expect(view.getUint32(locator + 16, true)).toBe(1);
+
+    const end = locator + 20;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 8, true)).toBe(0xffff);
+    expect(view.getUint16(end + 10, true)).toBe(0xffff);
+  });
+
+  it('fails when an object no longer matches the plan', async () => {
+    const bucket = new MemoryBucket();
+    const [planned] = await store(bucket, { 'a.txt': 'before' });
+    await bucket.put('a.txt', 'after, and longer');
+
+    await expect(archive(bucket, [planned])).rejects.toThrow('a.txt changed while building the archive');
+  });
+});
+
+describe('commonFolder', () => {
+  it('finds the folder all selected paths share', () => {
+    expect(commonFolder(['a/b/c.txt', 'a/b/d/'])).toBe('a/b/');
+    expect(commonFolder(['a/b/c.txt', 'a/e.txt'])).toBe('a/');
+    expect(commonFolder(['a/b/', 'x.txt'])).toBe('');
+    expect(commonFolder([])).toBe('');
+  });
+});
@@ -0,0 +1,366 @@
+import type { R2Bucket, R2Object } from '@cloudflare/workers-types/latest';
+
+// Streaming ZIP writer. Entries are STORED (no compression), so the archive's
+// exact length is known before the first byte is sent and each object body
+// can be passed straight through; only the CRC-32 is computed on the way.
+// Sizes and offsets past 4 GiB use the ZIP64 extensions.
+
+// Archives are planned in memory, so keep the entry count bounded
+export const MAX_ZIP_ENTRIES = 10000;
+
+const ZIP64_LIMIT = 0xffffffff;
+// Data descriptor follows the data (bit 3); names are UTF-8 (bit 11)
+const FLAGS = 0x0808;
+// 4.5 is the first version with ZIP64; 2.0 covers data descriptors
+const VERSION_ZIP64 = 45;
+const VERSION_DEFAULT = 20;
+// "Made by" Unix, so extractors apply the file mode below
+const VERSION_MADE_BY = (3 << 8) | VERSION_ZIP64;
+const FILE_MODE = 0o100644;
+
+const LOCAL_HEADER_LENGTH = 30;
+const LOCAL_ZIP64_EXTRA_LENGTH = 20;
+const CENTRAL_HEADER_LENGTH = 46;
+const END_LENGTH = 22;
+const ZIP64_END_LENGTH = 56;
+const ZIP64_LOCATOR_LENGTH = 20;
+
+const encoder = new TextEncoder();
+
+export interface ZipEntry {
+  // Object key in the bucket and the path it gets inside the archive
+  key: string;
+  name: string;
+  size: number;
+  etag: string;
+  uploaded: Date;
+}
+
+interface PlannedEntry extends ZipEntry {
+  nameBytes: Uint8Array;
+  offset: number;
+  // Sizes don't fit the classic 32-bit fields
+  zip64: boolean;
+}
+
+interface ArchivePlan {
+  entries: PlannedEntry[];
+  centralOffset: number;
+  centralLength: number;
+  zip64: boolean;
+  length: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Continue a CRC-32 over another chunk; start from 0
+function crc32(chunk: Uint8Array, crc: number): number {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < chunk.length; i++) {
+    c = CRC_TABLE[(c ^ chunk[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+// Little-endian record builder
+class RecordWriter {
+  readonly bytes: Uint8Array;
+  private view: DataView;
+  private position = 0;
+
+  constructor(length: number) {
+    this.bytes = new Uint8Array(length);
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  u16(value: number): this {
+    this.view.setUint16(this.position, value, true);
+    this.position += 2;
+    return this;
+  }
+
+  u32(value: number): this {
+    this.view.setUint32(this.position, value >>> 0, true);
+    this.position += 4;
+    return this;
+  }
+
+  // Split into halves; sizes stay well inside Number.MAX_SAFE_INTEGER
+  u64(value: number): this {
+    return this.u32(value % 0x100000000).u32(Math.floor(value / 0x100000000));
+  }
+
+  raw(bytes: Uint8Array): this {
+    this.bytes.set(bytes, this.position);
+    this.position += bytes.length;
+    return this;
+  }
+}
+
+// MS-DOS date and time, which can't represent anything before 1980
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getUTCFullYear(), 1980);
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | (date.getUTCSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate()
+  };
+}
+
+function localHeaderLength(entry: PlannedEntry): number {
+  return LOCAL_HEADER_LENGTH + entry.nameBytes.length + (entry.zip64 ? LOCAL_ZIP64_EXTRA_LENGTH : 0);
+}
+
+function descriptorLength(entry: PlannedEntry): number {
+  return entry.zip64 ? 24 : 16;
+}
+
+// The central directory repeats in the ZIP64 extra whichever of the sizes and
+// offset didn't fit
+function centralExtraLength(entry: PlannedEntry): number {
+  const fields = (entry.zip64 ? 2 : 0) + (entry.offset >= ZIP64_LIMIT ? 1 : 0);
+  return fields > 0 ? 4 + fields * 8 : 0;
+}
+
+function centralHeaderLength(entry: PlannedEntry): number {
+  return CENTRAL_HEADER_LENGTH + entry.nameBytes.length + centralExtraLength(entry);
+}
+
+// Lay the archive out ahead of time so its length can be announced
+export function planArchive(entries: ZipEntry[]): ArchivePlan {
+  let offset = 0;
+  const planned = entries.map((entry) => {
+    const plannedEntry: PlannedEntry = {
+      ...entry,
+      nameBytes: encoder.encode(entry.name),
+      offset,
+      zip64: entry.size >= ZIP64_LIMIT
+    };
+    offset += localHeaderLength(plannedEntry) + entry.size + descriptorLength(plannedEntry);
+    return plannedEntry;
+  });
+
+  const centralOffset = offset;
+  const centralLength = planned.reduce((total, entry) => total + centralHeaderLength(entry), 0);
+  const zip64 = planned.length >= 0xffff || centralOffset >= ZIP64_LIMIT || centralLength >= ZIP64_LIMIT
+    || planned.some((entry) => entry.zip64 || entry.offset >= ZIP64_LIMIT);
+
+  return {
+    entries: planned,
+    centralOffset,
+    centralLength,
+    zip64,
+    length: centralOffset + centralLength + (zip64 ? ZIP64_END_LENGTH + ZIP64_LOCATOR_LENGTH : 0) + END_LENGTH
+  };
+}
+
+// CRC and sizes are zero here; they follow the data in the descriptor
+function localHeader(entry: PlannedEntry): Uint8Array {
+  const { time, date } = dosDateTime(entry.uploaded);
+  const writer = new RecordWriter(localHeaderLength(entry))
+    .u32(0x04034b50)
+    .u16(entry.zip64 ? VERSION_ZIP64 : VERSION_DEFAULT)
+    .u16(FLAGS)
+    .u16(0)
+    .u16(time)
+    .u16(date)
+    .u32(0)
+    .u32(entry.zip64 ? ZIP64_LIMIT : 0)
+    .u32(entry.zip64 ? ZIP64_LIMIT : 0)
+    .u16(entry.nameBytes.length)
+    .u16(entry.zip64 ? LOCAL_ZIP64_EXTRA_LENGTH : 0)
+    .raw(entry.nameBytes);
+
+  if (entry.zip64) {
+    writer.u16(0x0001).u16(16).u64(0).u64(0);
+  }
+  return writer.bytes;
+}
+
+function dataDescriptor(entry: PlannedEntry, crc: number): Uint8Array {
+  const writer = new RecordWriter(descriptorLength(entry)).u32(0x08074b50).u32(crc);
+  return entry.zip64
+    ? writer.u64(entry.size).u64(entry.size).bytes
+    : writer.u32(entry.size).u32(entry.size).bytes;
+}
+
+function centralHeader(entry: PlannedEntry, crc: number): Uint8Array {
+  const { time, date } = dosDateTime(entry.uploaded);
+  const extraLength = centralExtraLength(entry);
+  const writer = new RecordWriter(centralHeaderLength(entry))
+    .u32(0x02014b50)
+    .u16(VERSION_MADE_BY)
+    .u16(entry.zip64 || entry.offset >= ZIP64_LIMIT ? VERSION_ZIP64 : VERSION_DEFAULT)
+    .u16(FLAGS)
+    .u16(0)
+    .u16(time)
+    .u16(date)
+    .u32(crc)
+    .u32(Math.min(entry.size, ZIP64_LIMIT))
+    .u32(Math.min(entry.size, ZIP64_LIMIT))
+    .u16(entry.nameBytes.length)
+    .u16(extraLength)
+    .u16(0)
+    .u16(0)
+    .u16(0)
+    .u32(FILE_MODE << 16)
+    .u32(Math.min(entry.offset, ZIP64_LIMIT))
+    .raw(entry.nameBytes);
+
+  if (extraLength > 0) {
+    writer.u16(0x0001).u16(extraLength - 4);
+    if (entry.zip64) writer.u64(entry.size).u64(entry.size);
+    if (entry.offset >= ZIP64_LIMIT) writer.u64(entry.offset);
+  }
+  return writer.bytes;
+}
+
+function endOfCentralDirectory(plan: ArchivePlan): Uint8Array {
+  const count = plan.entries.length;
+  const writer = new RecordWriter((plan.zip64 ? ZIP64_END_LENGTH + ZIP64_LOCATOR_LENGTH : 0) + END_LENGTH);
+
+  if (plan.zip64) {
+    const zip64EndOffset = plan.centralOffset + plan.centralLength;
+    writer
+      .u32(0x06064b50)
+      .u64(ZIP64_END_LENGTH - 12)
+      .u16(VERSION_MADE_BY)
+      .u16(VERSION_ZIP64)
+      .u32(0)
+      .u32(0)
+      .u64(count)
+      .u64(count)
+      .u64(plan.centralLength)
+      .u64(plan.centralOffset)
+      .u32(0x07064b50)
+      .u32(0)
+      .u64(zip64EndOffset)
+      .u32(1);
+  }
+
+  return writer
+    .u32(0x06054b50)
+    .u16(0)
+    .u16(0)
+    .u16(Math.min(count, 0xffff))
+    .u16(Math.min(count, 0xffff))
+    .u32(Math.min(plan.centralLength, ZIP64_LIMIT))
+    .u32(Math.min(plan.centralOffset, ZIP64_LIMIT))
+    .u16(0)
+    .bytes;
+}
+
+async function* archiveChunks(bucket: R2Bucket, plan: ArchivePlan): AsyncGenerator<Uint8Array> {
+  const crcs: number[] = [];
+
+  for (const entry of plan.entries) {
+    yield localHeader(entry);
+
+    // Pinned to the planned version, since the length was announced already
+    const object = await bucket.get(entry.key, { onlyIf: { etagMatches: entry.etag } });
+    if (!object || !('body' in object)) {
+      throw new Error(`${entry.name} changed while building the archive`);
+    }
+
+    const reader = object.body.getReader();
+    let crc = 0;
+    let length = 0;
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      crc = crc32(value, crc);
+      length += value.length;
+      yield value;
+    }
+    if (length !== entry.size) {
+      throw new Error(`${entry.name} changed while building the archive`);
+    }
+
+    crcs.push(crc);
+    yield dataDescriptor(entry, crc);
+  }
+
+  for (let i = 0; i < plan.entries.length; i++) {
+    yield centralHeader(plan.entries[i], crcs[i]);
+  }
+  yield endOfCentralDirectory(plan);
+}
+
+// Pull-based, so an object is only read as fast as the client downloads
+export function zipStream(bucket: R2Bucket, plan: ArchivePlan): ReadableStream<Uint8Array> {
+  const chunks = archiveChunks(bucket, plan);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    }
+  });
+}
+
+// The folder all selected paths share, e.g. "a/b/" for "a/b/c.txt" and "a/b/d/"
+export function commonFolder(paths: string[]): string {
+  const parents = paths.map((path) => path.replace(/[^/]*\/?$/, ''));
+  let common = parents[0] ?? '';
+  for (const parent of parents) {
+    while (!parent.startsWith(common)) {
+      common = common.replace(/[^/]*\/$/, '');
+    }
+  }
+  return common;
+}
+
+function toEntry(object: R2Object, name: string): ZipEntry {
+  return { key: object.key, name, size: object.size, etag: object.etag, uploaded: object.uploaded };
+}
+
+// Resolve the selected files and folders (keys relative to `root`; folders end
+// in '/') into archive entries named relative to the folder they share.
+// Returns null when a selected file doesn't exist. Stops early once there are
+// more than MAX_ZIP_ENTRIES entries.
+export async function collectEntries(bucket: R2Bucket, root: string, paths: string[]): Promise<ZipEntry[] | null> {
+  const base = commonFolder(paths);
+  const entries: ZipEntry[] = [];
+  const seen = new Set<string>();
+
+  const add = (object: R2Object) => {
+    if (seen.has(object.key)) return;
+    seen.add(object.key);
+    entries.push(toEntry(object, object.key.slice(root.length + base.length)));
+  };
+
+  for (const path of paths) {
+    if (entries.length > MAX_ZIP_ENTRIES) break;
+
+    if (!path.endsWith('/') && path !== '') {
+      const object = await bucket.head(`${root}${path}`);
+      if (!object) return null;
+      add(object);
+      continue;
+    }
+
+    let cursor: string | undefined;
+    do {
+      const page = await bucket.list({ prefix: `${root}${path}`, cursor });
+      page.objects.forEach(add);
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor && entries.length <= MAX_ZIP_ENTRIES);
+  }
+
+  return entries;
+}